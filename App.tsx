@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import Canvas, { Handle } from './components/Canvas';
 import Toolbar, { MagicFillMode } from './components/Toolbar';
 import ProgressPanel from './components/ProgressPanel';
@@ -7,12 +7,38 @@ import ContextMenu from './components/ContextMenu';
 import PromptModal from './components/PromptModal';
 import SettingsModal from './components/SettingsModal';
 import MagicFillPrompt from './components/MagicFillPrompt';
-import { CanvasItem, ImageItem, SelectionRect, TextItem, DrawingOptions, TextOptions, GenerationTask, ImagePreview, Point, DrawingItem, MagicFillState, VideoItem, GridOptions, ModelSettings, AVAILABLE_MODELS } from './types';
-import { interpretCanvas, generateImage, editImageWithMask, generateVideo, generateOutpaintedImage, interpretMagicFill } from './services/geminiService';
+import BoardSidebar, { SIDEBAR_WIDTH } from './components/BoardSidebar';
+import LayersPanel from './components/LayersPanel';
+import ExportModal from './components/ExportModal';
+import GenerationParametersPanel from './components/GenerationParametersPanel';
+import ItemInfoModal from './components/ItemInfoModal';
+import LineageModal from './components/LineageModal';
+import UsageModal from './components/UsageModal';
+import PromptReviewModal from './components/PromptReviewModal';
+import PromptLibraryPicker from './components/PromptLibraryPicker';
+import { CanvasItem, ImageItem, SelectionRect, TextItem, DrawingOptions, TextOptions, GenerationTask, GeneratedVideo, ImagePreview, Point, DrawingItem, GroupItem, MagicFillState, VideoItem, GridOptions, ModelSettings, ModelChoice, GenerationProvider, GenerationParameters, GenerationRecord, ProviderConfig, UsageSettings, CacheSettings, PromptReview, PromptReviewDecision, CredentialStatus, ExportOptions, FrameAspectRatio, FrameItem, AlignMode, DistributeAxis, VideoJobRecord } from './types';
+import { interpretCanvas, generateImageVariations, resolveImageParameters, DEFAULT_GENERATION_PARAMETERS, editImageWithMask, generateVideo, resumeVideo, canResumeVideo, generateOutpaintedImage, interpretMagicFill } from './services/generationService';
+import { DEFAULT_MODEL_SETTINGS, normalizeModelSettings, getModelChoices, getUnconfiguredProviders, describeModelChoice, getProviders, modelChoiceKey } from './services/providers';
+import { getProviderConfig, setProviderConfig } from './services/providerConfig';
+import { loadBoardItems, loadBoardArchive, saveBoardItems, migrateLegacyStorage } from './services/storageService';
+import { updateLineageArchive } from './utils/lineage';
+import { createTaskQueue, DEFAULT_CONCURRENCY, MAX_ATTEMPTS } from './services/taskQueue';
+import { DEFAULT_USAGE_SETTINGS, getBudgetWarning, setUsageBoard } from './services/usageService';
+import { DEFAULT_CACHE_SETTINGS, setCacheSettings } from './services/responseCache';
 import { useHistory } from './hooks/useHistory';
-import { SendIcon, TrashIcon, VideoIcon, LoadingSpinner, MagicWandIcon } from './components/icons';
-import { convertDrawingToImageItem, createCanvasSnapshot, createMaskImageFromDrawing, createImageForOutpainting, createOutpaintingMask } from './utils/canvasUtils';
-import { getRotatedBoundingBox } from './utils/geometry';
+import { useBoards } from './hooks/useBoards';
+import { useCredentialStatus } from './hooks/useCredentialStatus';
+import { loadState, saveState, loadBoardState, saveBoardState } from './utils/storage';
+import { downloadBlob, toFileNameStem } from './utils/fileUtils';
+import { exportProject, importProject, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { exportCanvas, EXPORT_FILE_EXTENSIONS } from './utils/exportUtils';
+import { getAlignmentOffsets, getDistributionOffsets } from './utils/alignment';
+import { exportTasks, TaskExportFormat } from './utils/taskExport';
+import { SendIcon, TrashIcon, VideoIcon, LoadingSpinner, MagicWandIcon, AdjustmentsIcon } from './components/icons';
+import { convertDrawingToImageItem, createCanvasSnapshot, createMaskImageFromDrawing, createImageForOutpainting, createOutpaintingMask, cropImageToAspectRatio } from './utils/canvasUtils';
+import { getBoundingBox, getRotatedBoundingBox, getCombinedBoundingBox, getGridPlacementsBeside, fitAspectRatioInRect, getSizeForAspectRatio, translateItem } from './utils/geometry';
+import { cloneWithNewIds, findItemById, findItemPath, flattenItems, isItemPickable, moveItemNextTo, removeItemsById, reorderItem, ungroupItemsById, updateItemById, withoutHiddenItems, wrapItemsById } from './utils/groups';
+import { addFrameOutput, findParentFrame, getDefaultFrameRect, getFrameInputs, getFrameRectAround, getFrames, getNextFrameName } from './utils/frames';
 
 interface SelectionPromptBarProps {
   selectionRect: SelectionRect;
@@ -22,24 +48,35 @@ interface SelectionPromptBarProps {
   onInterpret: () => void;
   onDelete: () => void;
   itemCount: number;
+  parameters: GenerationParameters;
+  onParametersChange: (parameters: GenerationParameters) => void;
   zoom: number;
   pan: Point;
   disabled: boolean;
   isInterpreting: boolean;
+  frame?: FrameItem; // Set when the target is a frame rather than a marquee selection.
 }
 
 
-const ApiKeyWarningBanner = () => (
+const getProviderProblem = (provider: GenerationProvider, status?: CredentialStatus) => {
+    if (status?.state === 'invalid') return `The ${provider.credentialLabel ?? 'API key'} was rejected. Enter a valid key in Model Settings.`;
+    if (status?.state === 'locked') return 'Your saved API keys are locked. Enter your passphrase in Model Settings.';
+    return provider.setupHint;
+};
+
+const ApiKeyWarningBanner: React.FC<{ providers: GenerationProvider[], credentialStatuses: Record<string, CredentialStatus> }> = ({ providers, credentialStatuses }) => (
     <div className="absolute top-0 left-0 right-0 bg-yellow-500/90 text-black p-3 text-center z-50 text-sm font-semibold backdrop-blur-sm">
-        ⚠️ Gemini API Key is not configured. Generation features are disabled. Please set the <code>API_KEY</code> environment variable.
+        ⚠️ {providers.map(p => p.name).join(', ')} {providers.length === 1 ? 'is' : 'are'} not configured. Generation features are disabled. {providers.map(p => getProviderProblem(p, credentialStatuses[p.id])).join(' ')} You can also pick another provider in Model Settings.
     </div>
 );
 
 const SelectionPromptBar: React.FC<SelectionPromptBarProps> = ({ 
     selectionRect, prompt, onPromptChange, onGenerate, onInterpret, onDelete, 
-    itemCount, zoom, pan, disabled, isInterpreting 
+    itemCount, parameters, onParametersChange, zoom, pan, disabled, isInterpreting, frame
 }) => {
   const [position, setPosition] = useState({ top: 0, left: 0, width: 0 });
+  const [showParameters, setShowParameters] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const barWidth = Math.max(350, Math.min(550, selectionRect.width * zoom));
@@ -64,9 +101,11 @@ const SelectionPromptBar: React.FC<SelectionPromptBarProps> = ({
     }
   };
   
-  const placeholderText = itemCount > 0 
-    ? `Describe how to change the ${itemCount} selected item(s), or leave blank...`
-    : 'Describe what you want to generate here...';
+  const placeholderText = frame
+    ? `Describe what to generate in ${frame.name}${itemCount > 0 ? ', or leave blank' : ''}...`
+    : itemCount > 0
+      ? `Describe how to change the ${itemCount} selected item(s), or leave blank...`
+      : 'Describe what you want to generate here...';
 
   return (
     <form 
@@ -78,6 +117,7 @@ const SelectionPromptBar: React.FC<SelectionPromptBarProps> = ({
       onMouseUp={(e) => e.stopPropagation()}
     >
       <input
+        ref={inputRef}
         type="text"
         value={prompt}
         onChange={(e) => onPromptChange(e.target.value)}
@@ -85,6 +125,7 @@ const SelectionPromptBar: React.FC<SelectionPromptBarProps> = ({
         className="flex-grow bg-transparent text-white placeholder-gray-400 focus:outline-none px-2"
         autoFocus
       />
+      <PromptLibraryPicker value={prompt} onChange={onPromptChange} inputRef={inputRef} />
       <button
         type="button"
         onClick={onInterpret}
@@ -94,6 +135,15 @@ const SelectionPromptBar: React.FC<SelectionPromptBarProps> = ({
       >
         {isInterpreting ? <LoadingSpinner className="w-5 h-5" /> : <MagicWandIcon className="w-5 h-5" />}
       </button>
+      <button
+        type="button"
+        onClick={() => setShowParameters(s => !s)}
+        title="Aspect ratio, seed, negative prompt and more"
+        className={`p-2 rounded-lg flex items-center justify-center transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${showParameters ? 'bg-indigo-600 text-white' : 'text-gray-200 hover:bg-gray-700'}`}
+      >
+        <AdjustmentsIcon className="w-5 h-5" />
+        {parameters.count > 1 && <span className="ml-1 text-xs font-semibold">×{parameters.count}</span>}
+      </button>
       <button
         type="submit"
         title="Generate Image"
@@ -102,15 +152,17 @@ const SelectionPromptBar: React.FC<SelectionPromptBarProps> = ({
       >
         <SendIcon className="w-5 h-5" />
       </button>
-      <button
-        type="button"
-        onClick={(e) => handleSubmit(e, 'video')}
-        title="Generate Video"
-        disabled={disabled}
-        className="p-2 rounded-lg flex items-center justify-center transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 bg-indigo-600 text-white hover:bg-indigo-500 focus:ring-indigo-500 disabled:bg-gray-600 disabled:opacity-70 disabled:cursor-not-allowed"
-      >
-        <VideoIcon className="w-5 h-5" />
-      </button>
+      {!frame && (
+        <button
+          type="button"
+          onClick={(e) => handleSubmit(e, 'video')}
+          title="Generate Video"
+          disabled={disabled}
+          className="p-2 rounded-lg flex items-center justify-center transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 bg-indigo-600 text-white hover:bg-indigo-500 focus:ring-indigo-500 disabled:bg-gray-600 disabled:opacity-70 disabled:cursor-not-allowed"
+        >
+          <VideoIcon className="w-5 h-5" />
+        </button>
+      )}
       <button
         type="button"
         onClick={onDelete}
@@ -119,10 +171,37 @@ const SelectionPromptBar: React.FC<SelectionPromptBarProps> = ({
       >
         <TrashIcon className="w-5 h-5" />
       </button>
+      {showParameters && (
+        <div
+          className="absolute top-full left-0 right-0 mt-2 bg-gray-800/90 backdrop-blur-md rounded-xl shadow-2xl p-3 border border-gray-700"
+          style={{ marginLeft: 0 }}
+        >
+          {frame ? (
+            // Frames are always filled exactly, so their aspect ratio is not a choice.
+            <GenerationParametersPanel
+              parameters={{ ...parameters, aspectRatio: 'selection' }}
+              onChange={(changed) => onParametersChange({ ...changed, aspectRatio: parameters.aspectRatio })}
+              selectionLabel="Fill the frame"
+              isAspectRatioLocked
+            />
+          ) : (
+            <GenerationParametersPanel parameters={parameters} onChange={onParametersChange} />
+          )}
+        </div>
+      )}
     </form>
   );
 };
 
+/**
+ * Adds accepted preview images to the canvas. The first goes into the preview's frame, if it has one.
+ */
+const addPreviewImages = (items: CanvasItem[], preview: ImagePreview, images: ImageItem[]): CanvasItem[] => {
+    if (!preview.frameId) return [...items, ...images];
+    const [first, ...rest] = images;
+    return [...addFrameOutput(items, preview.frameId, first), ...rest];
+};
+
 const convertImageToSupportedFormat = (
     dataUrl: string,
     originalMimeType: string
@@ -159,6 +238,39 @@ const convertImageToSupportedFormat = (
     });
 };
 
+const getImageAspectRatio = (src: string): Promise<number> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img.naturalWidth / img.naturalHeight);
+        img.onerror = () => reject(new Error('Failed to load the generated image.'));
+        img.src = src;
+    });
+};
+
+const getVideoSize = (src: string): Promise<{ width: number; height: number }> => {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.onloadedmetadata = () => resolve({ width: video.videoWidth, height: video.videoHeight });
+        video.onerror = () => reject(new Error('Failed to load the generated video.'));
+        video.src = src;
+    });
+};
+
+const MAX_SAVED_TASKS = 50;
+
+/**
+ * Prepares the tasks saved by the last session. Video jobs that their provider can resume are
+ * queued again; anything else that was still running was lost with the page.
+ */
+const restoreSavedTasks = (tasks: GenerationTask[]): GenerationTask[] => tasks.map(task => {
+    if (task.status !== 'queued' && task.status !== 'interpreting' && task.status !== 'generating') return task;
+    if (task.videoJob && canResumeVideo(task.videoJob.model)) {
+        return { ...task, status: 'queued', log: [...task.log, { type: 'status', message: 'The page was reloaded. Resuming the video job...' }] };
+    }
+    const error = 'Interrupted when the page was reloaded.';
+    return { ...task, status: 'error', error, log: [...task.log, { type: 'result', message: `Error: ${error}` }] };
+});
+
 const getResizedImageItem = (item: ImageItem): Promise<ImageItem> => {
     return new Promise((resolve, reject) => {
         const MAX_DIMENSION = 1024; // A reasonable size for the model
@@ -211,64 +323,36 @@ interface ContextMenuData {
   item?: CanvasItem;
 }
 
+interface ImageGenerationOptions {
+    model?: ModelChoice; // Overrides the model settings.
+    parameters?: GenerationParameters; // Defaults to the current generation parameters.
+    // Set when regenerating an item: the prompt is used as-is, the recorded snapshot is sent
+    // again and the preview replaces that item rather than the sources.
+    regenerate?: { item: ImageItem; prompt: string; snapshotDataUrl?: string };
+    // Set when generating into a frame: the result is cropped to fill it and replaces the frame's
+    // last output rather than the sources.
+    frame?: FrameItem;
+}
+
 interface ExpansionGenerationInfo {
     targetItem: ImageItem;
     rect: SelectionRect;
     direction: Handle;
 }
 
-/**
- * Loads state from localStorage.
- * @param key The key to load from.
- * @param defaultValue The default value if the key is not found or parsing fails.
- * @returns The parsed state or the default value.
- */
-const loadState = <T,>(key: string, defaultValue: T): T => {
-    try {
-        const savedState = localStorage.getItem(key);
-        if (savedState) {
-            return JSON.parse(savedState);
-        }
-    } catch (e) {
-        console.error(`Failed to load state for key "${key}" from localStorage`, e);
-    }
-    return defaultValue;
-};
-
-/**
- * Saves state to localStorage.
- * @param key The key to save to.
- * @param state The state to save.
- */
-const saveState = <T,>(key: string, state: T) => {
-    try {
-        localStorage.setItem(key, JSON.stringify(state));
-    } catch (e) {
-        console.error(`Failed to save state for key "${key}" to localStorage`, e);
-    }
+const DEFAULT_GRID_OPTIONS: GridOptions = {
+    isVisible: false,
+    spacing: 50,
+    color: 'rgba(128, 128, 128, 0.5)',
 };
 
+// Space between variations placed beside a selection.
+const PREVIEW_GRID_GAP = 20;
 
-/**
- * Loads initial canvas items from localStorage, filtering out videos.
- * Video items are not persisted because their blob URLs are session-specific.
- * @returns The array of canvas items.
- */
-const loadInitialItems = (): CanvasItem[] => {
-    try {
-        const savedItems = localStorage.getItem('canvasItems');
-        if (savedItems) {
-            const parsedItems = JSON.parse(savedItems) as CanvasItem[];
-            // Filter out video items as their blob URLs are temporary and won't work after a refresh.
-            return parsedItems.filter(item => item.type !== 'video');
-        }
-    } catch (e) {
-        console.error("Failed to load canvas items from localStorage", e);
-    }
-    return [];
+const loadModelSettings = (boardId: string): ModelSettings => {
+    return normalizeModelSettings(loadBoardState<unknown>(boardId, 'modelSettings', DEFAULT_MODEL_SETTINGS));
 };
 
-
 function App() {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const hasUnsavedChangesRef = useRef(hasUnsavedChanges);
@@ -280,17 +364,77 @@ function App() {
     setHasUnsavedChanges(true);
   }, []);
 
-  const { state: items, setState: setItems, undo, redo, canUndo, canRedo } = useHistory<CanvasItem[]>(
-    loadInitialItems(),
+  const { state: items, setState: setItems, reset: resetItems, undo, redo, canUndo, canRedo } = useHistory<CanvasItem[]>(
+    [],
     markChangesAsUnsaved
   );
+  const [isBoardLoaded, setIsBoardLoaded] = useState(false);
+  // Set when the active board could not be read. It is then never saved, so the stored board is kept.
+  const [boardLoadError, setBoardLoadError] = useState<string | null>(null);
+  // Removed items that generated items still descend from, so the lineage graph can show and restore them.
+  const [archivedItems, setArchivedItems] = useState<CanvasItem[]>([]);
+  const previousItemsRef = useRef<CanvasItem[]>([]);
+  const { boards, activeBoardId, setActiveBoardId, createBoard, renameBoard, touchBoard, duplicateBoard, deleteBoard } = useBoards();
+  // Read by jobs that finish after the user has switched or deleted boards.
+  const activeBoardIdRef = useRef(activeBoardId);
+  const boardsRef = useRef(boards);
+  useEffect(() => {
+    activeBoardIdRef.current = activeBoardId;
+    boardsRef.current = boards;
+  }, [activeBoardId, boards]);
+  const [isBoardsPanelOpen, setIsBoardsPanelOpen] = useState<boolean>(() => loadState('isBoardsPanelOpen', false));
+  const [isLayersPanelOpen, setIsLayersPanelOpen] = useState<boolean>(() => loadState('isLayersPanelOpen', false));
 
-  const handleSave = useCallback(() => {
-    const persistentItems = items.filter(item => item.type !== 'video');
-    saveState('canvasItems', persistentItems);
-    setHasUnsavedChanges(false);
+  useEffect(() => {
+    let isCancelled = false;
+    setIsBoardLoaded(false);
+    setBoardLoadError(null);
+    const loadBoard = async () => {
+      try {
+        await migrateLegacyStorage();
+        const [loadedItems, loadedArchive] = await Promise.all([loadBoardItems(activeBoardId), loadBoardArchive(activeBoardId)]);
+        if (!isCancelled) {
+          previousItemsRef.current = loadedItems;
+          setArchivedItems(loadedArchive);
+          resetItems(loadedItems);
+          setIsBoardLoaded(true);
+        }
+      } catch (e) {
+        console.error(`Failed to load board "${activeBoardId}" from IndexedDB`, e);
+        if (isCancelled) return;
+        const message = e instanceof Error ? e.message : String(e);
+        setBoardLoadError(message);
+        alert(`Sorry, the board could not be loaded. ${message} It will not be saved, so that what is stored is not overwritten.`);
+      }
+    };
+    loadBoard();
+    return () => { isCancelled = true; };
+  }, [activeBoardId, resetItems]);
+
+  useEffect(() => {
+    setArchivedItems(archive => updateLineageArchive(archive, flattenItems(previousItemsRef.current), flattenItems(items)));
+    previousItemsRef.current = items;
   }, [items]);
 
+  /**
+   * Saves the active board's items.
+   * @returns Whether the board was saved.
+   */
+  const handleSave = useCallback(async (): Promise<boolean> => {
+    // Saving before the board has loaded would overwrite it with an empty canvas.
+    if (!isBoardLoaded) return false;
+    try {
+      await saveBoardItems(activeBoardId, items, archivedItems);
+      touchBoard(activeBoardId);
+      setHasUnsavedChanges(false);
+      return true;
+    } catch (e) {
+      console.error("Failed to save the board to IndexedDB", e);
+      alert(`Sorry, the board could not be saved. ${e instanceof Error ? e.message : ''}`);
+      return false;
+    }
+  }, [items, archivedItems, isBoardLoaded, activeBoardId, touchBoard]);
+
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
       if (hasUnsavedChangesRef.current) {
@@ -309,10 +453,24 @@ function App() {
   
   const [selectionRect, setSelectionRect] = useState<SelectionRect | null>(null);
   const [selectedItems, setSelectedItems] = useState<CanvasItem[]>([]);
+  const leafItems = useMemo(() => flattenItems(items), [items]);
+  const selectedItemIds = useMemo(() => selectedItems.map(item => item.id), [selectedItems]);
   const [selectionPrompt, setSelectionPrompt] = useState('');
   const [isInterpreting, setIsInterpreting] = useState(false);
-
-  const [generationTasks, setGenerationTasks] = useState<GenerationTask[]>([]);
+  // A single selected frame is a generation target, like a marquee selection.
+  const selectedFrame = useMemo(() => {
+    if (selectionRect || selectedItems.length !== 1 || selectedItems[0].type !== 'frame') return null;
+    const frame = findItemById(items, selectedItems[0].id);
+    return frame?.type === 'frame' ? frame : null;
+  }, [selectionRect, selectedItems, items]);
+  const targetRect = selectionRect ?? (selectedFrame ? getBoundingBox(selectedFrame) : null);
+
+  const [generationTasks, setGenerationTasks] = useState<GenerationTask[]>(() => restoreSavedTasks(loadState('generationTasks', [])));
+  // Video jobs from the last session, resumed once the board has loaded.
+  const tasksToResumeRef = useRef<GenerationTask[] | null>(null);
+  if (tasksToResumeRef.current === null) {
+    tasksToResumeRef.current = generationTasks.filter(task => task.status === 'queued' && task.videoJob);
+  }
   const [isPanelOpen, setIsPanelOpen] = useState<boolean>(() => loadState('isPanelOpen', true));
   
   const [drawingOptions, setDrawingOptions] = useState<DrawingOptions>(() => loadState('drawingOptions', {
@@ -326,27 +484,31 @@ function App() {
     fontSize: 24,
   }));
 
-  const [gridOptions, setGridOptions] = useState<GridOptions>(() => loadState('gridOptions', {
-    isVisible: false,
-    spacing: 50,
-    color: 'rgba(128, 128, 128, 0.5)',
-  }));
+  const [gridOptions, setGridOptions] = useState<GridOptions>(() => loadBoardState(activeBoardId, 'gridOptions', DEFAULT_GRID_OPTIONS));
 
   const [isDraggingOver, setIsDraggingOver] = useState(false);
-  const [zoom, setZoom] = useState<number>(() => loadState('zoom', 1));
-  const [pan, setPan] = useState<Point>(() => loadState('pan', { x: 0, y: 0 }));
-  const [imagePreview, setImagePreview] = useState<ImagePreview | null>(null);
+  const [zoom, setZoom] = useState<number>(() => loadBoardState(activeBoardId, 'zoom', 1));
+  const [pan, setPan] = useState<Point>(() => loadBoardState(activeBoardId, 'pan', { x: 0, y: 0 }));
+  const [imagePreviews, setImagePreviews] = useState<ImagePreview[]>([]);
+  const boardPreviews = useMemo(() => imagePreviews.filter(preview => preview.boardId === activeBoardId), [imagePreviews, activeBoardId]);
+  const imagePreview = boardPreviews[0] ?? null; // The preview under review; the rest wait their turn.
+  const [generationParameters, setGenerationParameters] = useState<GenerationParameters>(
+    () => ({ ...DEFAULT_GENERATION_PARAMETERS, ...loadState<Partial<GenerationParameters>>('generationParameters', {}) })
+  );
   const [contextMenu, setContextMenu] = useState<ContextMenuData | null>(null);
   const [generationPromptModal, setGenerationPromptModal] = useState<{isOpen: boolean; position: Point | null}>({isOpen: false, position: null});
-  const [isApiKeyConfigured, setIsApiKeyConfigured] = useState(true);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [infoItem, setInfoItem] = useState<ImageItem | VideoItem | null>(null);
+  const [lineageModal, setLineageModal] = useState<{ isOpen: boolean; focusId: string | null }>({ isOpen: false, focusId: null });
+  const [isUsageModalOpen, setIsUsageModalOpen] = useState(false);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(() => loadState('usageSettings', DEFAULT_USAGE_SETTINGS));
+  const [cacheSettings, setCacheSettingsState] = useState<CacheSettings>(() => ({ ...DEFAULT_CACHE_SETTINGS, ...loadState<Partial<CacheSettings>>('cacheSettings', {}) }));
   
-  const [modelSettings, setModelSettings] = useState<ModelSettings>(() => loadState('modelSettings', {
-    textToImage: AVAILABLE_MODELS.textToImage[0],
-    canvasToImage: AVAILABLE_MODELS.canvasToImage[0],
-    video: AVAILABLE_MODELS.video[0],
-    interpretation: AVAILABLE_MODELS.interpretation[0],
-  }));
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(() => loadModelSettings(activeBoardId));
+  const [providerConfigs, setProviderConfigs] = useState<Record<string, ProviderConfig>>(
+    () => Object.fromEntries(getProviders().map(provider => [provider.id, getProviderConfig(provider.id)]))
+  );
 
   const [magicFillState, setMagicFillState] = useState<MagicFillState>({
     isActive: false,
@@ -360,20 +522,32 @@ function App() {
 
   // --- State Persistence Effects ---
   useEffect(() => { saveState('isPanelOpen', isPanelOpen); }, [isPanelOpen]);
+  useEffect(() => { saveState('generationTasks', generationTasks.slice(0, MAX_SAVED_TASKS)); }, [generationTasks]);
   useEffect(() => { saveState('drawingOptions', drawingOptions); }, [drawingOptions]);
   useEffect(() => { saveState('textOptions', textOptions); }, [textOptions]);
-  useEffect(() => { saveState('gridOptions', gridOptions); }, [gridOptions]);
-  useEffect(() => { saveState('zoom', zoom); }, [zoom]);
-  useEffect(() => { saveState('pan', pan); }, [pan]);
-  useEffect(() => { saveState('modelSettings', modelSettings); }, [modelSettings]);
+  useEffect(() => { saveState('generationParameters', generationParameters); }, [generationParameters]);
+  useEffect(() => { saveState('isBoardsPanelOpen', isBoardsPanelOpen); }, [isBoardsPanelOpen]);
+  useEffect(() => { saveState('isLayersPanelOpen', isLayersPanelOpen); }, [isLayersPanelOpen]);
+  useEffect(() => { saveState('usageSettings', usageSettings); }, [usageSettings]);
+  useEffect(() => { setUsageBoard(activeBoardId); }, [activeBoardId]);
+  useEffect(() => {
+    saveState('cacheSettings', cacheSettings);
+    setCacheSettings(cacheSettings);
+  }, [cacheSettings]);
+  // Per-board settings. Switching boards updates the board id and these values in one render.
+  useEffect(() => { saveBoardState(activeBoardId, 'gridOptions', gridOptions); }, [activeBoardId, gridOptions]);
+  useEffect(() => { saveBoardState(activeBoardId, 'zoom', zoom); }, [activeBoardId, zoom]);
+  useEffect(() => { saveBoardState(activeBoardId, 'pan', pan); }, [activeBoardId, pan]);
+  useEffect(() => { saveBoardState(activeBoardId, 'modelSettings', modelSettings); }, [activeBoardId, modelSettings]);
   // --- End State Persistence Effects ---
 
-  useEffect(() => {
-    if (!process.env.API_KEY) {
-      console.warn("API_KEY environment variable not set. Generation features will be disabled.");
-      setIsApiKeyConfigured(false);
-    }
-  }, []);
+  const { credentialStatuses, recheckCredentials } = useCredentialStatus();
+  // Providers read their configuration from storage, so `providerConfigs` is only a trigger here.
+  const unconfiguredProviders = useMemo(
+    () => getUnconfiguredProviders(modelSettings, credentialStatuses),
+    [modelSettings, providerConfigs, credentialStatuses]
+  );
+  const isApiKeyConfigured = unconfiguredProviders.length === 0;
   
   useEffect(() => {
     if (!selectionRect) {
@@ -381,6 +555,11 @@ function App() {
     }
   }, [selectionRect]);
 
+  // Offer a frame's last prompt again, so that it can be regenerated as it is.
+  useEffect(() => {
+    setSelectionPrompt(selectedFrame?.prompt ?? '');
+  }, [selectedFrame?.id]);
+
   const addImageToCanvas = useCallback(async (file: File, position?: { x: number; y: number }) => {
     if (!file || !file.type.startsWith('image/')) {
         console.warn('Attempted to add a non-image file.');
@@ -446,42 +625,190 @@ function App() {
     );
   }, []);
 
-  const startImageGeneration = useCallback(async (prompt: string | null, itemsForTask: CanvasItem[], rectForTask: SelectionRect, modelOverride?: string) => {
+  const [concurrencyLimits, setConcurrencyLimits] = useState<Record<string, number>>(() => loadState('concurrencyLimits', {}));
+  const concurrencyLimitsRef = useRef(concurrencyLimits);
+  const taskQueue = useMemo(() => createTaskQueue(key => concurrencyLimitsRef.current[key] ?? DEFAULT_CONCURRENCY), []);
+  // What each task runs, so that failed or cancelled tasks can be retried.
+  const taskRunnersRef = useRef(new Map<string, { concurrencyKey: string; run: (signal: AbortSignal) => Promise<void> }>());
+
+  useEffect(() => {
+    concurrencyLimitsRef.current = concurrencyLimits;
+    saveState('concurrencyLimits', concurrencyLimits);
+    taskQueue.refresh();
+  }, [concurrencyLimits, taskQueue]);
+
+  // Runners are kept for the tasks in the list that are also saved. Older and cleared tasks can no longer be retried.
+  useEffect(() => {
+    const keptIds = new Set(generationTasks.slice(0, MAX_SAVED_TASKS).map(task => task.id));
+    taskRunnersRef.current.forEach((_, taskId) => {
+      if (!keptIds.has(taskId)) taskRunnersRef.current.delete(taskId);
+    });
+  }, [generationTasks]);
+
+  const queueTaskRun = useCallback((taskId: string, concurrencyKey: string, run: (signal: AbortSignal) => Promise<void>) => {
+    taskQueue.enqueue({
+      id: taskId, concurrencyKey, run,
+      onStart: () => updateTask(taskId, { status: 'interpreting' }),
+      onRetry: (nextAttempt, delayMs, error) => updateTask(taskId, {
+        status: 'queued',
+        logEntry: { type: 'status', message: `${error instanceof Error ? error.message : String(error)} Retrying in ${Math.round(delayMs / 1000)} s (attempt ${nextAttempt} of ${MAX_ATTEMPTS})...` },
+      }),
+      onSettled: (outcome, error) => {
+        if (outcome === 'cancelled') {
+          updateTask(taskId, { status: 'cancelled', logEntry: { type: 'result', message: 'Cancelled.' } });
+        } else if (outcome === 'error') {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error(`Generation task ${taskId} failed:`, error);
+          updateTask(taskId, { status: 'error', error: errorMessage, logEntry: { type: 'result', message: `Error: ${errorMessage}` } });
+        }
+      },
+    });
+  }, [taskQueue, updateTask]);
+
+  /**
+   * Adds a task to the progress panel and queues it behind other tasks on the same model. `run`
+   * logs its own progress and marks the task completed; failures, automatic retries and
+   * cancellation are recorded here.
+   */
+  const enqueueGenerationTask = useCallback((task: GenerationTask, concurrencyKey: string, run: (signal: AbortSignal) => Promise<void>) => {
+    taskRunnersRef.current.set(task.id, { concurrencyKey, run });
+    setGenerationTasks(prev => [task, ...prev]);
+    setIsPanelOpen(true);
+    queueTaskRun(task.id, concurrencyKey, run);
+  }, [queueTaskRun]);
+
+  const handleCancelTask = useCallback((taskId: string) => taskQueue.cancel(taskId), [taskQueue]);
+
+  const handleRetryTask = useCallback((taskId: string) => {
+    const runner = taskRunnersRef.current.get(taskId);
+    if (!runner) return;
+    updateTask(taskId, { status: 'queued', error: undefined, logEntry: { type: 'status', message: 'Retrying...' } });
+    queueTaskRun(taskId, runner.concurrencyKey, runner.run);
+  }, [updateTask, queueTaskRun]);
+
+  const handleClearCompletedTasks = useCallback(() => {
+    setGenerationTasks(prev => prev.filter(task => task.status !== 'completed'));
+  }, []);
+
+  const handleExportTasks = useCallback((tasks: GenerationTask[], format: TaskExportFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(exportTasks(tasks, format), `nanocanvas-tasks-${date}.${format}`);
+  }, []);
+
+  const [reviewPrompts, setReviewPrompts] = useState<boolean>(() => loadState('reviewPrompts', false));
+  const reviewPromptsRef = useRef(reviewPrompts);
+  const [promptReviews, setPromptReviews] = useState<PromptReview[]>([]);
+  const promptReviewResolversRef = useRef(new Map<string, (decision: PromptReviewDecision) => void>());
+  const promptReviewCountRef = useRef(0);
+
+  useEffect(() => {
+    reviewPromptsRef.current = reviewPrompts;
+    saveState('reviewPrompts', reviewPrompts);
+  }, [reviewPrompts]);
+
+  /**
+   * Holds a prompt or plan for the user to review. Settles with their decision, or rejects when
+   * the task is cancelled.
+   */
+  const requestPromptReview = useCallback((taskId: string, kind: PromptReview['kind'], text: string, signal: AbortSignal, label?: string) => {
+    return new Promise<PromptReviewDecision>((resolve, reject) => {
+      signal.throwIfAborted();
+      const id = `review_${promptReviewCountRef.current++}`;
+      const finish = () => {
+        signal.removeEventListener('abort', onAbort);
+        promptReviewResolversRef.current.delete(id);
+        setPromptReviews(prev => prev.filter(review => review.id !== id));
+      };
+      const onAbort = () => {
+        finish();
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      promptReviewResolversRef.current.set(id, decision => {
+        finish();
+        resolve(decision);
+      });
+      setPromptReviews(prev => [...prev, { id, taskId, kind, text, label }]);
+      updateTask(taskId, { logEntry: { type: 'status', message: `Waiting for you to review the ${kind === 'plan' ? "model's plan" : 'prompt'}${label ? ` (${label})` : ''}...` } });
+    });
+  }, [updateTask]);
+
+  /**
+   * In review mode, lets the user edit an interpreted prompt, confirm it or have the canvas
+   * interpreted again before anything is generated. Otherwise returns the prompt as it is.
+   */
+  const reviewInterpretedPrompt = useCallback(async (taskId: string, prompt: string, reinterpret: () => Promise<string>, signal: AbortSignal): Promise<string> => {
+    if (!reviewPromptsRef.current) return prompt;
+    let decision = await requestPromptReview(taskId, 'prompt', prompt, signal);
+    while (decision.action === 'regenerate') {
+      updateTask(taskId, { logEntry: { type: 'status', message: 'Interpreting again...' } });
+      prompt = (await reinterpret()).trim();
+      updateTask(taskId, { logEntry: { type: 'prompt', message: `New Prompt: ${prompt}` } });
+      decision = await requestPromptReview(taskId, 'prompt', prompt, signal);
+    }
+    const confirmedPrompt = decision.text.trim();
+    if (confirmedPrompt !== prompt) {
+      updateTask(taskId, { logEntry: { type: 'prompt', message: `Edited Prompt: ${confirmedPrompt}` } });
+    }
+    return confirmedPrompt;
+  }, [requestPromptReview, updateTask]);
+
+  const handlePromptReviewDecision = useCallback((reviewId: string, decision: PromptReviewDecision) => {
+    promptReviewResolversRef.current.get(reviewId)?.(decision);
+  }, []);
+
+  const startImageGeneration = useCallback(async (prompt: string | null, requestedItems: CanvasItem[], rectForTask: SelectionRect, options: ImageGenerationOptions = {}) => {
+    const { model: modelOverride, parameters = generationParameters, regenerate, frame } = options;
     if (!isApiKeyConfigured) return;
-    if (!isPanelOpen) setIsPanelOpen(true);
-    if (imagePreview) return;
+    // Hidden items, including hidden children of visible groups, are not sent to the model.
+    const itemsForTask = withoutHiddenItems(requestedItems);
 
+    const isTextToImage = !flattenItems(itemsForTask).some(item => item.type === 'image' || item.type === 'drawing');
+    const modelToUse = modelOverride || (isTextToImage ? modelSettings.textToImage : modelSettings.canvasToImage);
     const taskId = `task_${Date.now()}`;
+    const boardId = activeBoardId;
     const initialTask: GenerationTask = {
         id: taskId,
         type: 'standard',
-        status: 'interpreting',
+        status: 'queued',
         log: [{ type: 'status', message: 'Starting image generation...' }],
         selectionRect: rectForTask,
+        createdAt: Date.now(),
+        model: modelToUse,
+        boardId,
     };
-    setGenerationTasks(prev => [initialTask, ...prev]);
 
-    try {
+    enqueueGenerationTask(initialTask, modelChoiceKey(modelToUse), async (signal) => {
+        const startedAt = Date.now();
         let finalPrompt: string;
+        let interpretedPrompt: string | null = null;
         
-        updateTask(taskId, { logEntry: { type: 'status', message: 'Step 1: Taking snapshot of canvas selection...' } });
-        const snapshotDataUrl = await createCanvasSnapshot(items, rectForTask);
-
-        if (itemsForTask.length > 0 || !prompt) {
+        updateTask(taskId, { logEntry: { type: 'status', message: regenerate?.snapshotDataUrl ? 'Step 1: Reusing the recorded snapshot...' : 'Step 1: Taking snapshot of canvas selection...' } });
+        const snapshotItems = frame?.outputItemId ? removeItemsById(items, new Set([frame.outputItemId])) : items;
+        const snapshotDataUrl = regenerate?.snapshotDataUrl ?? await createCanvasSnapshot(snapshotItems, rectForTask);
+
+        if (regenerate) {
+            finalPrompt = regenerate.prompt.trim();
+            updateTask(taskId, { logEntry: { type: 'prompt', message: `Regenerating with prompt: ${finalPrompt}` } });
+        } else if (itemsForTask.length > 0 || !prompt) {
             updateTask(taskId, { logEntry: { type: 'status', message: 'Step 2: Analyzing layout to create prompt...' } });
             const optimizedPrompt = await interpretCanvas(snapshotDataUrl, itemsForTask, prompt, modelSettings.interpretation);
             updateTask(taskId, { logEntry: { type: 'prompt', message: `Optimized Prompt: ${optimizedPrompt}` } });
-            finalPrompt = optimizedPrompt.trim();
+            finalPrompt = await reviewInterpretedPrompt(
+                taskId, optimizedPrompt.trim(), () => interpretCanvas(snapshotDataUrl, itemsForTask, prompt, modelSettings.interpretation, true), signal
+            );
+            interpretedPrompt = finalPrompt;
         } else {
             finalPrompt = prompt.trim();
             updateTask(taskId, { logEntry: { type: 'prompt', message: `Using direct prompt: ${finalPrompt}` } });
         }
 
         if (!finalPrompt) throw new Error("A prompt is required to generate an image.");
+        signal.throwIfAborted();
         
-        updateTask(taskId, { status: 'generating', logEntry: { type: 'status', message: 'Step 3: Preparing visual inputs...' } });
-        const imageItemsForTask = itemsForTask.filter(item => item.type === 'image') as ImageItem[];
-        const drawingItemsForGeneration = itemsForTask.filter(item => item.type === 'drawing') as DrawingItem[];
+        updateTask(taskId, { status: 'generating', prompt: finalPrompt, logEntry: { type: 'status', message: 'Step 3: Preparing visual inputs...' } });
+        const imageItemsForTask = flattenItems(itemsForTask).filter(item => item.type === 'image') as ImageItem[];
+        const drawingItemsForGeneration = flattenItems(itemsForTask).filter(item => item.type === 'drawing') as DrawingItem[];
         const resizedImageItems = await Promise.all(imageItemsForTask.map(getResizedImageItem));
         const drawingsAsImagesNullable = await Promise.all(drawingItemsForGeneration.map(convertDrawingToImageItem));
         const drawingsAsImages = drawingsAsImagesNullable.filter((img): img is ImageItem => img !== null);
@@ -490,200 +817,315 @@ function App() {
         updateTask(taskId, { logEntry: { type: 'status', message: 'Step 4: Starting generation...' } });
         
         const onStepUpdate = (message: string) => {
-            if (message.startsWith('Model Plan:')) {
+            if (message.includes('Model Plan:')) {
                     updateTask(taskId, { logEntry: { type: 'prompt', message } });
             } else {
                     updateTask(taskId, { logEntry: { type: 'status', message } });
             }
         };
 
-        const isTextToImage = allVisualInputs.length === 0 && itemsForTask.length === 0;
-        const modelToUse = modelOverride || (isTextToImage ? modelSettings.textToImage : modelSettings.canvasToImage);
-        updateTask(taskId, { logEntry: { type: 'status', message: `Using model: ${modelToUse}` } });
+        updateTask(taskId, { logEntry: { type: 'status', message: `Using model: ${describeModelChoice(modelToUse)}` } });
 
-        const result = await generateImage(finalPrompt, allVisualInputs, snapshotDataUrl, onStepUpdate, modelToUse);
-
-        const img = new Image();
-        img.onload = () => {
-            const newImage: ImageItem = {
-                id: `gen_${taskId}`, type: 'image',
-                x: rectForTask.x,
-                y: rectForTask.y,
-                width: rectForTask.width, height: rectForTask.height,
-                src: `data:${result.mimeType};base64,${result.base64}`,
-                mimeType: result.mimeType, prompt: finalPrompt!, rotation: 0,
+        const variations = resolveImageParameters(frame ? { ...parameters, aspectRatio: 'selection' } : parameters, rectForTask);
+        const count = variations.length;
+        updateTask(taskId, { logEntry: { type: 'status', message: `Aspect ratio ${variations[0].aspectRatio}, ${variations[0].outputSize}px${parameters.seed !== null ? `, seed ${parameters.seed}` : ''}` } });
+        if (count > 1) {
+            updateTask(taskId, { logEntry: { type: 'status', message: `Requesting ${count} variations...` } });
+        }
+        const reviewPlan = reviewPromptsRef.current
+            ? (plan: string, label?: string) => requestPromptReview(taskId, 'plan', plan, signal, label)
+            : undefined;
+        const results = await generateImageVariations(finalPrompt, allVisualInputs, snapshotDataUrl, onStepUpdate, modelToUse, variations, reviewPlan);
+
+        signal.throwIfAborted();
+        const completedAt = Date.now();
+        // Fit each result inside the selection at its own aspect ratio rather than stretching it.
+        // A frame is filled exactly instead, so the result is cropped to the frame's shape.
+        const candidates: ImageItem[] = await Promise.all(results.map(async ({ image, parameters: used }, index) => {
+            const generatedSrc = `data:${image.mimeType};base64,${image.base64}`;
+            const src = frame ? await cropImageToAspectRatio(generatedSrc, image.mimeType, rectForTask.width / rectForTask.height) : generatedSrc;
+            const placement = frame ? { ...rectForTask } : fitAspectRatioInRect(await getImageAspectRatio(src), rectForTask);
+            return {
+                id: `gen_${taskId}_${index}`, type: 'image',
+                ...placement,
+                src, mimeType: image.mimeType, prompt: finalPrompt!, rotation: 0,
+                generation: {
+                    taskId, kind: 'image',
+                    userPrompt: regenerate ? finalPrompt! : prompt?.trim() ?? '',
+                    interpretedPrompt,
+                    model: modelToUse,
+                    ...(interpretedPrompt !== null ? { interpretationModel: modelSettings.interpretation } : {}),
+                    parameters: used,
+                    snapshotSrc: snapshotDataUrl,
+                    sourceItemIds: flattenItems(itemsForTask).map(item => item.id),
+                    ...(regenerate ? { regeneratedFrom: regenerate.item.id } : {}),
+                    startedAt, completedAt,
+                },
             };
-            
-            setImagePreview({ newImage, itemsToReplace: itemsForTask });
-        };
-        img.src = `data:${result.mimeType};base64,${result.base64}`;
+        }));
+        signal.throwIfAborted();
+        if (!boardsRef.current.some(board => board.id === boardId)) {
+            throw new Error('The board the task was started on has been deleted.');
+        }
+        // Previews queue up, so several generations can finish while the first one is reviewed.
+        const itemsToReplace = regenerate ? [regenerate.item] : frame ? frame.children.filter(child => child.id === frame.outputItemId) : itemsForTask;
+        setImagePreviews(prev => [...prev, { candidates, activeIndex: 0, itemsToReplace, ...(frame ? { frameId: frame.id } : {}), boardId }]);
 
-        updateTask(taskId, { status: 'completed', logEntry: { type: 'result', message: 'Image generated successfully.' } });
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error("Generation failed:", error);
-        updateTask(taskId, {
-            status: 'error',
-            error: errorMessage,
-            logEntry: { type: 'result', message: `Error: ${errorMessage}` }
-        });
-    }
-}, [isPanelOpen, updateTask, imagePreview, isApiKeyConfigured, items, modelSettings]);
+        const resultMessage = count > 1 ? `Generated ${results.length} of ${count} variations.` : 'Image generated successfully.';
+        updateTask(taskId, { status: 'completed', logEntry: { type: 'result', message: resultMessage } });
+    });
+}, [enqueueGenerationTask, updateTask, isApiKeyConfigured, items, modelSettings, generationParameters, activeBoardId, reviewInterpretedPrompt, requestPromptReview]);
     
-  const startVideoGeneration = useCallback(async (prompt: string | null, itemsForTask: CanvasItem[], rectForTask: SelectionRect) => {
+  /**
+   * Applies a finished task's result to the board the task was started on. If another board is
+   * open by then, the stored items of that board are changed instead.
+   */
+  const updateBoardItems = useCallback(async (boardId: string, update: (current: CanvasItem[]) => CanvasItem[]) => {
+    if (!boardsRef.current.some(board => board.id === boardId)) {
+      throw new Error('The board the task was started on has been deleted.');
+    }
+    if (boardId === activeBoardIdRef.current) {
+      setItems(update);
+      return;
+    }
+    const [storedItems, storedArchive] = await Promise.all([loadBoardItems(boardId), loadBoardArchive(boardId)]);
+    const updatedItems = update(storedItems);
+    await saveBoardItems(boardId, updatedItems, updateLineageArchive(storedArchive, flattenItems(storedItems), flattenItems(updatedItems)));
+    touchBoard(boardId);
+  }, [setItems, touchBoard]);
+
+  /**
+   * Puts a finished video where its selection was, in place of the items it was made from. A
+   * video resumed after a reload may belong to another board than the open one; it is saved there.
+   */
+  const placeGeneratedVideo = useCallback(async (result: GeneratedVideo, rect: SelectionRect, prompt: string, generation: GenerationRecord, boardId: string) => {
+    const videoUrl = URL.createObjectURL(result.videoBlob);
+    const size = await getVideoSize(videoUrl);
+    const aspectRatio = size.width / size.height;
+    let newWidth = rect.width > 0 ? Math.min(size.width, rect.width) : Math.min(size.width, 512);
+    let newHeight = newWidth / aspectRatio;
+    if (rect.height > 0 && newHeight > rect.height) {
+      newHeight = rect.height;
+      newWidth = newHeight * aspectRatio;
+    }
+
+    const newVideo: VideoItem = {
+      id: `vid_${generation.taskId}`, type: 'video',
+      x: rect.x + (rect.width - newWidth) / 2,
+      y: rect.y + (rect.height - newHeight) / 2,
+      width: newWidth, height: newHeight,
+      src: videoUrl, mimeType: result.mimeType, prompt, rotation: 0,
+      generation,
+    };
+    await updateBoardItems(boardId, current => [...removeItemsById(current, new Set(generation.sourceItemIds)), newVideo]);
+  }, [updateBoardItems]);
+
+  /**
+   * Waits for a video job the provider has already accepted, then places the video. Used when the
+   * page was reloaded and when a task is retried after its job started, so that the job is not
+   * paid for twice.
+   */
+  const finishVideoJob = useCallback(async (taskId: string, job: VideoJobRecord, rect: SelectionRect, boardId: string, signal: AbortSignal, snapshotSrc?: string) => {
+    updateTask(taskId, { status: 'generating', logEntry: { type: 'status', message: `Checking on the video with ${describeModelChoice(job.model)}...` } });
+    const onStepUpdate = (message: string) => {
+        updateTask(taskId, { logEntry: { type: 'status', message } });
+    };
+    const result = await resumeVideo(job.operation, onStepUpdate, job.model, signal, job.isUsageRecorded);
+    signal.throwIfAborted();
+    await placeGeneratedVideo(result, rect, job.prompt, { ...job.generation, ...(snapshotSrc ? { snapshotSrc } : {}), completedAt: Date.now() }, boardId);
+    updateTask(taskId, { status: 'completed', logEntry: { type: 'result', message: 'Video generated successfully.' } });
+  }, [updateTask, placeGeneratedVideo]);
+
+  const startVideoGeneration = useCallback(async (prompt: string | null, requestedItems: CanvasItem[], rectForTask: SelectionRect) => {
     if (!isApiKeyConfigured) return;
-    if (!isPanelOpen) setIsPanelOpen(true);
-    if (imagePreview) return; // Prevent new generations while preview is active
+    const itemsForTask = withoutHiddenItems(requestedItems);
+    const budgetWarning = getBudgetWarning(usageSettings, modelSettings.video);
+    if (budgetWarning && !window.confirm(`${budgetWarning} Start the video anyway?`)) return;
 
     const taskId = `task_${Date.now()}`;
+    const boardId = activeBoardId;
     const initialTask: GenerationTask = {
-        id: taskId, type: 'video', status: 'interpreting',
+        id: taskId, type: 'video', status: 'queued',
         log: [{ type: 'status', message: 'Starting video generation...' }],
         selectionRect: rectForTask,
+        createdAt: Date.now(),
+        model: modelSettings.video,
+        boardId,
     };
-    setGenerationTasks(prev => [initialTask, ...prev]);
 
-    try {
+    // Set once the provider accepts the job. Retries then wait for that job instead of starting another.
+    let startedJob: { job: VideoJobRecord; snapshotDataUrl: string } | null = null;
+
+    enqueueGenerationTask(initialTask, modelChoiceKey(modelSettings.video), async (signal) => {
+        if (startedJob && canResumeVideo(startedJob.job.model)) {
+            await finishVideoJob(taskId, startedJob.job, rectForTask, boardId, signal, startedJob.snapshotDataUrl);
+            return;
+        }
+        const startedAt = Date.now();
         updateTask(taskId, { logEntry: { type: 'status', message: 'Step 1: Taking snapshot of scene...' } });
         const snapshotDataUrl = await createCanvasSnapshot(items, rectForTask);
 
         let finalPrompt: string;
+        let interpretedPrompt: string | null = null;
         if (itemsForTask.length > 0 || !prompt) {
             updateTask(taskId, { logEntry: { type: 'status', message: 'Step 2: Analyzing layout to create animation prompt...' } });
             const optimizedPrompt = await interpretCanvas(snapshotDataUrl, itemsForTask, prompt, modelSettings.interpretation);
             updateTask(taskId, { logEntry: { type: 'prompt', message: `Animation Prompt: ${optimizedPrompt}` } });
-            finalPrompt = optimizedPrompt.trim();
+            finalPrompt = await reviewInterpretedPrompt(
+                taskId, optimizedPrompt.trim(), () => interpretCanvas(snapshotDataUrl, itemsForTask, prompt, modelSettings.interpretation, true), signal
+            );
+            interpretedPrompt = finalPrompt;
         } else {
             finalPrompt = prompt.trim();
             updateTask(taskId, { logEntry: { type: 'prompt', message: `Using direct prompt: ${finalPrompt}` } });
         }
         if (!finalPrompt) throw new Error("A prompt is required to generate a video.");
+        signal.throwIfAborted();
 
-        updateTask(taskId, { status: 'generating', logEntry: { type: 'status', message: 'Step 3: Sending request to video model...' } });
-        updateTask(taskId, { logEntry: { type: 'status', message: `Using model: ${modelSettings.video}` } });
+        updateTask(taskId, { status: 'generating', prompt: finalPrompt, logEntry: { type: 'status', message: 'Step 3: Sending request to video model...' } });
+        updateTask(taskId, { logEntry: { type: 'status', message: `Using model: ${describeModelChoice(modelSettings.video)}` } });
         
         const onStepUpdate = (message: string) => {
             updateTask(taskId, { logEntry: { type: 'status', message } });
         };
+        const generation: Omit<GenerationRecord, 'completedAt' | 'snapshotSrc'> = {
+            taskId, kind: 'video',
+            userPrompt: prompt?.trim() ?? '',
+            interpretedPrompt,
+            model: modelSettings.video,
+            ...(interpretedPrompt !== null ? { interpretationModel: modelSettings.interpretation } : {}),
+            sourceItemIds: flattenItems(itemsForTask).map(item => item.id),
+            startedAt,
+        };
+        // Kept with the task so that the job can be picked up again if the page is reloaded.
+        const onOperationStarted = (operation: string) => {
+            const job: VideoJobRecord = { model: modelSettings.video, operation, prompt: finalPrompt, generation };
+            startedJob = { job, snapshotDataUrl };
+            updateTask(taskId, { videoJob: job });
+        };
         
-        const result = await generateVideo(finalPrompt, snapshotDataUrl, onStepUpdate, modelSettings.video);
-
-        const videoUrl = URL.createObjectURL(result.videoBlob);
-        const videoElement = document.createElement('video');
-        videoElement.onloadedmetadata = () => {
-            const aspectRatio = videoElement.videoWidth / videoElement.videoHeight;
-            let newWidth = rectForTask.width > 0 ? Math.min(videoElement.videoWidth, rectForTask.width) : Math.min(videoElement.videoWidth, 512);
-            let newHeight = newWidth / aspectRatio;
-             if (rectForTask.height > 0 && newHeight > rectForTask.height) {
-                newHeight = rectForTask.height;
-                newWidth = newHeight * aspectRatio;
+        let result: GeneratedVideo;
+        try {
+            result = await generateVideo(finalPrompt, snapshotDataUrl, onStepUpdate, modelSettings.video, signal, onOperationStarted);
+        } catch (error) {
+            // The failed call has been recorded, so a retry that resumes the job does not record it again.
+            if (startedJob) {
+                startedJob.job = { ...startedJob.job, isUsageRecorded: true };
+                updateTask(taskId, { videoJob: startedJob.job });
             }
-            
-            const newVideo: VideoItem = {
-                id: `vid_${taskId}`, type: 'video',
-                x: rectForTask.x + (rectForTask.width - newWidth) / 2,
-                y: rectForTask.y + (rectForTask.height - newHeight) / 2,
-                width: newWidth, height: newHeight,
-                src: videoUrl, mimeType: result.mimeType, prompt: finalPrompt, rotation: 0
-            };
-
-            setItems(prev => prev.filter(item => !itemsForTask.find(i => i.id === item.id)).concat(newVideo));
-        };
-        videoElement.src = videoUrl;
+            throw error;
+        }
+        signal.throwIfAborted();
+        await placeGeneratedVideo(result, rectForTask, finalPrompt, { ...generation, snapshotSrc: snapshotDataUrl, completedAt: Date.now() }, boardId);
 
         updateTask(taskId, { status: 'completed', logEntry: { type: 'result', message: 'Video generated successfully.' } });
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error("Video generation failed:", error);
-        updateTask(taskId, {
-            status: 'error', error: errorMessage,
-            logEntry: { type: 'result', message: `Error: ${errorMessage}` }
-        });
-    }
-  }, [isPanelOpen, updateTask, setItems, imagePreview, isApiKeyConfigured, items, modelSettings]);
+    });
+  }, [enqueueGenerationTask, updateTask, placeGeneratedVideo, finishVideoJob, isApiKeyConfigured, items, modelSettings, activeBoardId, usageSettings, reviewInterpretedPrompt]);
+
+  // Waits for the board so that a resumed video cannot land before the saved items are loaded.
+  useEffect(() => {
+    const tasksToResume = tasksToResumeRef.current;
+    if (!isBoardLoaded || !tasksToResume || tasksToResume.length === 0) return;
+    tasksToResumeRef.current = [];
+    tasksToResume.forEach(task => {
+      const job = task.videoJob!;
+      const run = (signal: AbortSignal) => finishVideoJob(task.id, job, task.selectionRect, task.boardId ?? activeBoardIdRef.current, signal);
+      taskRunnersRef.current.set(task.id, { concurrencyKey: modelChoiceKey(job.model), run });
+      queueTaskRun(task.id, modelChoiceKey(job.model), run);
+    });
+  }, [isBoardLoaded, finishVideoJob, queueTaskRun]);
 
   const startMagicFillGeneration = useCallback(async (prompt: string) => {
     if (!isApiKeyConfigured || !magicFillState.targetItemId || !magicFillState.maskDrawing) return;
 
-    const targetItem = items.find(item => item.id === magicFillState.targetItemId) as ImageItem;
+    const targetItem = findItemById(items, magicFillState.targetItemId) as ImageItem;
     if (!targetItem) return;
 
     const sourceItem = magicFillState.sourceItemId 
-      ? items.find(item => item.id === magicFillState.sourceItemId) as ImageItem 
+      ? findItemById(items, magicFillState.sourceItemId) as ImageItem 
       : null;
     
     const maskDrawing = magicFillState.maskDrawing;
 
-    if (!isPanelOpen) setIsPanelOpen(true);
     const taskId = `task_${Date.now()}`;
+    const boardId = activeBoardId;
     const initialTask: GenerationTask = {
-        id: taskId, type: 'magic-fill', status: 'interpreting',
+        id: taskId, type: 'magic-fill', status: 'queued',
         log: [{ type: 'status', message: `Starting Magic ${sourceItem ? 'Replace' : 'Fill'} on '${targetItem.prompt}'...` }],
         selectionRect: getRotatedBoundingBox(targetItem),
+        createdAt: Date.now(),
+        model: modelSettings.inpaint,
+        boardId,
     };
-    setGenerationTasks(prev => [initialTask, ...prev]);
-    
     setMagicFillState({ isActive: false, targetItemId: null, sourceItemId: null, maskDrawing: null });
 
-    try {
+    enqueueGenerationTask(initialTask, modelChoiceKey(modelSettings.inpaint), async (signal) => {
+        const startedAt = Date.now();
         updateTask(taskId, { logEntry: { type: 'status', message: 'Step 1: Analyzing mask and context...' } });
 
         const itemsForSnapshot = [targetItem, maskDrawing];
         const rectForSnapshot = getRotatedBoundingBox(targetItem);
         const snapshotDataUrl = await createCanvasSnapshot(itemsForSnapshot, rectForSnapshot);
 
-        const finalPrompt = await interpretMagicFill(snapshotDataUrl, sourceItem, prompt, modelSettings.interpretation);
+        const optimizedPrompt = await interpretMagicFill(snapshotDataUrl, sourceItem, prompt, modelSettings.interpretation);
+        updateTask(taskId, { logEntry: { type: 'prompt', message: `Optimized Prompt: ${optimizedPrompt}` } });
+        const finalPrompt = await reviewInterpretedPrompt(
+            taskId, optimizedPrompt, () => interpretMagicFill(snapshotDataUrl, sourceItem, prompt, modelSettings.interpretation, true), signal
+        );
 
-        updateTask(taskId, { logEntry: { type: 'prompt', message: `Optimized Prompt: ${finalPrompt}` } });
-        updateTask(taskId, { status: 'generating', logEntry: { type: 'status', message: 'Step 2: Creating mask from drawing...' } });
+        updateTask(taskId, { status: 'generating', prompt: finalPrompt, logEntry: { type: 'status', message: 'Step 2: Creating mask from drawing...' } });
         
         const maskImageBase64 = await createMaskImageFromDrawing(maskDrawing, targetItem);
         
-        updateTask(taskId, { logEntry: { type: 'status', message: `Step 3: Sending image, mask, and prompt to AI (${modelSettings.canvasToImage})...` } });
+        updateTask(taskId, { logEntry: { type: 'status', message: `Step 3: Sending image, mask, and prompt to AI (${describeModelChoice(modelSettings.inpaint)})...` } });
 
-        const result = await editImageWithMask(targetItem, maskImageBase64, finalPrompt, sourceItem);
+        const result = await editImageWithMask(targetItem, maskImageBase64, finalPrompt, sourceItem, modelSettings.inpaint);
+        signal.throwIfAborted();
 
         updateTask(taskId, { logEntry: { type: 'status', message: 'Step 4: Receiving edited image...' } });
 
-        const img = new Image();
-        img.onload = () => {
-            const newImageItem: ImageItem = {
-                ...targetItem, id: `gen_${taskId}`,
-                src: `data:${result.mimeType};base64,${result.base64}`,
-                mimeType: result.mimeType, prompt: finalPrompt,
-                width: targetItem.width, height: targetItem.height,
-            };
-            setItems(prev => prev.map(item => item.id === targetItem.id ? newImageItem : item));
+        const generation: GenerationRecord = {
+            taskId, kind: 'magic-fill',
+            userPrompt: prompt.trim(),
+            interpretedPrompt: finalPrompt,
+            model: modelSettings.inpaint,
+            interpretationModel: modelSettings.interpretation,
+            snapshotSrc: snapshotDataUrl,
+            sourceItemIds: sourceItem ? [targetItem.id, sourceItem.id] : [targetItem.id],
+            startedAt, completedAt: Date.now(),
         };
-        img.src = `data:${result.mimeType};base64,${result.base64}`;
 
-        updateTask(taskId, { status: 'completed', logEntry: { type: 'result', message: 'Magic Fill successful.' } });
+        const newImageItem: ImageItem = {
+            ...targetItem, id: `gen_${taskId}`,
+            src: `data:${result.mimeType};base64,${result.base64}`,
+            mimeType: result.mimeType, prompt: finalPrompt,
+            width: targetItem.width, height: targetItem.height,
+            generation,
+        };
+        await updateBoardItems(boardId, current => updateItemById(current, targetItem.id, () => newImageItem));
 
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error("Magic Fill failed:", error);
-        updateTask(taskId, {
-            status: 'error', error: errorMessage,
-            logEntry: { type: 'result', message: `Error: ${errorMessage}` }
-        });
-    }
-  }, [isApiKeyConfigured, magicFillState, items, isPanelOpen, updateTask, setItems, modelSettings]);
+        updateTask(taskId, { status: 'completed', logEntry: { type: 'result', message: 'Magic Fill successful.' } });
+    });
+  }, [isApiKeyConfigured, magicFillState, items, activeBoardId, enqueueGenerationTask, updateTask, updateBoardItems, modelSettings, reviewInterpretedPrompt]);
 
   const startExpansionGeneration = useCallback(async (prompt: string, info: ExpansionGenerationInfo) => {
     if (!isApiKeyConfigured) return;
 
     const { targetItem, rect: combinedRect } = info;
-    if (!isPanelOpen) setIsPanelOpen(true);
 
     const taskId = `task_${Date.now()}`;
+    const boardId = activeBoardId;
     const initialTask: GenerationTask = {
-        id: taskId, type: 'standard', status: 'interpreting',
+        id: taskId, type: 'standard', status: 'queued',
         log: [{ type: 'status', message: `Starting Generative Expand...` }],
         selectionRect: combinedRect,
+        createdAt: Date.now(),
+        model: modelSettings.outpaint,
+        boardId,
     };
-    setGenerationTasks(prev => [initialTask, ...prev]);
 
-    try {
+    enqueueGenerationTask(initialTask, modelChoiceKey(modelSettings.outpaint), async (signal) => {
+        const startedAt = Date.now();
         updateTask(taskId, { logEntry: { type: 'status', message: 'Step 1: Preparing image and canvas for expansion...' } });
         const { enlargedImageBase64, placement } = await createImageForOutpainting(targetItem, combinedRect);
         
@@ -700,13 +1142,16 @@ function App() {
         const optimizedPrompt = await interpretCanvas(snapshotDataUrl, [targetItem], interpretationPrompt, modelSettings.interpretation);
         updateTask(taskId, { logEntry: { type: 'prompt', message: `Optimized Prompt: ${optimizedPrompt}` } });
         
-        const finalPrompt = optimizedPrompt.trim();
+        const finalPrompt = await reviewInterpretedPrompt(
+            taskId, optimizedPrompt.trim(), () => interpretCanvas(snapshotDataUrl, [targetItem], interpretationPrompt, modelSettings.interpretation, true), signal
+        );
         if (!finalPrompt) throw new Error("The AI failed to generate an expansion prompt.");
 
-        updateTask(taskId, { status: 'generating', logEntry: { type: 'status', message: `Step 3: Creating mask and sending request to AI (${modelSettings.canvasToImage})...` } });
+        updateTask(taskId, { status: 'generating', prompt: finalPrompt, logEntry: { type: 'status', message: `Step 3: Creating mask and sending request to AI (${describeModelChoice(modelSettings.outpaint)})...` } });
         const maskImageBase64 = createOutpaintingMask(combinedRect.width, combinedRect.height, placement);
         
-        const result = await generateOutpaintedImage(enlargedImageBase64, maskImageBase64, finalPrompt);
+        const result = await generateOutpaintedImage(enlargedImageBase64, maskImageBase64, finalPrompt, modelSettings.outpaint);
+        signal.throwIfAborted();
         
         const expandedImageItem: ImageItem = {
             ...targetItem,
@@ -718,28 +1163,31 @@ function App() {
             src: `data:${result.mimeType};base64,${result.base64}`,
             mimeType: result.mimeType,
             prompt: `Expanded: ${prompt || 'auto'}`,
+            generation: {
+                taskId, kind: 'expand',
+                userPrompt: prompt.trim(),
+                interpretedPrompt: finalPrompt,
+                model: modelSettings.outpaint,
+                interpretationModel: modelSettings.interpretation,
+                snapshotSrc: snapshotDataUrl,
+                sourceItemIds: [targetItem.id],
+                startedAt, completedAt: Date.now(),
+            },
         };
         
-        setItems(prev => prev.map(item => item.id === targetItem.id ? expandedImageItem : item));
+        await updateBoardItems(boardId, current => updateItemById(current, targetItem.id, () => expandedImageItem));
         updateTask(taskId, { status: 'completed', logEntry: { type: 'result', message: 'Expansion successful.' } });
-
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error("Expansion failed:", error);
-        updateTask(taskId, {
-            status: 'error', error: errorMessage,
-            logEntry: { type: 'result', message: `Error: ${errorMessage}` }
-        });
-    }
-  }, [isApiKeyConfigured, isPanelOpen, updateTask, setItems, modelSettings]);
+    });
+  }, [isApiKeyConfigured, activeBoardId, enqueueGenerationTask, updateTask, updateBoardItems, modelSettings, reviewInterpretedPrompt]);
   
   const handleInterpretCanvasRequest = useCallback(async () => {
-    if (!selectionRect || isInterpreting) return;
+    if (!targetRect || isInterpreting) return;
 
     setIsInterpreting(true);
     try {
-        const snapshotDataUrl = await createCanvasSnapshot(items, selectionRect);
-        const optimizedPrompt = await interpretCanvas(snapshotDataUrl, selectedItems, selectionPrompt, modelSettings.interpretation);
+        const snapshotItems = selectedFrame?.outputItemId ? removeItemsById(items, new Set([selectedFrame.outputItemId])) : items;
+        const snapshotDataUrl = await createCanvasSnapshot(snapshotItems, targetRect);
+        const optimizedPrompt = await interpretCanvas(snapshotDataUrl, selectedFrame ? getFrameInputs(selectedFrame) : selectedItems, selectionPrompt, modelSettings.interpretation);
         setSelectionPrompt(optimizedPrompt);
     } catch (error) {
         console.error("Failed to interpret canvas:", error);
@@ -747,7 +1195,7 @@ function App() {
     } finally {
         setIsInterpreting(false);
     }
-  }, [selectionRect, isInterpreting, items, selectedItems, selectionPrompt, modelSettings.interpretation]);
+  }, [targetRect, isInterpreting, items, selectedItems, selectedFrame, selectionPrompt, modelSettings.interpretation]);
 
   const handleGenerateFromSelectionBar = useCallback((generator: 'image' | 'video') => {
       const finalPrompt = selectionPrompt.trim() ? selectionPrompt : null;
@@ -759,6 +1207,8 @@ function App() {
               console.warn("Video generation is not supported for expansion.");
           }
           setExpansionGenerationInfo(null);
+      } else if (selectedFrame) {
+          startImageGeneration(finalPrompt, getFrameInputs(selectedFrame), getBoundingBox(selectedFrame), { frame: selectedFrame });
       } else if (selectionRect) {
           const handler = generator === 'image' ? startImageGeneration : startVideoGeneration;
           handler(finalPrompt, [...selectedItems], { ...selectionRect });
@@ -766,7 +1216,7 @@ function App() {
 
       setSelectionRect(null);
       setSelectedItems([]);
-  }, [selectionPrompt, selectedItems, selectionRect, startImageGeneration, startVideoGeneration, expansionGenerationInfo, startExpansionGeneration]);
+  }, [selectionPrompt, selectedItems, selectionRect, selectedFrame, startImageGeneration, startVideoGeneration, expansionGenerationInfo, startExpansionGeneration]);
 
   const handleDrawingOptionsChange = useCallback((newOptions: Partial<DrawingOptions>) => {
     setDrawingOptions(prev => ({...prev, ...newOptions}));
@@ -776,7 +1226,7 @@ function App() {
     setTextOptions(prev => ({...prev, ...newOptions}));
     const selectedTextIds = new Set(selectedItems.filter(i => i.type === 'text').map(i => i.id));
     if (selectedTextIds.size > 0) {
-        setItems(prev => prev.map(item => (item.type === 'text' && selectedTextIds.has(item.id)) ? { ...item, ...newOptions } : item));
+        setItems(prev => Array.from(selectedTextIds).reduce((current, id) => updateItemById(current, id, item => ({ ...item, ...newOptions } as CanvasItem)), prev));
     }
   }, [selectedItems, setItems]);
 
@@ -861,12 +1311,107 @@ function App() {
   const deleteSelectedItems = useCallback(() => {
       const selectedIds = new Set(selectedItems.map(item => item.id));
       if (selectedIds.size > 0) {
-        setItems(prev => prev.filter(item => !selectedIds.has(item.id)));
+        setItems(prev => removeItemsById(prev, selectedIds));
         setSelectionRect(null);
         setSelectedItems([]);
       }
   }, [selectedItems, setItems]);
 
+  const groupSelectedItems = useCallback(() => {
+    if (selectedItems.length < 2) return;
+    const groupId = `group_${Date.now()}`;
+    const nextItems = wrapItemsById(items, new Set(selectedItems.map(item => item.id)), children => ({ id: groupId, type: 'group', children, rotation: 0 }));
+    const group = findItemById(nextItems, groupId);
+    if (!group) return; // The items are not all in the same group.
+    setItems(() => nextItems);
+    setSelectionRect(getCombinedBoundingBox([group]));
+    setSelectedItems([group]);
+  }, [items, selectedItems, setItems]);
+
+  const ungroupItems = useCallback((groupIds: string[]) => {
+    const groups = groupIds.map(id => findItemById(items, id)).filter((item): item is GroupItem => item?.type === 'group');
+    if (groups.length === 0) return;
+    const children = groups.flatMap(group => group.children);
+    setItems(prev => ungroupItemsById(prev, new Set(groups.map(group => group.id))));
+    setSelectionRect(getCombinedBoundingBox(children));
+    setSelectedItems(children);
+  }, [items, setItems]);
+
+  const handleSelectLayer = useCallback((item: CanvasItem, isAdditive: boolean) => {
+    const isSelected = selectedItems.some(selected => selected.id === item.id);
+    let nextSelected = !isAdditive ? [item]
+      : isSelected ? selectedItems.filter(selected => selected.id !== item.id) : [...selectedItems, item];
+    // A multiple selection moves as one, so it only takes items from the same group or frame.
+    const parentPath = findItemPath(items, item.id)?.join('/');
+    if (nextSelected.some(selected => findItemPath(items, selected.id)?.join('/') !== parentPath)) nextSelected = [item];
+    handleSelectionChange(nextSelected.length > 1 ? getCombinedBoundingBox(nextSelected) : null, nextSelected);
+  }, [items, selectedItems, handleSelectionChange]);
+
+  const toggleItemHidden = useCallback((id: string) => {
+    setItems(prev => updateItemById(prev, id, item => ({ ...item, isHidden: !item.isHidden })));
+    // A hidden item can no longer be seen to be selected.
+    if (selectedItems.some(item => item.id === id)) {
+      setSelectionRect(null);
+      setSelectedItems([]);
+    }
+  }, [selectedItems, setItems]);
+
+  const toggleItemLocked = useCallback((id: string) => {
+    setItems(prev => updateItemById(prev, id, item => ({ ...item, isLocked: !item.isLocked })));
+  }, [setItems]);
+
+  const renameItem = useCallback((id: string, name: string) => {
+    // Frames always have a name; other items fall back to a description when theirs is cleared.
+    setItems(prev => updateItemById(prev, id, item => item.type === 'frame' ? (name ? { ...item, name } : item) : { ...item, name: name || undefined }));
+  }, [setItems]);
+
+  const moveLayer = useCallback((id: string, targetId: string, place: 'above' | 'below') => {
+    const nextItems = moveItemNextTo(items, id, targetId, place);
+    if (nextItems === items) return;
+    setItems(() => nextItems);
+    setSelectionRect(null);
+    setSelectedItems([findItemById(nextItems, id)!]);
+  }, [items, setItems]);
+
+  // The items of the marquee selection that align and distribute move; locked ones stay put.
+  const alignableItems = useMemo(() => {
+    if (!selectionRect) return [];
+    return selectedItems.map(item => findItemById(items, item.id)).filter((item): item is CanvasItem => !!item && isItemPickable(item));
+  }, [selectionRect, selectedItems, items]);
+
+  const moveAlignableItems = useCallback((getOffsets: (boxes: SelectionRect[]) => Point[]) => {
+    if (alignableItems.length < 2) return;
+    const offsets = getOffsets(alignableItems.map(item => getRotatedBoundingBox(item)));
+    const movedById = new Map(alignableItems.map((item, i) => [item.id, translateItem(item, offsets[i].x, offsets[i].y)]));
+    setItems(prev => Array.from(movedById.values()).reduce((acc, moved) => updateItemById(acc, moved.id, () => moved), prev));
+    const nextSelected = selectedItems.map(item => movedById.get(item.id) ?? item);
+    setSelectionRect(getCombinedBoundingBox(nextSelected));
+    setSelectedItems(nextSelected);
+  }, [alignableItems, selectedItems, setItems]);
+
+  const alignSelectedItems = useCallback((mode: AlignMode) => {
+    moveAlignableItems(boxes => getAlignmentOffsets(boxes, mode));
+  }, [moveAlignableItems]);
+
+  const distributeSelectedItems = useCallback((axis: DistributeAxis) => {
+    moveAlignableItems(boxes => getDistributionOffsets(boxes, axis));
+  }, [moveAlignableItems]);
+
+  const handleAddFrame = useCallback((aspectRatio: FrameAspectRatio) => {
+    const frameId = `frame_${Date.now()}`;
+    const name = getNextFrameName(items);
+    const center = { x: (window.innerWidth / 2 - pan.x) / zoom, y: (window.innerHeight / 2 - pan.y) / zoom };
+    const rect = selectionRect ? getFrameRectAround(aspectRatio, selectionRect) : getDefaultFrameRect(aspectRatio, center);
+    const makeFrame = (children: CanvasItem[]): FrameItem => ({ id: frameId, type: 'frame', name, aspectRatio, ...rect, rotation: 0, children });
+
+    // A frame made around a selection takes in the selected items, if they share a parent.
+    const wrapped = selectionRect ? wrapItemsById(items, new Set(selectedItems.map(item => item.id)), makeFrame) : items;
+    const nextItems = findItemById(wrapped, frameId) ? wrapped : [...items, makeFrame([])];
+    setItems(() => nextItems);
+    setSelectionRect(null);
+    setSelectedItems([findItemById(nextItems, frameId)!]);
+  }, [items, selectionRect, selectedItems, pan, zoom, setItems]);
+
   const handlePaste = useCallback(async (event: ClipboardEvent) => {
     const target = event.target as HTMLElement;
     if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
@@ -965,28 +1510,17 @@ function App() {
   }, [addImageToCanvas, zoom, pan]);
   
   const duplicateItem = useCallback((item: CanvasItem) => {
-    const newItem = { ...item, id: `${item.type}_${Date.now()}` };
     const offset = 20 / zoom;
-    if (newItem.type === 'drawing') {
-        newItem.points = newItem.points.map(p => ({ x: p.x + offset, y: p.y + offset }));
-    } else {
-        newItem.x += offset;
-        newItem.y += offset;
-    }
+    const newItem = translateItem(cloneWithNewIds(item), offset, offset);
     setItems(prev => [...prev, newItem]);
     setContextMenu(null);
   }, [zoom, setItems]);
   
   const selectAllItems = useCallback(() => {
-    if (items.length === 0) return;
-    const boxes = items.map(getRotatedBoundingBox);
-    const minX = Math.min(...boxes.map(b => b.x));
-    const minY = Math.min(...boxes.map(b => b.y));
-    const maxX = Math.max(...boxes.map(b => b.x + b.width));
-    const maxY = Math.max(...boxes.map(b => b.y + b.height));
-    const encompassingRect: SelectionRect = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
-    setSelectionRect(encompassingRect);
-    setSelectedItems([...items]);
+    const pickableItems = items.filter(isItemPickable);
+    if (pickableItems.length === 0) return;
+    setSelectionRect(getCombinedBoundingBox(pickableItems));
+    setSelectedItems(pickableItems);
     setContextMenu(null);
   }, [items]);
 
@@ -1004,6 +1538,12 @@ function App() {
         if ((e.ctrlKey || e.metaKey) && e.key === 'y') { e.preventDefault(); redo(); }
         if ((e.ctrlKey || e.metaKey) && e.key === 'd') { e.preventDefault(); if(contextMenu?.item) duplicateItem(contextMenu.item); }
         if ((e.ctrlKey || e.metaKey) && e.key === 'a') { e.preventDefault(); selectAllItems(); }
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g') {
+            e.preventDefault();
+            if (e.shiftKey) ungroupItems(selectedItems.map(item => item.id));
+            else groupSelectedItems();
+        }
+        if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'e') { e.preventDefault(); setIsExportModalOpen(true); }
       }
       window.addEventListener('keydown', handleGlobalKeyDown);
       window.addEventListener('paste', handlePaste);
@@ -1011,7 +1551,7 @@ function App() {
           window.removeEventListener('keydown', handleGlobalKeyDown);
           window.removeEventListener('paste', handlePaste);
       };
-  }, [deleteSelectedItems, handlePaste, undo, redo, contextMenu, duplicateItem, selectAllItems, handleSave]);
+  }, [deleteSelectedItems, handlePaste, undo, redo, contextMenu, duplicateItem, selectAllItems, handleSave, groupSelectedItems, ungroupItems, selectedItems]);
 
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
@@ -1028,23 +1568,39 @@ function App() {
     setPan({ x: newPanX, y: newPanY });
   };
   
-  const handleAcceptPreview = useCallback(() => {
+  /**
+   * Returns the picked candidates ready to add to the canvas. The first takes the selection's
+   * place and any others are laid out in a grid beside it.
+   */
+  const placePreviewCandidates = useCallback((preview: ImagePreview, indices: number[]): ImageItem[] => {
+    const [first, ...rest] = indices.map(index => preview.candidates[index]);
+    const placements = getGridPlacementsBeside(first, rest.length, PREVIEW_GRID_GAP);
+    return [first, ...rest.map((candidate, i) => ({ ...candidate, ...placements[i] }))];
+  }, []);
+
+  const handleAcceptPreview = useCallback((indices: number[]) => {
     if (!imagePreview) return;
     const itemsToReplaceIds = new Set(imagePreview.itemsToReplace.map(i => i.id));
-    setItems(prev => [...prev.filter(item => !itemsToReplaceIds.has(item.id)), imagePreview.newImage]);
-    setImagePreview(null);
-  }, [imagePreview, setItems]);
+    const newImages = placePreviewCandidates(imagePreview, indices);
+    setItems(prev => addPreviewImages(removeItemsById(prev, itemsToReplaceIds), imagePreview, newImages));
+    setImagePreviews(prev => prev.filter(preview => preview !== imagePreview));
+  }, [imagePreview, setItems, placePreviewCandidates]);
 
-  const handleKeepBoth = useCallback(() => {
+  const handleKeepBoth = useCallback((indices: number[]) => {
     if (!imagePreview) return;
-    setItems(prev => [...prev, imagePreview.newImage]);
-    setImagePreview(null);
-  }, [imagePreview, setItems]);
+    const newImages = placePreviewCandidates(imagePreview, indices);
+    setItems(prev => addPreviewImages(prev, imagePreview, newImages));
+    setImagePreviews(prev => prev.filter(preview => preview !== imagePreview));
+  }, [imagePreview, setItems, placePreviewCandidates]);
+
+  const handlePreviewActiveIndexChange = useCallback((activeIndex: number) => {
+    setImagePreviews(prev => prev.map(preview => preview === imagePreview ? { ...preview, activeIndex } : preview));
+  }, [imagePreview]);
 
   const handleDiscardPreview = useCallback(() => {
     if (!imagePreview) return;
-    // No change to items, just clear the preview.
-    setImagePreview(null);
+    // No change to items, just move on to the next preview.
+    setImagePreviews(prev => prev.filter(preview => preview !== imagePreview));
   }, [imagePreview]);
   
   const handleShowContextMenu = useCallback((data: ContextMenuData) => setContextMenu(data), []);
@@ -1055,36 +1611,105 @@ function App() {
     setContextMenu(null);
   }, [contextMenu, isApiKeyConfigured]);
   
-  const handleGenerateFromModal = (prompt: string, model: string) => {
+  const handleProviderConfigChange = useCallback((providerId: string, config: ProviderConfig) => {
+    setProviderConfig(providerId, config);
+    setProviderConfigs(prev => ({ ...prev, [providerId]: config }));
+  }, []);
+
+  const handleGenerateFromModal = (prompt: string, model: ModelChoice, parameters: GenerationParameters) => {
     if (!generationPromptModal.position) return;
-    const generationSize = 512;
+    // There is no selection to match here, so 'selection' means square.
+    const { width, height } = getSizeForAspectRatio(parameters.aspectRatio === 'selection' ? '1:1' : parameters.aspectRatio, 512);
     const rect = {
-        x: generationPromptModal.position.x - generationSize / 2,
-        y: generationPromptModal.position.y - generationSize / 2,
-        width: generationSize, height: generationSize,
+        x: generationPromptModal.position.x - width / 2,
+        y: generationPromptModal.position.y - height / 2,
+        width, height,
     };
-    startImageGeneration(prompt, [], rect, model);
+    setGenerationParameters(parameters);
+    startImageGeneration(prompt, [], rect, { model, parameters });
     setGenerationPromptModal({ isOpen: false, position: null });
   };
 
   const bringToFront = () => {
     if (!contextMenu?.item) return;
-    setItems(prev => [...prev.filter(i => i.id !== contextMenu.item!.id), contextMenu.item!]);
+    setItems(prev => reorderItem(prev, contextMenu.item!.id, 'front'));
     setContextMenu(null);
   };
 
   const sendToBack = () => {
     if (!contextMenu?.item) return;
-    setItems(prev => [contextMenu.item!, ...prev.filter(i => i.id !== contextMenu.item!.id)]);
+    setItems(prev => reorderItem(prev, contextMenu.item!.id, 'back'));
     setContextMenu(null);
   };
   
+  const ungroupContextItem = () => {
+    if (contextMenu?.item?.type !== 'group') return;
+    ungroupItems([contextMenu.item.id]);
+    setContextMenu(null);
+  };
+
+  const renameContextFrame = () => {
+    const frame = contextMenu?.item;
+    if (frame?.type !== 'frame') return;
+    const name = window.prompt('Frame name', frame.name)?.trim();
+    if (name) renameItem(frame.id, name);
+    setContextMenu(null);
+  };
+
   const deleteContextItem = () => {
       if (!contextMenu?.item) return;
-      setItems(prev => prev.filter(i => i.id !== contextMenu.item!.id));
+      setItems(prev => removeItemsById(prev, new Set([contextMenu.item!.id])));
       setContextMenu(null);
   }
 
+  const handleShowInfo = () => {
+    if (!contextMenu?.item || (contextMenu.item.type !== 'image' && contextMenu.item.type !== 'video')) return;
+    setInfoItem(contextMenu.item);
+    setContextMenu(null);
+  };
+
+  /**
+   * Re-runs an image from its generation record, from the same snapshot and whichever of its
+   * source items are still on the canvas. The result is previewed over the original.
+   */
+  const handleRegenerate = useCallback((item: ImageItem, prompt: string, model: ModelChoice, parameters: GenerationParameters) => {
+    const record = item.generation;
+    if (!record) return;
+    const sourceItems = flattenItems(items).filter(i => record.sourceItemIds.includes(i.id));
+    if (sourceItems.length < record.sourceItemIds.length) {
+        console.warn(`${record.sourceItemIds.length - sourceItems.length} source item(s) of "${item.prompt}" are no longer on the canvas.`);
+    }
+    // The output of a frame is regenerated into the frame, which may have been resized since.
+    const parentFrame = findParentFrame(items, item.id);
+    const frame = parentFrame?.outputItemId === item.id ? parentFrame : undefined;
+    const rect = frame ? getBoundingBox(frame) : { x: item.x, y: item.y, width: item.width, height: item.height };
+    startImageGeneration(prompt, sourceItems, rect, {
+        model, parameters, regenerate: { item, prompt, snapshotDataUrl: record.snapshotSrc }, frame,
+    });
+    setInfoItem(null);
+  }, [items, startImageGeneration]);
+
+  const handleShowLineage = () => {
+    if (!contextMenu) return;
+    setLineageModal({ isOpen: true, focusId: contextMenu.item?.id ?? null });
+    setContextMenu(null);
+  };
+
+  const handleJumpToItem = useCallback((item: CanvasItem) => {
+    const box = getCombinedBoundingBox([item]);
+    setPan({
+        x: window.innerWidth / 2 - (box.x + box.width / 2) * zoom,
+        y: window.innerHeight / 2 - (box.y + box.height / 2) * zoom,
+    });
+    handleSelectionChange(null, [item]);
+    setLineageModal({ isOpen: false, focusId: null });
+  }, [zoom, handleSelectionChange]);
+
+  const handleRestoreItem = useCallback((item: CanvasItem) => {
+    setItems(prev => findItemById(prev, item.id) ? prev : [...prev, item]);
+    handleJumpToItem(item);
+  }, [setItems, handleJumpToItem]);
+
   const handleStartExpansionMode = () => {
     if (!contextMenu?.item || contextMenu.item.type !== 'image') return;
     setSelectionRect(null);
@@ -1105,6 +1730,126 @@ function App() {
     setExpansionState({ isActive: false, targetItem: null });
   }, [expansionState.targetItem]);
 
+  /**
+   * Replaces everything on screen with the given board. Unsaved changes are dropped; image previews
+   * wait on the board they were made for.
+   */
+  const showBoard = useCallback((boardId: string) => {
+    resetItems([]);
+    setHasUnsavedChanges(false);
+    setSelectionRect(null);
+    setSelectedItems([]);
+    setContextMenu(null);
+    setMagicFillState({ isActive: false, targetItemId: null, sourceItemId: null, maskDrawing: null });
+    setExpansionState({ isActive: false, targetItem: null });
+    setExpansionGenerationInfo(null);
+    setZoom(loadBoardState(boardId, 'zoom', 1));
+    setPan(loadBoardState(boardId, 'pan', { x: 0, y: 0 }));
+    setGridOptions(loadBoardState(boardId, 'gridOptions', DEFAULT_GRID_OPTIONS));
+    setModelSettings(loadModelSettings(boardId));
+    setActiveBoardId(boardId);
+  }, [resetItems, setActiveBoardId]);
+
+  /**
+   * Saves pending edits to the active board before another board is shown. Edits to a board that
+   * failed to load are dropped instead.
+   * @returns Whether to go on.
+   */
+  const saveBeforeLeaving = useCallback(async (): Promise<boolean> => {
+    return !hasUnsavedChanges || !!boardLoadError || handleSave();
+  }, [hasUnsavedChanges, boardLoadError, handleSave]);
+
+  const handleSwitchBoard = useCallback(async (boardId: string) => {
+    if (boardId === activeBoardId) return;
+    if (!(await saveBeforeLeaving())) return;
+    showBoard(boardId);
+  }, [activeBoardId, saveBeforeLeaving, showBoard]);
+
+  const handleCreateBoard = useCallback(async () => {
+    if (!(await saveBeforeLeaving())) return;
+    showBoard(createBoard(`Board ${boards.length + 1}`));
+  }, [saveBeforeLeaving, showBoard, createBoard, boards.length]);
+
+  const handleDuplicateBoard = useCallback(async (boardId: string) => {
+    // The copy is made from saved data, so save pending edits to the active board first.
+    if (boardId === activeBoardId && !(await saveBeforeLeaving())) return;
+    try {
+      await duplicateBoard(boardId);
+    } catch (e) {
+      console.error("Failed to duplicate board", e);
+      alert("Sorry, the board could not be duplicated.");
+    }
+  }, [activeBoardId, saveBeforeLeaving, duplicateBoard]);
+
+  const handleDeleteBoard = useCallback(async (boardId: string) => {
+    const board = boards.find(b => b.id === boardId);
+    if (!board || boards.length <= 1) return;
+    // Unfinished tasks would otherwise save their results to a board that no longer exists.
+    const unfinishedTasks = generationTasks.filter(task => task.boardId === boardId && (task.status === 'queued' || task.status === 'interpreting' || task.status === 'generating'));
+    const taskWarning = unfinishedTasks.length > 0 ? ` Its ${unfinishedTasks.length} unfinished generation task${unfinishedTasks.length === 1 ? '' : 's'} will be cancelled.` : '';
+    if (!window.confirm(`Delete the board "${board.name}"?${taskWarning} This cannot be undone.`)) return;
+    unfinishedTasks.forEach(task => taskQueue.cancel(task.id));
+    setImagePreviews(prev => prev.filter(preview => preview.boardId !== boardId));
+    if (boardId === activeBoardId) {
+      showBoard(boards.find(b => b.id !== boardId)!.id);
+    }
+    try {
+      await deleteBoard(boardId);
+    } catch (e) {
+      console.error("Failed to delete board", e);
+      alert("Sorry, the board could not be deleted.");
+    }
+  }, [boards, activeBoardId, generationTasks, taskQueue, showBoard, deleteBoard]);
+
+  const handleExportBoard = useCallback(async (boardId: string) => {
+    const board = boards.find(b => b.id === boardId);
+    if (!board) return;
+    try {
+      // The active board is exported as shown, including unsaved edits.
+      const isActive = boardId === activeBoardId;
+      const blob = await exportProject({
+        name: board.name,
+        items: isActive ? items : await loadBoardItems(boardId),
+        settings: isActive
+          ? { zoom, pan, gridOptions, modelSettings }
+          : {
+              zoom: loadBoardState(boardId, 'zoom', 1),
+              pan: loadBoardState(boardId, 'pan', { x: 0, y: 0 }),
+              gridOptions: loadBoardState(boardId, 'gridOptions', DEFAULT_GRID_OPTIONS),
+              modelSettings: loadModelSettings(boardId),
+            },
+      });
+      downloadBlob(blob, `${toFileNameStem(board.name, 'board')}${PROJECT_FILE_EXTENSION}`);
+    } catch (e) {
+      console.error("Failed to export board", e);
+      alert(`Sorry, the board could not be exported. ${e instanceof Error ? e.message : ''}`);
+    }
+  }, [boards, activeBoardId, items, zoom, pan, gridOptions, modelSettings]);
+
+  const handleImportBoard = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = `${PROJECT_FILE_EXTENSION},application/zip`;
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        const project = await importProject(file);
+        if (!(await saveBeforeLeaving())) return;
+        const boardId = createBoard(project.name);
+        await saveBoardItems(boardId, project.items);
+        (Object.keys(project.settings) as (keyof typeof project.settings)[]).forEach(key => {
+          if (project.settings[key] !== undefined) saveBoardState(boardId, key, project.settings[key]);
+        });
+        showBoard(boardId);
+      } catch (error) {
+        console.error("Failed to import board", error);
+        alert(`Could not import "${file.name}". ${error instanceof Error ? error.message : ''}`);
+      }
+    };
+    input.click();
+  }, [saveBeforeLeaving, createBoard, showBoard]);
+
   const handleDownloadImage = useCallback(() => {
     if (!contextMenu?.item || contextMenu.item.type !== 'image') return;
     
@@ -1112,8 +1857,7 @@ function App() {
     const link = document.createElement('a');
     link.href = imageItem.src;
     
-    const sanitizedPrompt = imageItem.prompt.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-    const filename = `${sanitizedPrompt.substring(0, 30) || 'canvas-image'}.png`;
+    const filename = `${toFileNameStem(imageItem.prompt, 'canvas-image')}.png`;
 
     link.download = filename;
     document.body.appendChild(link);
@@ -1122,6 +1866,34 @@ function App() {
 
     setContextMenu(null);
   }, [contextMenu]);
+
+  const boardBounds = useMemo(() => items.length > 0 ? getCombinedBoundingBox(items) : null, [items]);
+  const frameBounds = useMemo(() => getFrames(items).map(frame => getBoundingBox(frame)), [items]);
+
+  const handleExport = useCallback(async (options: ExportOptions) => {
+    const boardName = boards.find(b => b.id === activeBoardId)?.name ?? '';
+    let files: { name: string; pages: SelectionRect[] }[];
+    if (options.scope === 'frames') {
+      // A PDF gets one page per frame; the other formats get one file per frame.
+      files = options.format === 'pdf'
+        ? [{ name: boardName, pages: frameBounds }]
+        : getFrames(items).map(frame => ({ name: `${boardName} ${frame.name}`, pages: [getBoundingBox(frame)] }));
+    } else {
+      const rect = options.scope === 'selection' ? selectionRect : boardBounds;
+      files = rect ? [{ name: boardName, pages: [rect] }] : [];
+    }
+    if (files.length === 0) return;
+    try {
+      for (const file of files) {
+        const blob = await exportCanvas(items, file.pages, options);
+        downloadBlob(blob, `${toFileNameStem(file.name, 'canvas')}.${EXPORT_FILE_EXTENSIONS[options.format]}`);
+      }
+      setIsExportModalOpen(false);
+    } catch (e) {
+      console.error("Failed to export canvas", e);
+      alert(`Sorry, the export failed. ${e instanceof Error ? e.message : ''}`);
+    }
+  }, [items, selectionRect, boardBounds, frameBounds, boards, activeBoardId]);
   
   const textItemsSelected = selectedItems.length > 0 && selectedItems.every(item => item.type === 'text');
   const showTextToolbar = isTextMode || textItemsSelected;
@@ -1134,10 +1906,10 @@ function App() {
     return 'disabled';
   })();
 
-  const magicFillTargetItem = magicFillState.targetItemId ? items.find(i => i.id === magicFillState.targetItemId) as ImageItem : null;
-  const magicFillSourceItem = magicFillState.sourceItemId ? items.find(i => i.id === magicFillState.sourceItemId) as ImageItem : null;
+  const magicFillTargetItem = magicFillState.targetItemId ? findItemById(items, magicFillState.targetItemId) as ImageItem : null;
+  const magicFillSourceItem = magicFillState.sourceItemId ? findItemById(items, magicFillState.sourceItemId) as ImageItem : null;
 
-  const activeGenerationTasks = generationTasks.filter(t => t.status === 'interpreting' || t.status === 'generating');
+  const activeGenerationTasks = generationTasks.filter(t => t.status === 'queued' || t.status === 'interpreting' || t.status === 'generating');
 
   return (
     <div 
@@ -1154,12 +1926,13 @@ function App() {
         textOptions={textOptions}
         selectionRect={selectionRect} 
         onSelectionChange={handleSelectionChange}
+        selectedItemIds={selectedItemIds}
         onModeChange={exitModes} 
         zoom={zoom} 
         pan={pan} 
         setPan={setPan}
         onShowContextMenu={handleShowContextMenu}
-        previewItem={imagePreview?.newImage}
+        previewItem={imagePreview?.candidates[imagePreview.activeIndex]}
         ghostedItemIds={imagePreview ? imagePreview.itemsToReplace.map(i => i.id) : []}
         magicFillState={magicFillState}
         onMaskUpdate={(mask) => setMagicFillState(s => ({...s, maskDrawing: mask}))}
@@ -1169,7 +1942,9 @@ function App() {
         onInteractionEnd={() => {}}
       />
       <Toolbar
-        onAddImage={handleAddImage} onSetDrawingMode={handleSetDrawingMode}
+        onAddImage={handleAddImage} onAddFrame={handleAddFrame} onSetDrawingMode={handleSetDrawingMode}
+        onToggleLayers={() => setIsLayersPanelOpen(!isLayersPanelOpen)} isLayersPanelOpen={isLayersPanelOpen}
+        alignableCount={alignableItems.length} onAlign={alignSelectedItems} onDistribute={distributeSelectedItems}
         isDrawingMode={isDrawingMode} drawingOptions={drawingOptions} onDrawingOptionsChange={handleDrawingOptionsChange}
         onSetTextMode={handleSetTextMode} isTextMode={isTextMode}
         textOptions={singleSelectedTextItem ? { color: singleSelectedTextItem.color, fontSize: singleSelectedTextItem.fontSize } : textOptions}
@@ -1179,18 +1954,21 @@ function App() {
         magicFillMode={magicFillMode}
         gridOptions={gridOptions} onGridOptionsChange={handleGridOptionsChange}
       />
-      {selectionRect && !isDrawingMode && !isTextMode && !imagePreview && (
+      {targetRect && !isDrawingMode && !isTextMode && !imagePreview && (
         <SelectionPromptBar
-            selectionRect={selectionRect}
+            selectionRect={targetRect}
             prompt={selectionPrompt}
             onPromptChange={setSelectionPrompt}
             onGenerate={handleGenerateFromSelectionBar}
             onInterpret={handleInterpretCanvasRequest}
             onDelete={deleteSelectedItems}
-            itemCount={selectedItems.length}
+            itemCount={selectedFrame ? getFrameInputs(selectedFrame).length : selectedItems.length}
+            parameters={generationParameters}
+            onParametersChange={setGenerationParameters}
             zoom={zoom} pan={pan}
             disabled={!isApiKeyConfigured}
             isInterpreting={isInterpreting}
+            frame={selectedFrame ?? undefined}
         />
       )}
       {magicFillState.isActive && magicFillState.maskDrawing && magicFillTargetItem && (
@@ -1205,7 +1983,7 @@ function App() {
        {activeGenerationTasks.map(task => {
         const cleanPrompt = (prompt: string | undefined): string | null => {
             if (!prompt) return null;
-            let cleaned = prompt.replace(/^(Optimized Prompt: |Animation Prompt: |Using direct prompt: |Model Plan: )/, '');
+            let cleaned = prompt.replace(/^(\[\d+\/\d+\] )?(Optimized Prompt: |Animation Prompt: |Using direct prompt: |Model Plan: )/, '');
             if (cleaned.startsWith('"') && cleaned.endsWith('"')) {
                 cleaned = cleaned.substring(1, cleaned.length - 1);
             }
@@ -1228,7 +2006,7 @@ function App() {
                 <div className="absolute inset-0 bg-indigo-500/10 animate-pulse shimmer-effect"></div>
                 <LoadingSpinner className="w-10 h-10 text-indigo-400" />
                 <p className="mt-4 text-white text-lg font-semibold tracking-wide">
-                    {task.type === 'video' ? 'Creating Video...' : 'Fusing Ideas...'}
+                    {task.status === 'queued' ? 'Queued...' : task.type === 'video' ? 'Creating Video...' : 'Fusing Ideas...'}
                 </p>
                 <p className="text-gray-300 text-sm mb-2">AI is processing your request</p>
                 {displayPrompt && (
@@ -1241,9 +2019,10 @@ function App() {
       })}
       {imagePreview && (
         <ReplacementConfirmation
-            preview={imagePreview} onAccept={handleAcceptPreview}
-            onKeepBoth={handleKeepBoth} onDiscard={handleDiscardPreview}
-            zoom={zoom} pan={pan}
+            key={imagePreview.candidates[0].id}
+            preview={imagePreview} onActiveIndexChange={handlePreviewActiveIndexChange}
+            onAccept={handleAcceptPreview} onKeepBoth={handleKeepBoth} onDiscard={handleDiscardPreview}
+            zoom={zoom} pan={pan} queuedCount={boardPreviews.length - 1}
         />
       )}
        {contextMenu && (
@@ -1254,6 +2033,11 @@ function App() {
           onGenerateImage={handleGenerateFromContextMenu}
           onExpand={handleStartExpansionMode}
           onDownload={handleDownloadImage}
+          onExport={() => { setIsExportModalOpen(true); setContextMenu(null); }}
+          onShowInfo={handleShowInfo}
+          onShowLineage={handleShowLineage}
+          onUngroup={ungroupContextItem}
+          onRename={renameContextFrame}
           itemType={contextMenu.item?.type}
           isGenerationDisabled={!isApiKeyConfigured}
         />
@@ -1262,23 +2046,107 @@ function App() {
         isOpen={generationPromptModal.isOpen}
         onClose={() => setGenerationPromptModal({ isOpen: false, position: null })}
         onSubmit={handleGenerateFromModal}
-        availableModels={AVAILABLE_MODELS.textToImage}
+        availableModels={getModelChoices('textToImage')}
         defaultModel={modelSettings.textToImage}
+        defaultParameters={generationParameters}
+      />
+      <ItemInfoModal
+        item={infoItem}
+        items={items}
+        onClose={() => setInfoItem(null)}
+        onRegenerate={handleRegenerate}
+        isRegenerationDisabled={!isApiKeyConfigured}
+      />
+      <LineageModal
+        isOpen={lineageModal.isOpen}
+        onClose={() => setLineageModal({ isOpen: false, focusId: null })}
+        items={leafItems}
+        archivedItems={archivedItems}
+        focusId={lineageModal.focusId}
+        onShowFocusAll={() => setLineageModal({ isOpen: true, focusId: null })}
+        onJumpTo={handleJumpToItem}
+        onRestore={handleRestoreItem}
+      />
+      <PromptReviewModal
+        review={promptReviews[0] ?? null}
+        pendingCount={Math.max(0, promptReviews.length - 1)}
+        onConfirm={(text) => handlePromptReviewDecision(promptReviews[0].id, { action: 'confirm', text })}
+        onRegenerate={() => handlePromptReviewDecision(promptReviews[0].id, { action: 'regenerate' })}
+        onCancelTask={() => handleCancelTask(promptReviews[0].taskId)}
+      />
+      <UsageModal
+        isOpen={isUsageModalOpen}
+        onClose={() => setIsUsageModalOpen(false)}
+        boards={boards}
+        modelSettings={modelSettings}
+        settings={usageSettings}
+        onSettingsChange={setUsageSettings}
       />
       <SettingsModal
         isOpen={isSettingsModalOpen}
         onClose={() => setIsSettingsModalOpen(false)}
         settings={modelSettings}
         onSettingsChange={setModelSettings}
+        providerConfigs={providerConfigs}
+        onProviderConfigChange={handleProviderConfigChange}
+        credentialStatuses={credentialStatuses}
+        onRecheckCredentials={recheckCredentials}
+        concurrencyLimits={concurrencyLimits}
+        onConcurrencyLimitsChange={setConcurrencyLimits}
+        cacheSettings={cacheSettings}
+        onCacheSettingsChange={setCacheSettingsState}
+        reviewPrompts={reviewPrompts}
+        onReviewPromptsChange={setReviewPrompts}
+      />
+      <ExportModal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        onExport={handleExport}
+        boardBounds={boardBounds}
+        selectionBounds={selectionRect}
+        frameBounds={frameBounds}
+      />
+      <BoardSidebar
+          boards={boards}
+          activeBoardId={activeBoardId}
+          isOpen={isBoardsPanelOpen}
+          onToggle={() => setIsBoardsPanelOpen(!isBoardsPanelOpen)}
+          onSwitch={handleSwitchBoard}
+          onCreate={handleCreateBoard}
+          onRename={renameBoard}
+          onDuplicate={handleDuplicateBoard}
+          onDelete={handleDeleteBoard}
+          onExport={handleExportBoard}
+          onImport={handleImportBoard}
+          isSwitchingDisabled={activeGenerationTasks.length > 0 || (!isBoardLoaded && !boardLoadError)}
+      />
+      <LayersPanel
+          items={items}
+          selectedItemIds={selectedItemIds}
+          isOpen={isLayersPanelOpen}
+          onClose={() => setIsLayersPanelOpen(false)}
+          left={isBoardsPanelOpen ? SIDEBAR_WIDTH : 0}
+          onSelect={handleSelectLayer}
+          onToggleHidden={toggleItemHidden}
+          onToggleLocked={toggleItemLocked}
+          onRename={renameItem}
+          onMove={moveLayer}
       />
       <ProgressPanel 
           tasks={generationTasks} isOpen={isPanelOpen}
           onToggle={() => setIsPanelOpen(!isPanelOpen)}
           onShowSettings={() => setIsSettingsModalOpen(true)}
+          onShowUsage={() => setIsUsageModalOpen(true)}
           onSave={handleSave}
+          onExport={() => setIsExportModalOpen(true)}
+          onCancelTask={handleCancelTask}
+          onRetryTask={handleRetryTask}
+          canRetryTask={(taskId) => taskRunnersRef.current.has(taskId)}
+          onClearCompleted={handleClearCompletedTasks}
+          onExportTasks={handleExportTasks}
           hasUnsavedChanges={hasUnsavedChanges}
       />
-      {!isApiKeyConfigured && <ApiKeyWarningBanner />}
+      {!isApiKeyConfigured && <ApiKeyWarningBanner providers={unconfiguredProviders} credentialStatuses={credentialStatuses} />}
       {isDraggingOver && (
         <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center pointer-events-none z-50 transition-opacity duration-300">
           <div className="text-center p-10 border-4 border-dashed border-gray-400 rounded-3xl bg-gray-800/20">
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { BoardMeta } from '../types';
+import { BoardsIcon, ChevronDoubleLeftIcon, ChevronDoubleRightIcon, DownloadIcon, DuplicateIcon, PencilIcon, PlusIcon, TrashIcon, UploadIcon } from './icons';
+
+interface BoardSidebarProps {
+  boards: BoardMeta[];
+  activeBoardId: string;
+  isOpen: boolean;
+  onToggle: () => void;
+  onSwitch: (boardId: string) => void;
+  onCreate: () => void;
+  onRename: (boardId: string, name: string) => void;
+  onDuplicate: (boardId: string) => void;
+  onDelete: (boardId: string) => void;
+  onExport: (boardId: string) => void;
+  onImport: () => void;
+  isSwitchingDisabled: boolean;
+}
+
+export const SIDEBAR_WIDTH = 260;
+
+const BoardRow: React.FC<{
+    board: BoardMeta;
+    isActive: boolean;
+    canDelete: boolean;
+    isSwitchingDisabled: boolean;
+    onSwitch: () => void;
+    onRename: (name: string) => void;
+    onDuplicate: () => void;
+    onDelete: () => void;
+    onExport: () => void;
+}> = ({ board, isActive, canDelete, isSwitchingDisabled, onSwitch, onRename, onDuplicate, onDelete, onExport }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draftName, setDraftName] = useState(board.name);
+
+    const startEditing = () => {
+        setDraftName(board.name);
+        setIsEditing(true);
+    };
+
+    const commitRename = () => {
+        onRename(draftName);
+        setIsEditing(false);
+    };
+
+    const actionButtonClass = "p-1 rounded-md text-gray-400 hover:bg-gray-600 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+
+    return (
+        <li
+            className={`group flex items-center rounded-lg px-3 py-2 border transition-colors ${isActive ? 'bg-indigo-600/30 border-indigo-500' : 'border-transparent hover:bg-gray-800'}`}
+        >
+            {isEditing ? (
+                <input
+                    type="text"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setIsEditing(false);
+                    }}
+                    className="flex-grow min-w-0 bg-gray-900 border border-gray-600 rounded-md text-white text-sm px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    autoFocus
+                />
+            ) : (
+                <button
+                    onClick={onSwitch}
+                    onDoubleClick={startEditing}
+                    disabled={!isActive && isSwitchingDisabled}
+                    title={!isActive && isSwitchingDisabled ? 'Wait for running generations to finish before switching boards' : board.name}
+                    className="flex-grow min-w-0 text-left disabled:cursor-not-allowed"
+                >
+                    <p className={`text-sm truncate ${isActive ? 'text-white font-semibold' : 'text-gray-300'}`}>{board.name}</p>
+                    <p className="text-xs text-gray-500">Edited {new Date(board.updatedAt).toLocaleDateString()}</p>
+                </button>
+            )}
+            {!isEditing && (
+                <div className="flex items-center space-x-1 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={startEditing} title="Rename" className={actionButtonClass}>
+                        <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={onDuplicate} title="Duplicate" className={actionButtonClass}>
+                        <DuplicateIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={onExport} title="Export as .nanocanvas file" className={actionButtonClass}>
+                        <DownloadIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={onDelete} disabled={!canDelete} title={canDelete ? 'Delete' : 'The last board cannot be deleted'} className={`${actionButtonClass} hover:text-red-400`}>
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+        </li>
+    );
+};
+
+const BoardSidebar: React.FC<BoardSidebarProps> = ({
+    boards, activeBoardId, isOpen, onToggle, onSwitch, onCreate, onRename, onDuplicate, onDelete, onExport, onImport, isSwitchingDisabled
+}) => {
+    return (
+        <>
+            <button
+                onClick={onToggle}
+                title={isOpen ? "Close Boards" : "Open Boards"}
+                className="absolute top-1/2 -translate-y-1/2 z-30 bg-gray-800/80 backdrop-blur-md p-2 rounded-r-lg border border-l-0 border-gray-700 transition-transform hover:bg-indigo-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                style={{ left: isOpen ? `${SIDEBAR_WIDTH}px` : '0px' }}
+            >
+                {isOpen ? <ChevronDoubleLeftIcon className="w-5 h-5" /> : <ChevronDoubleRightIcon className="w-5 h-5" />}
+            </button>
+            <div
+                className="absolute top-0 left-0 h-full bg-gray-900/80 backdrop-blur-xl border-r border-gray-700 shadow-2xl z-20 transition-transform duration-300 ease-in-out"
+                style={{
+                    width: `${SIDEBAR_WIDTH}px`,
+                    transform: isOpen ? 'translateX(0%)' : 'translateX(-100%)',
+                }}
+            >
+                <div className="flex flex-col h-full">
+                    <div className="flex items-center justify-between p-4 border-b border-gray-700">
+                        <div className="flex items-center">
+                            <BoardsIcon className="w-5 h-5 mr-2 text-indigo-400" />
+                            <h2 className="text-lg font-semibold">Boards</h2>
+                        </div>
+                        <div className="flex items-center space-x-1">
+                            <button
+                                onClick={onImport}
+                                disabled={isSwitchingDisabled}
+                                title="Import .nanocanvas file"
+                                className="p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                <UploadIcon className="w-5 h-5" />
+                            </button>
+                            <button
+                                onClick={onCreate}
+                                disabled={isSwitchingDisabled}
+                                title="New Board"
+                                className="p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                <PlusIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                    </div>
+                    <ul className="flex-grow p-2 space-y-1 overflow-y-auto">
+                        {boards.map(board => (
+                            <BoardRow
+                                key={board.id}
+                                board={board}
+                                isActive={board.id === activeBoardId}
+                                canDelete={boards.length > 1}
+                                isSwitchingDisabled={isSwitchingDisabled}
+                                onSwitch={() => onSwitch(board.id)}
+                                onRename={(name) => onRename(board.id, name)}
+                                onDuplicate={() => onDuplicate(board.id)}
+                                onDelete={() => onDelete(board.id)}
+                                onExport={() => onExport(board.id)}
+                            />
+                        ))}
+                    </ul>
+                </div>
+            </div>
+        </>
+    );
+};
+
+export default BoardSidebar;
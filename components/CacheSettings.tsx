@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CacheSettings as CacheSettingsValue } from '../types';
+import { CACHE_SIZE_LIMITS_MB, clearCache, getCacheStats, trimCache } from '../services/responseCache';
+
+interface CacheSettingsProps {
+  settings: CacheSettingsValue;
+  onSettingsChange: (settings: CacheSettingsValue) => void;
+}
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const CacheSettings: React.FC<CacheSettingsProps> = ({ settings, onSettingsChange }) => {
+  const [stats, setStats] = useState<{ entries: number; bytes: number } | null>(null);
+
+  const refreshStats = useCallback(() => {
+    getCacheStats().then(setStats).catch(error => {
+      console.error('Failed to read the response cache', error);
+      setStats(null);
+    });
+  }, []);
+
+  useEffect(() => {
+    trimCache(settings.maxSizeMb)
+      .catch(error => console.error('Failed to trim the response cache', error))
+      .finally(refreshStats);
+  }, [refreshStats, settings.maxSizeMb]);
+
+  const handleClear = async () => {
+    try {
+      await clearCache();
+    } catch (error) {
+      console.error('Failed to clear the response cache', error);
+      alert('Sorry, the cache could not be cleared.');
+    }
+    refreshStats();
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700">
+      <h3 className="text-lg font-semibold text-white">Response Cache</h3>
+      <p className="text-sm text-gray-500 mb-3">
+        Results are stored in this browser, keyed on exactly what was sent. Repeating an interpretation of an unchanged selection is then instant.
+      </p>
+      <div className="space-y-2">
+        <label className="flex items-center text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.reuseImages}
+            onChange={(e) => onSettingsChange({ ...settings, reuseImages: e.target.checked })}
+            className="w-4 h-4 mr-2 accent-indigo-500"
+          />
+          Reuse stored images for identical requests (with a random seed, any repeat of the same settings)
+        </label>
+        <label className="flex items-center text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.bypass}
+            onChange={(e) => onSettingsChange({ ...settings, bypass: e.target.checked })}
+            className="w-4 h-4 mr-2 accent-indigo-500"
+          />
+          Bypass the cache and always call the model
+        </label>
+        <div className="flex items-center justify-between">
+          <label htmlFor="cache-size-limit" className="text-sm text-gray-300">Size limit</label>
+          <select
+            id="cache-size-limit"
+            value={settings.maxSizeMb}
+            onChange={(e) => onSettingsChange({ ...settings, maxSizeMb: Number(e.target.value) })}
+            className="bg-gray-700 border border-gray-600 rounded-md text-white px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {CACHE_SIZE_LIMITS_MB.map(limit => <option key={limit} value={limit}>{limit} MB</option>)}
+          </select>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-500">
+            {stats ? `${stats.entries} stored responses, ${formatMb(stats.bytes)}` : 'The cache is not available.'}
+          </span>
+          <button
+            onClick={handleClear}
+            disabled={!stats || stats.entries === 0}
+            className="px-3 py-2 rounded-md text-sm font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Clear cache
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CacheSettings;
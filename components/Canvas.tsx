@@ -1,6 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { CanvasItem, Point, SelectionRect, InteractionMode, DrawingItem, TextItem, DrawingOptions, TextOptions, ImageItem, MagicFillState, VideoItem, GridOptions } from '../types';
-import { isItemInSelection, getBoundingBox, getCenter, rotatePoint, getRotatedBoundingBox, isPointInBox } from '../utils/geometry';
+import { CanvasItem, Point, SelectionRect, InteractionMode, DrawingItem, TextItem, DrawingOptions, TextOptions, ImageItem, MagicFillState, VideoItem, GridOptions, AlignmentGuide } from '../types';
+import { isItemInSelection, getBoundingBox, getCenter, getRotatedBoundingBox, isPointInBox, isPointInItem, getCombinedBoundingBox, rotatePoint, translateItem, scaleItemAbout, rotateItemAbout } from '../utils/geometry';
+import { findItemById, findItemPath, getScopeItems, isContainer, isItemPickable, updateScopeItems } from '../utils/groups';
+import { settleItemInFrames } from '../utils/frames';
+import { getSnapTargets, snapToItems, SNAP_DISTANCE } from '../utils/alignment';
 
 export type Handle = 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se' | 'rotate';
 
@@ -13,6 +16,7 @@ interface CanvasProps {
   textOptions: TextOptions;
   selectionRect: SelectionRect | null;
   onSelectionChange: (rect: SelectionRect | null, items: CanvasItem[]) => void;
+  selectedItemIds: string[]; // Items of the marquee selection, which move, scale and rotate together.
   onModeChange: () => void;
   zoom: number;
   pan: Point;
@@ -33,7 +37,8 @@ const ControlBox: React.FC<{
     rotation?: number;
     onHandleMouseDown: (e: React.MouseEvent, handle: Handle, box: SelectionRect) => void;
     isExpansion?: boolean;
-}> = ({ box, rotation = 0, onHandleMouseDown, isExpansion = false }) => {
+    isRotatable?: boolean;
+}> = ({ box, rotation = 0, onHandleMouseDown, isExpansion = false, isRotatable = !isExpansion }) => {
     if (box.width === 0 || box.height === 0) return null;
 
     const styles: React.CSSProperties = {
@@ -69,7 +74,7 @@ const ControlBox: React.FC<{
         { type: 'e', style: { top: `calc(50% - ${handleSize/2}px)`, right: -handleSize / 2, cursor: 'ew-resize', width: handleSize, height: handleSize } },
     ];
     
-    if (!isExpansion) {
+    if (isRotatable) {
         handles.push({ type: 'rotate', style: { top: -handleSize * 3, left: `calc(50% - ${handleSize/2}px)`, cursor: 'grab', width: handleSize, height: handleSize, borderRadius: '50%' } });
     }
 
@@ -85,7 +90,7 @@ const ControlBox: React.FC<{
 
 
 const Canvas: React.FC<CanvasProps> = ({ 
-    items, setItems, isDrawingMode, isTextMode, drawingOptions, textOptions, selectionRect, onSelectionChange, onModeChange, zoom, pan, setPan, onShowContextMenu, previewItem, ghostedItemIds = [], magicFillState, onMaskUpdate, expansionState, onExpansionAreaDefined, gridOptions, onInteractionEnd
+    items, setItems, isDrawingMode, isTextMode, drawingOptions, textOptions, selectionRect, onSelectionChange, selectedItemIds, onModeChange, zoom, pan, setPan, onShowContextMenu, previewItem, ghostedItemIds = [], magicFillState, onMaskUpdate, expansionState, onExpansionAreaDefined, gridOptions, onInteractionEnd
 }) => {
   const canvasRef = useRef<HTMLDivElement>(null);
   const [interactionMode, setInteractionMode] = useState<InteractionMode>('none');
@@ -101,8 +106,40 @@ const Canvas: React.FC<CanvasProps> = ({
   const [activeHandle, setActiveHandle] = useState<Handle | null>(null);
   const [originalItemState, setOriginalItemState] = useState<any>(null);
   const [expansionGhostRect, setExpansionGhostRect] = useState<SelectionRect | null>(null);
+  const [groupRotation, setGroupRotation] = useState(0);
+  const [guides, setGuides] = useState<AlignmentGuide[]>([]);
+  // The groups entered to edit their children, outermost first. Clicks and new items go to the innermost.
+  const [groupPath, setGroupPath] = useState<string[]>([]);
   const gestureDidCommit = useRef(false);
 
+  const scopeItems = getScopeItems(items, groupPath) ?? items;
+  const setScopeItems = (updater: (prev: CanvasItem[]) => CanvasItem[], options?: { commit?: boolean }) => {
+      setItems(prev => updateScopeItems(prev, groupPath, updater), options);
+  };
+  const enteredGroup = groupPath.length > 0 ? findItemById(items, groupPath[groupPath.length - 1]) : undefined;
+
+  useEffect(() => {
+      if (groupPath.length > 0 && !getScopeItems(items, groupPath)) setGroupPath([]);
+  }, [items, groupPath]);
+
+  // Follow selections made outside the canvas, e.g. a new frame or a row of the layers panel,
+  // entering the group or frame the selected items are in.
+  useEffect(() => {
+      if (selectedItemIds.length > 0 && !scopeItems.some(item => item.id === selectedItemIds[0])) {
+          const path = findItemPath(items, selectedItemIds[0]);
+          if (path) setGroupPath(path);
+      }
+      if (!selectionRect && selectedItemIds.length === 1) setSinglySelectedItemId(selectedItemIds[0]);
+  }, [selectionRect, selectedItemIds]);
+
+  const singlySelectedGroup = !selectionRect && singlySelectedItemId ? scopeItems.find(item => item.id === singlySelectedItemId && item.type === 'group' && !item.isLocked) : undefined;
+  const groupItems = magicFillState.isActive || expansionState.isActive || ghostedItemIds.length > 0
+    ? []
+    : selectionRect
+      ? scopeItems.filter(item => selectedItemIds.includes(item.id) && isItemPickable(item))
+      : singlySelectedGroup ? [singlySelectedGroup] : [];
+  const groupBox = groupItems.length > 0 ? getCombinedBoundingBox(groupItems) : null;
+
   const getCanvasPoint = (e: React.MouseEvent | MouseEvent): Point => {
     const canvasRect = canvasRef.current?.getBoundingClientRect();
     if (!canvasRect) return { x: 0, y: 0 };
@@ -116,7 +153,7 @@ const Canvas: React.FC<CanvasProps> = ({
 
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>, item: TextItem) => {
     const commit = !gestureDidCommit.current;
-    setItems(prev => prev.map(i => i.id === item.id ? { ...i, text: e.target.value } : i), { commit });
+    setScopeItems(prev => prev.map(i => i.id === item.id ? { ...i, text: e.target.value } : i), { commit });
     if (commit) gestureDidCommit.current = true;
   };
   
@@ -128,6 +165,12 @@ const Canvas: React.FC<CanvasProps> = ({
     if (isDrawingMode || isTextMode || editingTextItem) return;
     const clickedItem = findItemAtPoint(getCanvasPoint(e));
 
+    if (clickedItem && isContainer(clickedItem)) {
+        setGroupPath(path => [...path, clickedItem.id]);
+        setSinglySelectedItemId(null);
+        onSelectionChange(null, []);
+        return;
+    }
     if (clickedItem && clickedItem.type === 'text') {
         gestureDidCommit.current = false;
         setEditingTextItem(clickedItem);
@@ -140,15 +183,10 @@ const Canvas: React.FC<CanvasProps> = ({
   
   const findItemAtPoint = (point: Point): CanvasItem | null => {
     // Check items in reverse order to find the top-most one
-    for (let i = items.length - 1; i >= 0; i--) {
-        const item = items[i];
-        if (ghostedItemIds.includes(item.id)) continue;
-        const box = getBoundingBox(item);
-        const center = getCenter(box);
-        const rotatedPoint = rotatePoint(point, center, -item.rotation);
-
-        if (rotatedPoint.x >= box.x && rotatedPoint.x <= box.x + box.width &&
-            rotatedPoint.y >= box.y && rotatedPoint.y <= box.y + box.height) {
+    for (let i = scopeItems.length - 1; i >= 0; i--) {
+        const item = scopeItems[i];
+        if (ghostedItemIds.includes(item.id) || !isItemPickable(item)) continue;
+        if (isPointInItem(point, item)) {
             return item;
         }
     }
@@ -200,6 +238,30 @@ const Canvas: React.FC<CanvasProps> = ({
   };
 
 
+  const handleGroupInteractionStart = (e: React.MouseEvent, handle: Handle) => {
+      e.stopPropagation();
+      if (!groupBox) return;
+      gestureDidCommit.current = false;
+      const center = getCenter(groupBox);
+      setStartPoint(getCanvasPoint(e));
+      setActiveHandle(handle);
+
+      if (handle === 'rotate') {
+          setInteractionMode('rotatingGroup');
+          setGroupRotation(0);
+          setOriginalItemState({ items: groupItems, box: groupBox, center });
+          return;
+      }
+      setInteractionMode('resizingGroup');
+      // Scale about the opposite corner, or the middle of the opposite edge.
+      const handlePoint = {
+          x: handle.includes('e') ? groupBox.x + groupBox.width : handle.includes('w') ? groupBox.x : center.x,
+          y: handle.includes('s') ? groupBox.y + groupBox.height : handle.includes('n') ? groupBox.y : center.y,
+      };
+      const anchor = { x: 2 * center.x - handlePoint.x, y: 2 * center.y - handlePoint.y };
+      setOriginalItemState({ items: groupItems, box: groupBox, anchor, handlePoint });
+  };
+
   const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
     if ((e.target as HTMLElement).tagName === 'TEXTAREA') return;
     if (editingTextItem) setEditingTextItem(null);
@@ -222,7 +284,7 @@ const Canvas: React.FC<CanvasProps> = ({
     const point = getCanvasPoint(e);
     
     if (magicFillState.isActive) {
-        const targetItem = items.find(i => i.id === magicFillState.targetItemId);
+        const targetItem = magicFillState.targetItemId ? findItemById(items, magicFillState.targetItemId) : undefined;
         if (targetItem && isPointInBox(point, getRotatedBoundingBox(targetItem))) {
             setInteractionMode('magicFill');
             const newMask: DrawingItem = { id: `mask_${Date.now()}`, type: 'drawing', points: [point], color: 'rgba(255,0,0,0.5)', strokeWidth: 30, opacity: 0.5, rotation: 0 };
@@ -235,19 +297,26 @@ const Canvas: React.FC<CanvasProps> = ({
       setInteractionMode('drawing');
       const newDrawing: DrawingItem = { id: `draw_${Date.now()}`, type: 'drawing', points: [point], rotation: 0, ...drawingOptions };
       setCurrentDrawing(newDrawing);
-      setItems(prev => [...prev, newDrawing]);
+      setScopeItems(prev => [...prev, newDrawing]);
       return;
     }
 
     if (isTextMode) {
       const newTextItem: TextItem = { id: `text_${Date.now()}`, type: 'text', x: point.x - 100, y: point.y - 25, width: 200, height: 50, text: '', rotation: 0, ...textOptions };
-      setItems(prev => [...prev, newTextItem]);
+      setScopeItems(prev => [...prev, newTextItem]);
       setEditingTextItem(newTextItem);
       onModeChange();
       gestureDidCommit.current = false;
       return;
     }
 
+    if (groupBox && isPointInBox(point, groupBox)) {
+        setInteractionMode('movingGroup');
+        setStartPoint(point);
+        setOriginalItemState({ items: groupItems, box: groupBox });
+        return;
+    }
+
     const clickedItem = findItemAtPoint(point);
 
     if (clickedItem) {
@@ -261,6 +330,8 @@ const Canvas: React.FC<CanvasProps> = ({
     } else {
         onModeChange();
         setSinglySelectedItemId(null);
+        // Clicking away from the group being edited leaves it.
+        if (enteredGroup && !isPointInBox(point, getBoundingBox(enteredGroup))) setGroupPath([]);
         setInteractionMode('selecting');
         setStartPoint(point);
         setTransientSelectionRect({ ...point, width: 0, height: 0 });
@@ -293,50 +364,16 @@ const Canvas: React.FC<CanvasProps> = ({
         const newPoints = [...currentDrawing.points, point];
         const updatedDrawing = { ...currentDrawing, points: newPoints };
         setCurrentDrawing(updatedDrawing);
-        setItems(prevItems => prevItems.map(item => item.id === updatedDrawing.id ? updatedDrawing : item), { commit: false });
+        setScopeItems(prevItems => prevItems.map(item => item.id === updatedDrawing.id ? updatedDrawing : item), { commit: false });
     } else if (interactionMode === 'selecting' && startPoint) {
         setTransientSelectionRect({ x: Math.min(startPoint.x, point.x), y: Math.min(startPoint.y, point.y), width: Math.abs(point.x - startPoint.x), height: Math.abs(point.y - startPoint.y) });
     } else if (interactionMode === 'moving' && currentItem && startPoint && originalItemState) {
         const commit = !gestureDidCommit.current;
-        const total_dx = point.x - startPoint.x;
-        const total_dy = point.y - startPoint.y;
+        const originalItem = originalItemState as CanvasItem;
+        const { dx, dy } = snapDrag(e, [originalItem], getBoundingBox(originalItem), point.x - startPoint.x, point.y - startPoint.y);
 
-        setItems(prevItems => prevItems.map(item => {
-            if (item.id !== currentItem.id) return item;
-    
-            const originalItem = originalItemState as CanvasItem;
-    
-            // Hold Shift to temporarily disable snapping
-            const shouldSnap = gridOptions.isVisible && !e.shiftKey;
-    
-            if (originalItem.type === 'image' || originalItem.type === 'text' || originalItem.type === 'video') {
-                let newX = originalItem.x + total_dx;
-                let newY = originalItem.y + total_dy;
-    
-                if (shouldSnap) {
-                    newX = Math.round(newX / gridOptions.spacing) * gridOptions.spacing;
-                    newY = Math.round(newY / gridOptions.spacing) * gridOptions.spacing;
-                }
-                return { ...item, x: newX, y: newY };
-            }
-            if (originalItem.type === 'drawing') {
-                let final_dx = total_dx;
-                let final_dy = total_dy;
-    
-                if (shouldSnap) {
-                    const originalBox = getBoundingBox(originalItem);
-                    const newTopLeftX = originalBox.x + total_dx;
-                    const newTopLeftY = originalBox.y + total_dy;
-                    const snappedX = Math.round(newTopLeftX / gridOptions.spacing) * gridOptions.spacing;
-                    const snappedY = Math.round(newTopLeftY / gridOptions.spacing) * gridOptions.spacing;
-                    final_dx = snappedX - originalBox.x;
-                    final_dy = snappedY - originalBox.y;
-                }
-                // Apply delta to the original points to avoid drift
-                return { ...item, points: originalItem.points.map(p => ({ x: p.x + final_dx, y: p.y + final_dy })) };
-            }
-            return item;
-        }), { commit });
+        // Apply the delta to the original item to avoid drift.
+        setScopeItems(prevItems => prevItems.map(item => item.id === currentItem.id ? translateItem(originalItem, dx, dy) : item), { commit });
         if (commit) gestureDidCommit.current = true;
     } else if (interactionMode === 'rotating' && currentItem && startPoint) {
         const commit = !gestureDidCommit.current;
@@ -345,7 +382,7 @@ const Canvas: React.FC<CanvasProps> = ({
         const startAngle = Math.atan2(startPoint.y - center.y, startPoint.x - center.x);
         const currentAngle = Math.atan2(mousePos.y - center.y, mousePos.x - center.x);
         const angleDiff = (currentAngle - startAngle) * 180 / Math.PI;
-        setItems(prev => prev.map(i => i.id === currentItem.id ? { ...i, rotation: initialRotation + angleDiff } : i), { commit });
+        setScopeItems(prev => prev.map(i => i.id === currentItem.id ? { ...i, rotation: initialRotation + angleDiff } : i), { commit });
         if (commit) gestureDidCommit.current = true;
     } else if (interactionMode === 'expanding' && activeHandle && originalItemState) {
         const { box: originalBox } = originalItemState;
@@ -380,7 +417,8 @@ const Canvas: React.FC<CanvasProps> = ({
         let newWidth = Math.abs(unrotatedVec.x);
         let newHeight = Math.abs(unrotatedVec.y);
 
-        if (e.shiftKey && (origItem.type === 'image' || origItem.type === 'video')) {
+        // Frames keep their preset aspect ratio; images and videos keep theirs while Shift is held.
+        if ((e.shiftKey && (origItem.type === 'image' || origItem.type === 'video')) || (origItem.type === 'frame' && origItem.aspectRatio !== 'custom')) {
             const aspectRatio = origBox.width / origBox.height;
             if (newWidth / newHeight > aspectRatio) {
                 newHeight = newWidth / aspectRatio;
@@ -396,10 +434,10 @@ const Canvas: React.FC<CanvasProps> = ({
         let newX = newCenter.x - newWidth / 2;
         let newY = newCenter.y - newHeight / 2;
         
-        setItems(prev => prev.map(item => {
+        setScopeItems(prev => prev.map(item => {
             if (item.id !== currentItem.id) return item;
 
-            if (item.type === 'image' || item.type === 'text' || item.type === 'video') {
+            if (item.type === 'image' || item.type === 'text' || item.type === 'video' || item.type === 'frame') {
                 return { ...item, x: newX, y: newY, width: newWidth, height: newHeight };
             }
             if (item.type === 'drawing') {
@@ -415,7 +453,57 @@ const Canvas: React.FC<CanvasProps> = ({
             return item;
         }), { commit });
         if (commit) gestureDidCommit.current = true;
+    } else if ((interactionMode === 'movingGroup' || interactionMode === 'resizingGroup' || interactionMode === 'rotatingGroup') && startPoint && originalItemState) {
+        const commit = !gestureDidCommit.current;
+        const { items: originalItems, box: originalBox } = originalItemState as { items: CanvasItem[]; box: SelectionRect };
+        let transform: (item: CanvasItem) => CanvasItem;
+
+        if (interactionMode === 'movingGroup') {
+            // Snap the selection's box rather than each item, so the items keep their spacing.
+            const { dx, dy } = snapDrag(e, originalItems, originalBox, point.x - startPoint.x, point.y - startPoint.y);
+            transform = item => translateItem(item, dx, dy);
+        } else if (interactionMode === 'resizingGroup') {
+            const { anchor, handlePoint } = originalItemState;
+            const axis = { x: handlePoint.x - anchor.x, y: handlePoint.y - anchor.y };
+            const projected = ((point.x - anchor.x) * axis.x + (point.y - anchor.y) * axis.y) / (axis.x * axis.x + axis.y * axis.y);
+            const scale = Math.max(projected, 10 / Math.min(originalBox.width, originalBox.height));
+            transform = item => scaleItemAbout(item, anchor, scale);
+        } else {
+            const { center } = originalItemState;
+            const startAngle = Math.atan2(startPoint.y - center.y, startPoint.x - center.x);
+            const currentAngle = Math.atan2(point.y - center.y, point.x - center.x);
+            const angle = (currentAngle - startAngle) * 180 / Math.PI;
+            setGroupRotation(angle);
+            transform = item => rotateItemAbout(item, center, angle);
+        }
+
+        const originalsById = new Map(originalItems.map(item => [item.id, item]));
+        setScopeItems(prev => prev.map(item => {
+            const original = originalsById.get(item.id);
+            return original ? transform(original) : item;
+        }), { commit });
+        if (commit) gestureDidCommit.current = true;
+    }
+  };
+
+  /**
+   * Snaps a drag of `movedItems`, whose box is `box`, first to the grid and then to the edges and
+   * centers of the other items, and shows the guides for the result. Hold Shift to drag freely.
+   */
+  const snapDrag = (e: React.MouseEvent, movedItems: CanvasItem[], box: SelectionRect, dx: number, dy: number): { dx: number; dy: number } => {
+    if (e.shiftKey) {
+        setGuides([]);
+        return { dx, dy };
     }
+    if (gridOptions.isVisible) {
+        dx = Math.round((box.x + dx) / gridOptions.spacing) * gridOptions.spacing - box.x;
+        dy = Math.round((box.y + dy) / gridOptions.spacing) * gridOptions.spacing - box.y;
+    }
+    const movedBox = getCombinedBoundingBox(movedItems);
+    const targets = getSnapTargets(scopeItems, movedItems.map(item => item.id), enteredGroup);
+    const snap = snapToItems({ ...movedBox, x: movedBox.x + dx, y: movedBox.y + dy }, targets, SNAP_DISTANCE / zoom);
+    setGuides(snap.guides);
+    return { dx: dx + snap.dx, dy: dy + snap.dy };
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
@@ -424,9 +512,19 @@ const Canvas: React.FC<CanvasProps> = ({
         return;
     }
 
-    const wasModifying = ['moving', 'drawing', 'resizing', 'rotating', 'magicFill', 'expanding'].includes(interactionMode);
+    const wasModifying = ['moving', 'drawing', 'resizing', 'rotating', 'magicFill', 'expanding', 'movingGroup', 'resizingGroup', 'rotatingGroup'].includes(interactionMode);
+
+    // An item dropped onto a frame joins it; one dragged out of its frame leaves it.
+    if (interactionMode === 'moving' && currentItem && gestureDidCommit.current) {
+        const settled = settleItemInFrames(items, groupPath, currentItem.id);
+        if (settled.items !== items) {
+            setItems(prev => settleItemInFrames(prev, groupPath, currentItem.id).items, { commit: false });
+            setGroupPath(settled.groupPath);
+        }
+    }
     
     gestureDidCommit.current = false;
+    setGuides([]);
 
     if (interactionMode === 'expanding' && expansionGhostRect && activeHandle) {
         onExpansionAreaDefined(expansionGhostRect, activeHandle);
@@ -434,29 +532,21 @@ const Canvas: React.FC<CanvasProps> = ({
     }
       
     if (interactionMode === 'selecting' && transientSelectionRect) {
-        const selected = items.filter(item => isItemInSelection(item, transientSelectionRect));
+        const selected = scopeItems.filter(item => isItemPickable(item) && isItemInSelection(item, transientSelectionRect));
         if (selected.length > 0 && transientSelectionRect.width > 5 && transientSelectionRect.height > 5) {
-            const boxes = selected.map(getRotatedBoundingBox);
-
-            const minX = Math.min(...boxes.map(b => b.x));
-            const minY = Math.min(...boxes.map(b => b.y));
-            const maxX = Math.max(...boxes.map(b => b.x + b.width));
-            const maxY = Math.max(...boxes.map(b => b.y + b.height));
-
-            const encompassingRect: SelectionRect = {
-                x: minX,
-                y: minY,
-                width: maxX - minX,
-                height: maxY - minY,
-            };
-            
-            onSelectionChange(encompassingRect, selected);
+            onSelectionChange(getCombinedBoundingBox(selected), selected);
             setSinglySelectedItemId(null);
         } else {
             onSelectionChange(null, []);
         }
     }
 
+    if (selectionRect && groupItems.length > 0 && (interactionMode === 'movingGroup' || interactionMode === 'resizingGroup' || interactionMode === 'rotatingGroup')) {
+        // The selection keeps its items; only its box follows them.
+        onSelectionChange(getCombinedBoundingBox(groupItems), groupItems);
+        setGroupRotation(0);
+    }
+
     if (wasModifying) {
         onInteractionEnd();
     }
@@ -475,6 +565,11 @@ const Canvas: React.FC<CanvasProps> = ({
             if (e.key === ' ' && !isSpacePanning) {
                 setIsSpacePanning(true);
             }
+            const target = e.target as HTMLElement;
+            if (e.key === 'Escape' && groupPath.length > 0 && target.tagName !== 'INPUT' && target.tagName !== 'TEXTAREA') {
+                setGroupPath(path => path.slice(0, -1));
+                setSinglySelectedItemId(null);
+            }
         };
         const handleKeyUp = (e: KeyboardEvent) => {
             if (e.key === ' ') {
@@ -490,7 +585,7 @@ const Canvas: React.FC<CanvasProps> = ({
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [isSpacePanning, interactionMode]);
+    }, [isSpacePanning, interactionMode, groupPath]);
     
     const handleContextMenu = (e: React.MouseEvent) => {
         e.preventDefault();
@@ -511,7 +606,7 @@ const Canvas: React.FC<CanvasProps> = ({
   const getCursor = () => {
       if (magicFillState.isActive) {
           const point = getCanvasPoint({ clientX: lastMousePos.x, clientY: lastMousePos.y } as React.MouseEvent);
-          const targetItem = items.find(i => i.id === magicFillState.targetItemId);
+          const targetItem = magicFillState.targetItemId ? findItemById(items, magicFillState.targetItemId) : undefined;
           if (targetItem && isPointInBox(point, getRotatedBoundingBox(targetItem))) {
               return 'crosshair';
           }
@@ -531,7 +626,8 @@ const Canvas: React.FC<CanvasProps> = ({
   };
 
 
-  const selectedItemForBox = singlySelectedItemId ? items.find(i => i.id === singlySelectedItemId) : null;
+  // Locked items can be selected from the layers panel, but get no handles.
+  const selectedItemForBox = singlySelectedItemId && !singlySelectedGroup ? scopeItems.find(i => i.id === singlySelectedItemId && isItemPickable(i)) : null;
   const allItemsToRender = previewItem ? [...items, previewItem] : items;
   
   const getBackgroundStyle = () => {
@@ -567,6 +663,120 @@ const Canvas: React.FC<CanvasProps> = ({
     return styles;
   }
 
+  const renderItem = (item: CanvasItem, isInGhostedGroup = false): React.ReactNode => {
+    if (item.isHidden) return null;
+    const isMarqueeSelected = selectionRect ? isItemInSelection(item, selectionRect) : false;
+    const isHovered = item.id === hoveredItemId && !selectedItemForBox && !selectionRect;
+    const isGhosted = isInGhostedGroup || ghostedItemIds.includes(item.id);
+    const isPreview = item.id === previewItem?.id;
+    const isMagicFillTarget = magicFillState.isActive && item.id === magicFillState.targetItemId;
+    const isMagicFillSource = magicFillState.isActive && item.id === magicFillState.sourceItemId;
+
+    let itemClass = 'transition-all duration-150';
+    if (isMarqueeSelected) itemClass += ' ring-2 ring-indigo-500';
+    if (isHovered) itemClass += ' outline outline-2 outline-offset-2 outline-blue-400';
+    if (isPreview) itemClass += ' ring-2 ring-dashed ring-green-400 opacity-90';
+    if (isMagicFillTarget) itemClass += ' ring-4 ring-offset-2 ring-indigo-500 animate-pulse';
+    if (isMagicFillSource) itemClass += ' ring-2 ring-offset-2 ring-green-500';
+
+
+    const baseStyle: React.CSSProperties = { position: 'absolute', transformOrigin: 'center center', opacity: isGhosted ? 0.4 : 1 };
+
+    switch (item.type) {
+    case 'image':
+        return <img key={item.id} src={item.src} alt={item.prompt} style={{ ...baseStyle, left: item.x, top: item.y, width: item.width, height: item.height, transform: `rotate(${item.rotation}deg)` }} className={`object-contain pointer-events-none ${itemClass}`} />;
+    case 'video':
+        return <video key={item.id} src={item.src} style={{ ...baseStyle, left: item.x, top: item.y, width: item.width, height: item.height, transform: `rotate(${item.rotation}deg)` }} className={`object-contain pointer-events-none ${itemClass}`} autoPlay loop muted playsInline />;
+    case 'text':
+        if (editingTextItem?.id === item.id) {
+        return <textarea
+            key={item.id} value={item.text} onChange={(e) => handleTextChange(e, item)} onBlur={handleTextBlur} autoFocus
+            placeholder="Type here..."
+            style={{ ...baseStyle, left: item.x, top: item.y, width: item.width, height: 'auto', minHeight: item.height, color: item.color, fontSize: `${item.fontSize}px`, textShadow: '0 1px 3px rgba(0,0,0,0.5)', transform: `rotate(${item.rotation}deg)`}}
+            className="bg-transparent p-2 border-2 border-indigo-500 rounded-md resize-none focus:outline-none"
+        />
+        }
+        return <div key={item.id} style={{ ...baseStyle, left: item.x, top: item.y, width: item.width, height: 'auto', textShadow: '0 1px 3px rgba(0,0,0,0.5)', whiteSpace: 'pre-wrap', wordWrap: 'break-word', color: item.color, fontSize: `${item.fontSize}px`, transform: `rotate(${item.rotation}deg)`}} className={`p-2 ${isGhosted || isPreview ? 'pointer-events-none' : ''} ${itemClass}`}>
+        {item.text}
+        </div>;
+    case 'drawing': {
+        const box = getBoundingBox(item);
+        if (!box || box.width <= 0 || box.height <= 0) return null;
+
+        // Make path coordinates relative to the bounding box's top-left corner.
+        const pathData = item.points.map((p, i) => {
+            const relX = p.x - box.x;
+            const relY = p.y - box.y;
+            return (i === 0 ? 'M' : 'L') + `${relX} ${relY}`;
+        }).join(' ');
+
+        const drawingStyle: React.CSSProperties = {
+            ...baseStyle,
+            left: box.x,
+            top: box.y,
+            width: box.width,
+            height: box.height,
+            transform: `rotate(${item.rotation}deg)`,
+            transformOrigin: 'center center',
+            pointerEvents: 'none',
+        };
+
+        return (
+            // Apply itemClass here for consistent selection rings
+            <div key={item.id} style={drawingStyle} className={itemClass}>
+                 <svg 
+                    width="100%" 
+                    height="100%" 
+                    viewBox={`0 0 ${box.width} ${box.height}`} 
+                    style={{ overflow: 'visible' }}
+                >
+                    <path 
+                        d={pathData} 
+                        // Marquee selection is now handled by itemClass on the div.
+                        stroke={isHovered ? '#60A5FA' : item.color} 
+                        strokeWidth={(isHovered ? item.strokeWidth + 2 : item.strokeWidth) / zoom} 
+                        fill="none" 
+                        strokeOpacity={isGhosted ? item.opacity * 0.5 : item.opacity} 
+                        strokeLinecap="round" 
+                        strokeLinejoin="round"
+                    />
+                </svg>
+            </div>
+        );
+    }
+    case 'group':
+        // The group's own outline shows when it is hovered or selected; its children draw themselves.
+        return (
+            <React.Fragment key={item.id}>
+                {item.children.map(child => renderItem(child, isGhosted))}
+                {(isHovered || isMarqueeSelected) && (() => {
+                    const box = getBoundingBox(item);
+                    return <div style={{ position: 'absolute', left: box.x, top: box.y, width: box.width, height: box.height, pointerEvents: 'none' }} className={`border border-dashed ${isHovered ? 'border-blue-400' : 'border-indigo-400'}`} />;
+                })()}
+            </React.Fragment>
+        );
+    case 'frame':
+        return (
+            <React.Fragment key={item.id}>
+                <div style={{ ...baseStyle, left: item.x, top: item.y, width: item.width, height: item.height, overflow: 'hidden' }} className={`bg-gray-800/60 ring-1 ring-gray-600 ${itemClass}`}>
+                    {/* Children keep canvas coordinates, so offset them by the frame's corner. */}
+                    <div style={{ position: 'absolute', left: -item.x, top: -item.y }}>
+                        {item.children.map(child => renderItem(child))}
+                    </div>
+                </div>
+                <div
+                    style={{ position: 'absolute', left: item.x, top: item.y, transform: `scale(${1 / zoom}) translateY(-100%)`, transformOrigin: 'top left', pointerEvents: 'none' }}
+                    className="pb-1 text-xs text-gray-400 whitespace-nowrap"
+                >
+                    {item.name}{item.aspectRatio !== 'custom' ? ` · ${item.aspectRatio}` : ''}
+                </div>
+            </React.Fragment>
+        );
+    default:
+        return null;
+    }
+  };
+
   return (
     <div 
         ref={canvasRef}
@@ -588,90 +798,7 @@ const Canvas: React.FC<CanvasProps> = ({
                     <p>Add an image, text, or drawing to begin</p>
                 </div>
             )}
-            {allItemsToRender.map(item => {
-                const isMarqueeSelected = selectionRect ? isItemInSelection(item, selectionRect) : false;
-                const isHovered = item.id === hoveredItemId && !selectedItemForBox && !selectionRect;
-                const isGhosted = ghostedItemIds.includes(item.id);
-                const isPreview = item.id === previewItem?.id;
-                const isMagicFillTarget = magicFillState.isActive && item.id === magicFillState.targetItemId;
-                const isMagicFillSource = magicFillState.isActive && item.id === magicFillState.sourceItemId;
-
-                let itemClass = 'transition-all duration-150';
-                if (isMarqueeSelected) itemClass += ' ring-2 ring-indigo-500';
-                if (isHovered) itemClass += ' outline outline-2 outline-offset-2 outline-blue-400';
-                if (isPreview) itemClass += ' ring-2 ring-dashed ring-green-400 opacity-90';
-                if (isMagicFillTarget) itemClass += ' ring-4 ring-offset-2 ring-indigo-500 animate-pulse';
-                if (isMagicFillSource) itemClass += ' ring-2 ring-offset-2 ring-green-500';
-
-
-                const baseStyle: React.CSSProperties = { position: 'absolute', transformOrigin: 'center center', opacity: isGhosted ? 0.4 : 1 };
-
-                switch (item.type) {
-                case 'image':
-                    return <img key={item.id} src={item.src} alt={item.prompt} style={{ ...baseStyle, left: item.x, top: item.y, width: item.width, height: item.height, transform: `rotate(${item.rotation}deg)` }} className={`object-contain pointer-events-none ${itemClass}`} />;
-                case 'video':
-                    return <video key={item.id} src={item.src} style={{ ...baseStyle, left: item.x, top: item.y, width: item.width, height: item.height, transform: `rotate(${item.rotation}deg)` }} className={`object-contain pointer-events-none ${itemClass}`} autoPlay loop muted playsInline />;
-                case 'text':
-                    if (editingTextItem?.id === item.id) {
-                    return <textarea
-                        key={item.id} value={item.text} onChange={(e) => handleTextChange(e, item)} onBlur={handleTextBlur} autoFocus
-                        placeholder="Type here..."
-                        style={{ ...baseStyle, left: item.x, top: item.y, width: item.width, height: 'auto', minHeight: item.height, color: item.color, fontSize: `${item.fontSize}px`, textShadow: '0 1px 3px rgba(0,0,0,0.5)', transform: `rotate(${item.rotation}deg)`}}
-                        className="bg-transparent p-2 border-2 border-indigo-500 rounded-md resize-none focus:outline-none"
-                    />
-                    }
-                    return <div key={item.id} style={{ ...baseStyle, left: item.x, top: item.y, width: item.width, height: 'auto', textShadow: '0 1px 3px rgba(0,0,0,0.5)', whiteSpace: 'pre-wrap', wordWrap: 'break-word', color: item.color, fontSize: `${item.fontSize}px`, transform: `rotate(${item.rotation}deg)`}} className={`p-2 ${isGhosted || isPreview ? 'pointer-events-none' : ''} ${itemClass}`}>
-                    {item.text}
-                    </div>;
-                case 'drawing': {
-                    const box = getBoundingBox(item);
-                    if (!box || box.width <= 0 || box.height <= 0) return null;
-
-                    // Make path coordinates relative to the bounding box's top-left corner.
-                    const pathData = item.points.map((p, i) => {
-                        const relX = p.x - box.x;
-                        const relY = p.y - box.y;
-                        return (i === 0 ? 'M' : 'L') + `${relX} ${relY}`;
-                    }).join(' ');
-
-                    const drawingStyle: React.CSSProperties = {
-                        ...baseStyle,
-                        left: box.x,
-                        top: box.y,
-                        width: box.width,
-                        height: box.height,
-                        transform: `rotate(${item.rotation}deg)`,
-                        transformOrigin: 'center center',
-                        pointerEvents: 'none',
-                    };
-
-                    return (
-                        // Apply itemClass here for consistent selection rings
-                        <div key={item.id} style={drawingStyle} className={itemClass}>
-                             <svg 
-                                width="100%" 
-                                height="100%" 
-                                viewBox={`0 0 ${box.width} ${box.height}`} 
-                                style={{ overflow: 'visible' }}
-                            >
-                                <path 
-                                    d={pathData} 
-                                    // Marquee selection is now handled by itemClass on the div.
-                                    stroke={isHovered ? '#60A5FA' : item.color} 
-                                    strokeWidth={(isHovered ? item.strokeWidth + 2 : item.strokeWidth) / zoom} 
-                                    fill="none" 
-                                    strokeOpacity={isGhosted ? item.opacity * 0.5 : item.opacity} 
-                                    strokeLinecap="round" 
-                                    strokeLinejoin="round"
-                                />
-                            </svg>
-                        </div>
-                    );
-                }
-                default:
-                    return null;
-                }
-            })}
+            {allItemsToRender.map(item => renderItem(item))}
 
             {/* Render Magic Fill Mask */}
             {magicFillState.maskDrawing && magicFillState.maskDrawing.points.length > 1 && (() => {
@@ -716,14 +843,47 @@ const Canvas: React.FC<CanvasProps> = ({
             })()}
 
             {selectedItemForBox && interactionMode !== 'selecting' && !selectionRect && !magicFillState.isActive && (
-                <ControlBox box={getBoundingBox(selectedItemForBox)} rotation={selectedItemForBox.rotation} onHandleMouseDown={(e, handle) => handleInteractionStart(e, handle, selectedItemForBox)} />
+                <ControlBox box={getBoundingBox(selectedItemForBox)} rotation={selectedItemForBox.rotation} isRotatable={selectedItemForBox.type !== 'frame'} onHandleMouseDown={(e, handle) => handleInteractionStart(e, handle, selectedItemForBox)} />
+            )}
+
+            {guides.map((guide, i) => (
+                <React.Fragment key={i}>
+                    <div
+                        style={guide.axis === 'x'
+                            ? { position: 'absolute', left: guide.position - 0.5 / zoom, top: guide.start, width: 1 / zoom, height: guide.end - guide.start, pointerEvents: 'none' }
+                            : { position: 'absolute', left: guide.start, top: guide.position - 0.5 / zoom, width: guide.end - guide.start, height: 1 / zoom, pointerEvents: 'none' }}
+                        className="bg-pink-500"
+                    />
+                    {guide.gap && (() => {
+                        const middle = (guide.gap.start + guide.gap.end) / 2;
+                        return (
+                            <div
+                                style={{ position: 'absolute', left: guide.axis === 'x' ? guide.position : middle, top: guide.axis === 'x' ? middle : guide.position, transform: `translate(-50%, -50%) scale(${1 / zoom})`, pointerEvents: 'none' }}
+                                className="px-1 rounded bg-pink-500 text-white text-xs whitespace-nowrap"
+                            >
+                                {Math.round(guide.gap.end - guide.gap.start)}
+                            </div>
+                        );
+                    })()}
+                </React.Fragment>
+            ))}
+
+            {enteredGroup && (() => {
+                const box = getBoundingBox(enteredGroup);
+                return <div style={{ position: 'absolute', left: box.x - 8, top: box.y - 8, width: box.width + 16, height: box.height + 16, pointerEvents: 'none' }} className="border border-dashed border-gray-400 rounded-md" />;
+            })()}
+
+            {groupBox && interactionMode !== 'selecting' && (
+                interactionMode === 'rotatingGroup' && originalItemState
+                    ? <ControlBox box={originalItemState.box} rotation={groupRotation} onHandleMouseDown={handleGroupInteractionStart} />
+                    : <ControlBox box={groupBox} onHandleMouseDown={handleGroupInteractionStart} />
             )}
 
             {expansionState.isActive && expansionState.targetItem && (
                 <ControlBox box={getRotatedBoundingBox(expansionState.targetItem)} isExpansion={true} onHandleMouseDown={handleInteractionStart} />
             )}
 
-            {(selectionRect || transientSelectionRect || expansionGhostRect) && (
+            {((selectionRect && !groupBox) || transientSelectionRect || expansionGhostRect) && (
                 <div 
                 className="absolute border-2 border-dashed border-indigo-500 bg-indigo-500/10 pointer-events-none"
                 style={{ 
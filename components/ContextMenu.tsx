@@ -1,5 +1,5 @@
 import React, { useEffect, useRef } from 'react';
-import { BringToFrontIcon, DuplicateIcon, GenerateIcon, SendToBackIcon, TrashIcon, ExpandIcon, DownloadIcon } from './icons';
+import { BringToFrontIcon, DuplicateIcon, GenerateIcon, SendToBackIcon, TrashIcon, ExpandIcon, DownloadIcon, InfoIcon, LineageIcon, UngroupIcon, PencilIcon } from './icons';
 import { CanvasItem } from '../types';
 
 interface ContextMenuProps {
@@ -13,12 +13,17 @@ interface ContextMenuProps {
     onGenerateImage: () => void;
     onExpand: () => void;
     onDownload: () => void;
+    onExport: () => void;
+    onShowInfo: () => void;
+    onShowLineage: () => void;
+    onUngroup: () => void;
+    onRename: () => void;
     itemType?: CanvasItem['type'];
     isGenerationDisabled?: boolean;
 }
 
 const ContextMenu: React.FC<ContextMenuProps> = ({ 
-    x, y, onClose, onBringToFront, onSendToBack, onDuplicate, onDelete, onGenerateImage, onExpand, onDownload, itemType, isGenerationDisabled = false
+    x, y, onClose, onBringToFront, onSendToBack, onDuplicate, onDelete, onGenerateImage, onExpand, onDownload, onExport, onShowInfo, onShowLineage, onUngroup, onRename, itemType, isGenerationDisabled = false
 }) => {
     const menuRef = useRef<HTMLDivElement>(null);
 
@@ -47,6 +52,32 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
             <ul className="space-y-1">
                 {itemType ? (
                     <>
+                        {(itemType === 'image' || itemType === 'video') && (
+                            <li>
+                                <button onClick={onShowInfo} className={menuItemClass}>
+                                    <InfoIcon className={iconClass} /> Info
+                                </button>
+                            </li>
+                        )}
+                        {itemType === 'group' ? (
+                            <li>
+                                <button onClick={onUngroup} className={menuItemClass}>
+                                    <UngroupIcon className={iconClass} /> Ungroup
+                                </button>
+                            </li>
+                        ) : itemType === 'frame' ? (
+                            <li>
+                                <button onClick={onRename} className={menuItemClass}>
+                                    <PencilIcon className={iconClass} /> Rename
+                                </button>
+                            </li>
+                        ) : (
+                            <li>
+                                <button onClick={onShowLineage} className={menuItemClass}>
+                                    <LineageIcon className={iconClass} /> Lineage
+                                </button>
+                            </li>
+                        )}
                         {itemType === 'image' && (
                             <>
                                 <li>
@@ -84,11 +115,23 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
                         </li>
                     </>
                 ) : (
-                    <li>
-                        <button onClick={onGenerateImage} className={menuItemClass} disabled={isGenerationDisabled}>
-                            <GenerateIcon className={iconClass} /> Generate Image
-                        </button>
-                    </li>
+                    <>
+                        <li>
+                            <button onClick={onGenerateImage} className={menuItemClass} disabled={isGenerationDisabled}>
+                                <GenerateIcon className={iconClass} /> Generate Image
+                            </button>
+                        </li>
+                        <li>
+                            <button onClick={onExport} className={menuItemClass}>
+                                <DownloadIcon className={iconClass} /> Export...
+                            </button>
+                        </li>
+                        <li>
+                            <button onClick={onShowLineage} className={menuItemClass}>
+                                <LineageIcon className={iconClass} /> Lineage
+                            </button>
+                        </li>
+                    </>
                 )}
             </ul>
         </div>
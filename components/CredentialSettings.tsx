@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { CredentialStatus, GenerationProvider } from '../types';
+import { getProviders } from '../services/providers';
+import {
+  getCredential, setCredential, clearCredential, isVaultEncrypted, isVaultLocked, unlockVault, setVaultPassphrase,
+  clearAllCredentials, subscribeToCredentials
+} from '../services/credentialStore';
+
+interface CredentialSettingsProps {
+  credentialStatuses: Record<string, CredentialStatus>;
+  onRecheckCredentials: () => void;
+}
+
+const STATUS_LABELS: Record<CredentialStatus['state'], { text: string, className: string }> = {
+  missing: { text: 'Not set', className: 'text-gray-400' },
+  locked: { text: 'Locked', className: 'text-yellow-400' },
+  checking: { text: 'Checking...', className: 'text-gray-400' },
+  valid: { text: 'Valid', className: 'text-green-400' },
+  invalid: { text: 'Rejected', className: 'text-red-400' },
+  unverified: { text: 'Could not check', className: 'text-yellow-400' },
+};
+
+const inputClass = "flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-500 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50";
+const buttonClass = "px-3 py-2 rounded-md text-sm font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const maskKey = (key: string) => key.length <= 8 ? '••••••••' : `${key.slice(0, 4)}••••${key.slice(-4)}`;
+
+const ProviderKeyRow: React.FC<{
+  provider: GenerationProvider;
+  status?: CredentialStatus;
+  isLocked: boolean;
+  onRecheck: () => void;
+  onError: (message: string | null) => void;
+}> = ({ provider, status, isLocked, onRecheck, onError }) => {
+  const [draftKey, setDraftKey] = useState('');
+  const savedKey = getCredential(provider.id);
+  const statusLabel = status ? STATUS_LABELS[status.state] : null;
+
+  const run = async (action: () => Promise<void>) => {
+    onError(null);
+    try {
+      await action();
+    } catch (e) {
+      onError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label htmlFor={`${provider.id}-api-key`} className="block text-sm text-gray-300">{provider.credentialLabel}</label>
+        {statusLabel && (
+          <span className={`text-xs font-semibold ${statusLabel.className}`} title={status?.message}>{statusLabel.text}</span>
+        )}
+      </div>
+      {savedKey && <p className="text-xs text-gray-500 mb-1">Saved: {maskKey(savedKey)}</p>}
+      <div className="flex items-center gap-2 mt-1">
+        <input
+          id={`${provider.id}-api-key`}
+          type="password"
+          autoComplete="off"
+          value={draftKey}
+          onChange={(e) => setDraftKey(e.target.value)}
+          placeholder={savedKey ? 'Enter a new key to replace it' : 'Paste your key'}
+          disabled={isLocked}
+          className={inputClass}
+        />
+        <button
+          onClick={() => run(async () => { await setCredential(provider.id, draftKey); setDraftKey(''); })}
+          disabled={isLocked || !draftKey.trim()}
+          className={buttonClass}
+        >
+          Save
+        </button>
+        <button onClick={onRecheck} disabled={isLocked || !savedKey} className={buttonClass}>
+          Test
+        </button>
+        <button
+          onClick={() => run(() => clearCredential(provider.id))}
+          disabled={isLocked || !savedKey}
+          className={`${buttonClass} hover:text-red-400`}
+        >
+          Clear
+        </button>
+      </div>
+      {status?.message && status.state !== 'valid' && <p className="text-xs text-gray-500 mt-1">{status.message}</p>}
+    </div>
+  );
+};
+
+const CredentialSettings: React.FC<CredentialSettingsProps> = ({ credentialStatuses, onRecheckCredentials }) => {
+  const [, setRevision] = useState(0);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => subscribeToCredentials(() => setRevision(r => r + 1)), []);
+
+  const providers = getProviders().filter(provider => provider.credentialLabel);
+  if (providers.length === 0) return null;
+
+  const isEncrypted = isVaultEncrypted();
+  const isLocked = isVaultLocked();
+
+  const runVaultAction = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await action();
+      setPassphrase('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleForgetKeys = () => {
+    if (window.confirm('Delete all saved API keys? You will need to enter them again.')) {
+      clearAllCredentials();
+      setPassphrase('');
+      setError(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700 space-y-4">
+      <h3 className="text-lg font-semibold text-white">API Keys</h3>
+      <p className="text-sm text-gray-500">Keys are stored in this browser only and sent directly to each provider.</p>
+
+      {providers.map(provider => (
+        <ProviderKeyRow
+          key={provider.id}
+          provider={provider}
+          status={credentialStatuses[provider.id]}
+          isLocked={isLocked}
+          onRecheck={onRecheckCredentials}
+          onError={setError}
+        />
+      ))}
+
+      <div>
+        <p className="text-sm text-gray-300 mb-1">
+          {isLocked
+            ? 'Your keys are encrypted. Enter your passphrase to unlock them for this session.'
+            : isEncrypted
+              ? 'Your keys are encrypted with a passphrase. You will be asked for it after reloading the page.'
+              : 'Optionally encrypt your keys with a passphrase.'}
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            type="password"
+            autoComplete="off"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && passphrase) runVaultAction(() => isLocked ? unlockVault(passphrase) : setVaultPassphrase(passphrase));
+            }}
+            placeholder={isEncrypted && !isLocked ? 'New passphrase' : 'Passphrase'}
+            className={inputClass}
+          />
+          <button
+            onClick={() => runVaultAction(() => isLocked ? unlockVault(passphrase) : setVaultPassphrase(passphrase))}
+            disabled={!passphrase || isBusy}
+            className={buttonClass}
+          >
+            {isLocked ? 'Unlock' : isEncrypted ? 'Change' : 'Encrypt'}
+          </button>
+          {isEncrypted && !isLocked && (
+            <button onClick={() => runVaultAction(() => setVaultPassphrase(null))} disabled={isBusy} className={buttonClass}>
+              Remove
+            </button>
+          )}
+        </div>
+        {isLocked && (
+          <button onClick={handleForgetKeys} className="text-xs text-gray-500 hover:text-red-400 mt-2">
+            Forgot your passphrase? Delete saved keys
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CredentialSettings;
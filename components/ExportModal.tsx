@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { ExportFormat, ExportOptions, SelectionRect } from '../types';
+import { DownloadIcon, LoadingSpinner } from './icons';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (options: ExportOptions) => Promise<void>;
+  boardBounds: SelectionRect | null;
+  selectionBounds: SelectionRect | null;
+  frameBounds: SelectionRect[];
+}
+
+const FORMATS: { value: ExportFormat, label: string, description: string }[] = [
+    { value: 'png', label: 'PNG', description: 'Lossless image with optional transparency.' },
+    { value: 'jpeg', label: 'JPEG', description: 'Smaller image file; always has a solid background.' },
+    { value: 'webp', label: 'WebP', description: 'Compact image with optional transparency.' },
+    { value: 'svg', label: 'SVG', description: 'Vector file. Text and drawings stay editable; images are embedded.' },
+    { value: 'pdf', label: 'PDF', description: 'Printable document with one page per exported area.' },
+];
+
+const SCALES = [0.5, 1, 2, 3, 4];
+const BACKGROUND_COLORS = ['#111827', '#FFFFFF', '#000000'];
+
+// Formats whose output cannot carry an alpha channel.
+const OPAQUE_FORMATS: ExportFormat[] = ['jpeg', 'pdf'];
+
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, boardBounds, selectionBounds, frameBounds }) => {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [scope, setScope] = useState<ExportOptions['scope']>('board');
+  const [scale, setScale] = useState(2);
+  const [isTransparent, setIsTransparent] = useState(false);
+  const [backgroundColor, setBackgroundColor] = useState(BACKGROUND_COLORS[0]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setScope(selectionBounds ? 'selection' : 'board');
+  }, [isOpen, selectionBounds]);
+
+  if (!isOpen) return null;
+
+  const bounds = scope === 'frames' ? frameBounds[0] ?? null : scope === 'selection' ? selectionBounds : boardBounds;
+  const canBeTransparent = !OPAQUE_FORMATS.includes(format);
+  const background = isTransparent && canBeTransparent ? null : backgroundColor;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport({ format, scope, scale, background });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const optionButtonClass = (isActive: boolean) => `px-3 py-1.5 rounded-md text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isActive ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm z-50 flex items-center justify-center"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 w-full max-w-xl p-6 animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center mb-4">
+          <DownloadIcon className="w-6 h-6 text-indigo-400 mr-3" />
+          <h2 className="text-xl font-bold text-white">Export</h2>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-md font-medium text-gray-200 mb-2">Format</label>
+            <div className="flex flex-wrap gap-2">
+              {FORMATS.map(f => (
+                <button key={f.value} onClick={() => setFormat(f.value)} className={optionButtonClass(format === f.value)}>
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500 mt-2">{FORMATS.find(f => f.value === format)!.description}</p>
+          </div>
+
+          <div>
+            <label className="block text-md font-medium text-gray-200 mb-2">Area</label>
+            <div className="flex gap-2">
+              <button onClick={() => setScope('board')} className={optionButtonClass(scope === 'board')}>
+                Whole board
+              </button>
+              <button
+                onClick={() => setScope('selection')}
+                disabled={!selectionBounds}
+                title={selectionBounds ? undefined : 'Select an area on the canvas first'}
+                className={optionButtonClass(scope === 'selection')}
+              >
+                Selection
+              </button>
+              <button
+                onClick={() => setScope('frames')}
+                disabled={frameBounds.length === 0}
+                title={frameBounds.length > 0 ? undefined : 'Add a frame to the board first'}
+                className={optionButtonClass(scope === 'frames')}
+              >
+                Frames ({frameBounds.length})
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-md font-medium text-gray-200 mb-2">Scale</label>
+            <div className="flex gap-2">
+              {SCALES.map(s => (
+                <button key={s} onClick={() => setScale(s)} className={optionButtonClass(scale === s)}>
+                  {s}x
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500 mt-2">
+              {scope === 'frames'
+                ? `${frameBounds.length} ${format === 'pdf' ? 'pages' : 'files'}, ${Math.round(96 * scale)} DPI`
+                : bounds
+                ? `${Math.round(bounds.width * scale)} × ${Math.round(bounds.height * scale)} px, ${Math.round(96 * scale)} DPI`
+                : 'The board is empty.'}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-md font-medium text-gray-200 mb-2">Background</label>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsTransparent(true)}
+                disabled={!canBeTransparent}
+                title={canBeTransparent ? undefined : `${format.toUpperCase()} does not support transparency`}
+                className={optionButtonClass(background === null)}
+              >
+                Transparent
+              </button>
+              {BACKGROUND_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => { setIsTransparent(false); setBackgroundColor(color); }}
+                  className={`w-8 h-8 rounded-md border-2 transition-transform ${background === color ? 'border-indigo-400 scale-110' : 'border-gray-600'}`}
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+              ))}
+              <input
+                type="color"
+                value={backgroundColor}
+                onChange={(e) => { setIsTransparent(false); setBackgroundColor(e.target.value); }}
+                className="w-8 h-8 bg-transparent border-0 cursor-pointer"
+                title="Custom color"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-8 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!bounds || isExporting}
+            className="flex items-center px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting && <LoadingSpinner className="w-4 h-4 mr-2" />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
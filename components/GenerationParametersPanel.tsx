@@ -0,0 +1,118 @@
+import React from 'react';
+import { GenerationParameters } from '../types';
+import { VARIATION_COUNTS, OUTPUT_SIZES, DEFAULT_GENERATION_PARAMETERS } from '../services/generationService';
+import { ASPECT_RATIOS } from '../utils/geometry';
+
+interface GenerationParametersPanelProps {
+  parameters: GenerationParameters;
+  onChange: (parameters: GenerationParameters) => void;
+  selectionLabel?: string; // Label of the 'selection' aspect ratio, e.g. "Match selection".
+  isAspectRatioLocked?: boolean;
+}
+
+const labelClass = "block text-xs text-gray-400 mb-1";
+const fieldClass = "w-full bg-gray-700 border border-gray-600 rounded-md text-white text-sm px-2 py-1 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const parseOptionalNumber = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() !== '' && Number.isFinite(parsed) ? parsed : null;
+};
+
+const GenerationParametersPanel: React.FC<GenerationParametersPanelProps> = ({ parameters, onChange, selectionLabel = 'Match selection', isAspectRatioLocked = false }) => {
+  const update = (changes: Partial<GenerationParameters>) => onChange({ ...parameters, ...changes });
+
+  return (
+    <div className="grid grid-cols-3 gap-3 text-left">
+      <div>
+        <label htmlFor="param-aspect" className={labelClass}>Aspect ratio</label>
+        <select
+          id="param-aspect"
+          value={parameters.aspectRatio}
+          onChange={(e) => update({ aspectRatio: e.target.value as GenerationParameters['aspectRatio'] })}
+          disabled={isAspectRatioLocked}
+          className={`${fieldClass} disabled:opacity-60`}
+        >
+          <option value="selection">{selectionLabel}</option>
+          {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="param-size" className={labelClass}>Output size</label>
+        <select
+          id="param-size"
+          value={parameters.outputSize}
+          onChange={(e) => update({ outputSize: Number(e.target.value) })}
+          className={fieldClass}
+        >
+          {OUTPUT_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="param-count" className={labelClass}>Variations</label>
+        <select
+          id="param-count"
+          value={parameters.count}
+          onChange={(e) => update({ count: Number(e.target.value) })}
+          className={fieldClass}
+        >
+          {VARIATION_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="param-seed" className={labelClass}>Seed</label>
+        <input
+          id="param-seed"
+          type="number"
+          min={0}
+          step={1}
+          value={parameters.seed ?? ''}
+          onChange={(e) => {
+            const seed = parseOptionalNumber(e.target.value);
+            update({ seed: seed === null ? null : Math.max(0, Math.floor(seed)) });
+          }}
+          placeholder="Random"
+          className={fieldClass}
+        />
+      </div>
+      <div>
+        <label htmlFor="param-guidance" className={labelClass}>Guidance</label>
+        <input
+          id="param-guidance"
+          type="number"
+          min={0}
+          max={30}
+          step={0.5}
+          value={parameters.guidanceScale ?? ''}
+          onChange={(e) => update({ guidanceScale: parseOptionalNumber(e.target.value) })}
+          placeholder="Default"
+          className={fieldClass}
+        />
+      </div>
+      <div className="flex items-end">
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_GENERATION_PARAMETERS)}
+          className="w-full px-2 py-1 rounded-md text-xs font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+      <div className="col-span-3">
+        <label htmlFor="param-negative" className={labelClass}>Negative prompt</label>
+        <input
+          id="param-negative"
+          type="text"
+          value={parameters.negativePrompt}
+          onChange={(e) => update({ negativePrompt: e.target.value })}
+          placeholder="What to keep out of the image, e.g. text, watermarks, blur"
+          className={fieldClass}
+        />
+      </div>
+      <p className="col-span-3 text-xs text-gray-500">
+        Models ignore settings they do not support. With a fixed seed, variation N uses seed + N - 1.
+      </p>
+    </div>
+  );
+};
+
+export default GenerationParametersPanel;
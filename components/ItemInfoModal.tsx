@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { CanvasItem, GenerationKind, GenerationParameters, ImageItem, ModelChoice, VideoItem } from '../types';
+import { InfoIcon, RefreshIcon } from './icons';
+import { describeModelChoice, getModelChoices, modelChoiceKey, parseModelChoiceKey } from '../services/providers';
+import { parametersFromRecord } from '../services/generationService';
+import GenerationParametersPanel from './GenerationParametersPanel';
+
+interface ItemInfoModalProps {
+  item: ImageItem | VideoItem | null; // The modal is open while this is set.
+  items: CanvasItem[];
+  onClose: () => void;
+  onRegenerate: (item: ImageItem, prompt: string, model: ModelChoice, parameters: GenerationParameters) => void;
+  isRegenerationDisabled?: boolean;
+}
+
+const KIND_LABELS: Record<GenerationKind, string> = {
+  'image': 'Image generation',
+  'magic-fill': 'Magic Fill',
+  'expand': 'Generative Expand',
+  'video': 'Video generation',
+};
+
+const describeItem = (item: CanvasItem | undefined): string => {
+  if (!item) return 'deleted';
+  switch (item.type) {
+    case 'image':
+    case 'video':
+      return item.prompt;
+    case 'text':
+      return `Text: "${item.text}"`;
+    case 'drawing':
+      return 'Drawing';
+  }
+};
+
+const formatTime = (time: number) => time > 0 ? new Date(time).toLocaleString() : 'Unknown';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <dt className="text-xs uppercase tracking-wide text-gray-500">{label}</dt>
+    <dd className="text-sm text-gray-200 break-words">{children}</dd>
+  </div>
+);
+
+const ItemInfoModal: React.FC<ItemInfoModalProps> = ({ item, items, onClose, onRegenerate, isRegenerationDisabled = false }) => {
+  const record = item?.generation;
+  const [isTweaking, setIsTweaking] = useState(false);
+  const [prompt, setPrompt] = useState('');
+  const [model, setModel] = useState<ModelChoice | null>(null);
+  const [parameters, setParameters] = useState<GenerationParameters | null>(null);
+
+  useEffect(() => {
+    setIsTweaking(false);
+    setPrompt(item?.prompt ?? '');
+    setModel(record?.model ?? null);
+    setParameters(record?.parameters ? parametersFromRecord(record.parameters) : null);
+  }, [item, record]);
+
+  if (!item) return null;
+
+  // Only prompt-driven images can be re-run; the masks and crops behind the other kinds are not kept.
+  const canRegenerate = item.type === 'image' && record?.kind === 'image' && !!record.parameters;
+  const availableModels = record ? getModelChoices(record.sourceItemIds.length > 0 ? 'canvasToImage' : 'textToImage') : [];
+
+  const handleRegenerate = () => {
+    if (!canRegenerate || !record?.parameters) return;
+    if (isTweaking && model && parameters) {
+      onRegenerate(item, prompt.trim() || item.prompt, model, parameters);
+    } else {
+      onRegenerate(item, item.prompt, record.model, parametersFromRecord(record.parameters));
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm z-50 flex items-center justify-center"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center mb-4">
+          <InfoIcon className="w-6 h-6 text-indigo-400 mr-3" />
+          <h2 className="text-xl font-bold text-white">Info</h2>
+        </div>
+
+        {!record ? (
+          <p className="text-gray-400">
+            "{item.prompt}" was not generated on this canvas, or was generated before NanoCanvas recorded how items were made.
+          </p>
+        ) : (
+          <div className="flex gap-6">
+            <dl className="flex-1 space-y-3">
+              <Field label="Made with">{KIND_LABELS[record.kind]}</Field>
+              <Field label="Prompt as typed">{record.userPrompt || <span className="text-gray-500">None; the canvas was interpreted.</span>}</Field>
+              {record.interpretedPrompt !== null && (
+                <Field label="Interpreted prompt">{record.interpretedPrompt}</Field>
+              )}
+              <Field label="Model">{describeModelChoice(record.model)}</Field>
+              {record.interpretationModel && (
+                <Field label="Interpreted by">{describeModelChoice(record.interpretationModel)}</Field>
+              )}
+              {record.parameters && (
+                <Field label="Parameters">
+                  {record.parameters.aspectRatio}, {record.parameters.outputSize}px{record.parameters.seed !== undefined && `, seed ${record.parameters.seed}`}
+                  {record.parameters.guidanceScale !== undefined && `, guidance ${record.parameters.guidanceScale}`}
+                  {record.parameters.negativePrompt && <><br />Avoid: {record.parameters.negativePrompt}</>}
+                </Field>
+              )}
+              <Field label="Sources">
+                {record.sourceItemIds.length === 0 ? 'None' : (
+                  <ul className="list-disc list-inside">
+                    {record.sourceItemIds.map(id => (
+                      <li key={id}>{describeItem(items.find(i => i.id === id))}</li>
+                    ))}
+                  </ul>
+                )}
+              </Field>
+              {record.regeneratedFrom && (
+                <Field label="Regenerated from">{describeItem(items.find(i => i.id === record.regeneratedFrom))}</Field>
+              )}
+              <Field label="Generated">
+                {formatTime(record.completedAt)}
+                {record.startedAt > 0 && ` (took ${Math.round((record.completedAt - record.startedAt) / 1000)} s)`}
+              </Field>
+              <Field label="Task"><span className="font-mono text-xs">{record.taskId || 'Unknown'}</span></Field>
+            </dl>
+            {record.snapshotSrc && (
+              <div className="w-48 flex-shrink-0">
+                <div className="text-xs uppercase tracking-wide text-gray-500 mb-1">Snapshot sent</div>
+                <img src={record.snapshotSrc} alt="Canvas snapshot sent with the request" className="w-full rounded-md border border-gray-700 bg-gray-900" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {isTweaking && model && parameters && (
+          <div className="mt-6 pt-4 border-t border-gray-700 space-y-3">
+            <div>
+              <label htmlFor="regenerate-prompt" className="block text-xs text-gray-400 mb-1">Prompt</label>
+              <textarea
+                id="regenerate-prompt"
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                rows={3}
+                className="w-full bg-gray-900 border border-gray-600 rounded-lg text-white text-sm px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="regenerate-model" className="text-xs text-gray-400 mr-2">Model:</label>
+              <select
+                id="regenerate-model"
+                value={modelChoiceKey(model)}
+                onChange={(e) => setModel(parseModelChoiceKey(e.target.value))}
+                className="bg-gray-700 border border-gray-600 rounded-md text-white text-sm px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {availableModels.map(choice => (
+                  <option key={modelChoiceKey(choice)} value={modelChoiceKey(choice)}>{describeModelChoice(choice)}</option>
+                ))}
+              </select>
+            </div>
+            <GenerationParametersPanel parameters={parameters} onChange={setParameters} selectionLabel="Match this item" />
+          </div>
+        )}
+
+        <div className="mt-8 flex items-center justify-end space-x-3">
+          {record && !canRegenerate && (
+            <p className="flex-1 text-xs text-gray-500">Only images generated from a prompt or a selection can be regenerated.</p>
+          )}
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Close
+          </button>
+          {canRegenerate && !isTweaking && (
+            <button
+              onClick={() => setIsTweaking(true)}
+              className="px-6 py-2 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Tweak...
+            </button>
+          )}
+          {canRegenerate && (
+            <button
+              onClick={handleRegenerate}
+              disabled={isRegenerationDisabled}
+              title={isTweaking ? 'Regenerate with the settings above' : 'Regenerate with the same prompt, model, seed and snapshot'}
+              className="flex items-center px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshIcon className="w-4 h-4 mr-2" />
+              {isTweaking ? 'Regenerate with tweaks' : 'Regenerate'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ItemInfoModal;
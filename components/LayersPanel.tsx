@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { CanvasItem } from '../types';
+import { getBoundingBox } from '../utils/geometry';
+import { isContainer } from '../utils/groups';
+import { EyeIcon, EyeOffIcon, FrameIcon, LayersIcon, LockIcon, LockOpenIcon, XIcon } from './icons';
+
+interface LayersPanelProps {
+  items: CanvasItem[];
+  selectedItemIds: string[];
+  isOpen: boolean;
+  onClose: () => void;
+  left: number; // Width of the open boards sidebar, if any. The panel also stays clear of its toggle button.
+  onSelect: (item: CanvasItem, isAdditive: boolean) => void;
+  onToggleHidden: (id: string) => void;
+  onToggleLocked: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (id: string, targetId: string, place: 'above' | 'below') => void;
+}
+
+// The drag data type of a row, so that dropping a row on the canvas is not taken for a file drop.
+const LAYER_DRAG_TYPE = 'application/x-nanocanvas-layer';
+const INDENT = 16;
+
+const getLayerLabel = (item: CanvasItem): string => {
+    if (item.name) return item.name;
+    switch (item.type) {
+        case 'image': return item.prompt || 'Image';
+        case 'video': return item.prompt || 'Video';
+        case 'text': return item.text.trim() || 'Text';
+        case 'drawing': return 'Drawing';
+        case 'group': return `Group (${item.children.length})`;
+        case 'frame': return item.name;
+    }
+};
+
+const LayerThumbnail: React.FC<{ item: CanvasItem }> = ({ item }) => {
+    const boxClass = "w-8 h-8 flex-shrink-0 rounded bg-gray-800 border border-gray-700 flex items-center justify-center overflow-hidden";
+    switch (item.type) {
+        case 'image':
+            return <div className={boxClass}><img src={item.thumbnailSrc ?? item.src} alt="" draggable={false} className="w-full h-full object-cover" /></div>;
+        case 'video':
+            return <div className={boxClass}><video src={item.src} className="w-full h-full object-cover" muted /></div>;
+        case 'text':
+            return <div className={`${boxClass} text-sm font-bold`} style={{ color: item.color }}>T</div>;
+        case 'drawing': {
+            const box = getBoundingBox(item);
+            const pathData = item.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x - box.x} ${p.y - box.y}`).join(' ');
+            return (
+                <div className={boxClass}>
+                    <svg className="w-6 h-6" viewBox={`0 0 ${Math.max(box.width, 1)} ${Math.max(box.height, 1)}`} preserveAspectRatio="xMidYMid meet">
+                        <path d={pathData} stroke={item.color} strokeWidth={Math.max(box.width, box.height) / 8} fill="none" strokeLinecap="round" strokeLinejoin="round" />
+                    </svg>
+                </div>
+            );
+        }
+        case 'group':
+            return <div className={`${boxClass} text-gray-400`}><LayersIcon className="w-4 h-4" /></div>;
+        case 'frame':
+            return <div className={`${boxClass} text-gray-400`}><FrameIcon className="w-4 h-4" /></div>;
+    }
+};
+
+const LayerRow: React.FC<{
+    item: CanvasItem;
+    depth: number;
+    isSelected: boolean;
+    isInHiddenContainer: boolean;
+    dropPlace: 'above' | 'below' | null;
+    onSelect: (isAdditive: boolean) => void;
+    onToggleHidden: () => void;
+    onToggleLocked: () => void;
+    onRename: (name: string) => void;
+    onDragStart: () => void;
+    onDragOver: (place: 'above' | 'below') => void;
+    onDrop: () => void;
+    onDragEnd: () => void;
+}> = ({ item, depth, isSelected, isInHiddenContainer, dropPlace, onSelect, onToggleHidden, onToggleLocked, onRename, onDragStart, onDragOver, onDrop, onDragEnd }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draftName, setDraftName] = useState('');
+
+    const startEditing = () => {
+        setDraftName(getLayerLabel(item));
+        setIsEditing(true);
+    };
+
+    const commitRename = () => {
+        onRename(draftName.trim());
+        setIsEditing(false);
+    };
+
+    const actionButtonClass = "p-1 rounded-md text-gray-400 hover:bg-gray-600 hover:text-white transition-colors";
+
+    return (
+        <li
+            draggable={!isEditing}
+            onDragStart={(e) => {
+                e.dataTransfer.setData(LAYER_DRAG_TYPE, item.id);
+                e.dataTransfer.effectAllowed = 'move';
+                onDragStart();
+            }}
+            onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes(LAYER_DRAG_TYPE)) return;
+                e.preventDefault();
+                e.stopPropagation();
+                const rect = e.currentTarget.getBoundingClientRect();
+                // The list runs top to bottom, so the upper half of a row puts the item above it.
+                onDragOver(e.clientY < rect.top + rect.height / 2 ? 'above' : 'below');
+            }}
+            onDrop={(e) => {
+                if (!e.dataTransfer.types.includes(LAYER_DRAG_TYPE)) return;
+                e.preventDefault();
+                e.stopPropagation();
+                onDrop();
+            }}
+            onDragEnd={onDragEnd}
+            onClick={(e) => !isEditing && onSelect(e.shiftKey || e.metaKey || e.ctrlKey)}
+            className={`group relative flex items-center rounded-md pr-2 py-1 border cursor-pointer transition-colors ${isSelected ? 'bg-indigo-600/30 border-indigo-500' : 'border-transparent hover:bg-gray-800'}`}
+            style={{ paddingLeft: 8 + depth * INDENT }}
+        >
+            {dropPlace && <div className={`absolute left-0 right-0 h-0.5 bg-indigo-400 pointer-events-none ${dropPlace === 'above' ? 'top-0' : 'bottom-0'}`} />}
+            <div className={`flex items-center flex-grow min-w-0 ${item.isHidden || isInHiddenContainer ? 'opacity-40' : ''}`}>
+                <LayerThumbnail item={item} />
+                {isEditing ? (
+                    <input
+                        type="text"
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                            e.stopPropagation();
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setIsEditing(false);
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="ml-2 flex-grow min-w-0 bg-gray-900 border border-gray-600 rounded-md text-white text-sm px-2 py-0.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        autoFocus
+                    />
+                ) : (
+                    <span onDoubleClick={startEditing} title="Double-click to rename" className={`ml-2 text-sm truncate ${isSelected ? 'text-white' : 'text-gray-300'}`}>
+                        {getLayerLabel(item)}
+                    </span>
+                )}
+            </div>
+            {!isEditing && (
+                <div className={`flex items-center space-x-1 ml-2 transition-opacity ${item.isHidden || item.isLocked ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                    <button onClick={(e) => { e.stopPropagation(); onToggleLocked(); }} title={item.isLocked ? 'Unlock' : 'Lock'} className={actionButtonClass}>
+                        {item.isLocked ? <LockIcon className="w-4 h-4" /> : <LockOpenIcon className="w-4 h-4" />}
+                    </button>
+                    <button onClick={(e) => { e.stopPropagation(); onToggleHidden(); }} title={item.isHidden ? 'Show' : 'Hide'} className={actionButtonClass}>
+                        {item.isHidden ? <EyeOffIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
+                    </button>
+                </div>
+            )}
+        </li>
+    );
+};
+
+/**
+ * Lists every item, topmost first, with the children of groups and frames indented under them.
+ * Rows can be dragged above or below other rows, including into and out of groups and frames.
+ */
+const LayersPanel: React.FC<LayersPanelProps> = ({
+    items, selectedItemIds, isOpen, onClose, left, onSelect, onToggleHidden, onToggleLocked, onRename, onMove
+}) => {
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<{ id: string; place: 'above' | 'below' } | null>(null);
+
+    if (!isOpen) return null;
+
+    const endDrag = () => {
+        setDraggedId(null);
+        setDropTarget(null);
+    };
+
+    const renderRows = (list: CanvasItem[], depth: number, isInHiddenContainer: boolean): React.ReactNode[] => {
+        return [...list].reverse().flatMap(item => [
+            <LayerRow
+                key={item.id}
+                item={item}
+                depth={depth}
+                isSelected={selectedItemIds.includes(item.id)}
+                isInHiddenContainer={isInHiddenContainer}
+                dropPlace={dropTarget?.id === item.id ? dropTarget.place : null}
+                onSelect={(isAdditive) => onSelect(item, isAdditive)}
+                onToggleHidden={() => onToggleHidden(item.id)}
+                onToggleLocked={() => onToggleLocked(item.id)}
+                onRename={(name) => onRename(item.id, name)}
+                onDragStart={() => setDraggedId(item.id)}
+                onDragOver={(place) => {
+                    if (draggedId && draggedId !== item.id) setDropTarget({ id: item.id, place });
+                }}
+                onDrop={() => {
+                    if (draggedId && dropTarget) onMove(draggedId, dropTarget.id, dropTarget.place);
+                    endDrag();
+                }}
+                onDragEnd={endDrag}
+            />,
+            ...(isContainer(item) ? renderRows(item.children, depth + 1, isInHiddenContainer || !!item.isHidden) : []),
+        ]);
+    };
+
+    return (
+        <div
+            className="absolute top-20 z-20 w-72 max-h-[40vh] flex flex-col bg-gray-900/80 backdrop-blur-xl border border-gray-700 rounded-xl shadow-2xl animate-fade-in-up transition-[left] duration-300"
+            style={{ left: left + 48 }}
+        >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+                <div className="flex items-center">
+                    <LayersIcon className="w-5 h-5 mr-2 text-indigo-400" />
+                    <h2 className="text-md font-semibold">Layers</h2>
+                </div>
+                <button onClick={onClose} title="Close Layers" className="p-1 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white transition-colors">
+                    <XIcon className="w-4 h-4" />
+                </button>
+            </div>
+            {items.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500">The board is empty.</p>
+            ) : (
+                <ul className="flex-grow p-2 space-y-0.5 overflow-y-auto" onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null); }}>
+                    {renderRows(items, 0, false)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default LayersPanel;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CanvasItem, LineageEdge, LineageNode } from '../types';
+import { buildLineageGraph } from '../utils/lineage';
+import { LineageIcon, VideoIcon } from './icons';
+
+interface LineageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: CanvasItem[];
+  archivedItems: CanvasItem[];
+  focusId: string | null; // Show only this item's ancestors and descendants.
+  onShowFocusAll: () => void;
+  onJumpTo: (item: CanvasItem) => void;
+  onRestore: (item: CanvasItem) => void;
+}
+
+const NODE_WIDTH = 128;
+const NODE_HEIGHT = 128;
+const COLUMN_GAP = 72;
+const ROW_GAP = 24;
+const PADDING = 16;
+
+const EDGE_COLORS: Record<LineageEdge['kind'], string> = {
+  'image': '#818cf8',
+  'magic-fill': '#f472b6',
+  'expand': '#34d399',
+  'video': '#fbbf24',
+  'regenerate': '#9ca3af',
+};
+
+const EDGE_LABELS: Record<LineageEdge['kind'], string> = {
+  'image': 'Generated',
+  'magic-fill': 'Magic Fill',
+  'expand': 'Expanded',
+  'video': 'Animated',
+  'regenerate': 'Regenerated',
+};
+
+const describeNode = (node: LineageNode): string => {
+  const item = node.item;
+  if (!item) return 'Unavailable';
+  switch (item.type) {
+    case 'image':
+    case 'video':
+      return item.prompt;
+    case 'text':
+      return item.text;
+    case 'drawing':
+      return 'Drawing';
+  }
+};
+
+const NodePreview: React.FC<{ item: CanvasItem | null }> = ({ item }) => {
+  if (item?.type === 'image') {
+    return <img src={item.thumbnailSrc ?? item.src} alt={item.prompt} className="w-full h-full object-contain" />;
+  }
+  if (item?.type === 'video') {
+    return <VideoIcon className="w-8 h-8 text-gray-400" />;
+  }
+  if (item?.type === 'text') {
+    return <span className="px-2 text-xs text-center line-clamp-3" style={{ color: item.color }}>{item.text}</span>;
+  }
+  if (item?.type === 'drawing') {
+    return <span className="w-8 h-1 rounded-full" style={{ backgroundColor: item.color }} />;
+  }
+  return <span className="text-xs text-gray-500">?</span>;
+};
+
+const LineageModal: React.FC<LineageModalProps> = ({ isOpen, onClose, items, archivedItems, focusId, onShowFocusAll, onJumpTo, onRestore }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setSelectedId(focusId);
+  }, [isOpen, focusId]);
+
+  const graph = useMemo(
+    () => isOpen ? buildLineageGraph(items, archivedItems, focusId ?? undefined) : { nodes: [], edges: [] },
+    [isOpen, items, archivedItems, focusId]
+  );
+
+  // Lay the graph out in columns by generation depth, in the order the items were created.
+  const positions = useMemo(() => {
+    const rowsByDepth = new Map<number, number>();
+    return new Map(graph.nodes.map(node => {
+      const row = rowsByDepth.get(node.depth) ?? 0;
+      rowsByDepth.set(node.depth, row + 1);
+      return [node.id, {
+        x: PADDING + node.depth * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      }];
+    }));
+  }, [graph]);
+
+  if (!isOpen) return null;
+
+  const width = Math.max(0, ...Array.from(positions.values()).map(p => p.x + NODE_WIDTH + PADDING));
+  const height = Math.max(0, ...Array.from(positions.values()).map(p => p.y + NODE_HEIGHT + PADDING));
+  const selected = graph.nodes.find(node => node.id === selectedId) ?? null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm z-50 flex items-center justify-center"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 w-full max-w-5xl p-6 animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center mb-4">
+          <LineageIcon className="w-6 h-6 text-indigo-400 mr-3" />
+          <h2 className="text-xl font-bold text-white">Lineage</h2>
+          {focusId && (
+            <button onClick={onShowFocusAll} className="ml-auto text-sm text-indigo-400 hover:text-indigo-300">
+              Show the whole board
+            </button>
+          )}
+        </div>
+
+        {graph.nodes.length === 0 ? (
+          <p className="text-gray-400 py-8 text-center">
+            {focusId ? 'This item was not generated from other items, and nothing was generated from it.' : 'Nothing on this board was generated from other items yet.'}
+          </p>
+        ) : (
+          <div className="overflow-auto max-h-[60vh] bg-gray-900/60 rounded-lg border border-gray-700">
+            <div className="relative" style={{ width, height }}>
+              <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+                {graph.edges.map(edge => {
+                  const from = positions.get(edge.from);
+                  const to = positions.get(edge.to);
+                  if (!from || !to) return null;
+                  const x1 = from.x + NODE_WIDTH, y1 = from.y + NODE_HEIGHT / 2;
+                  const x2 = to.x, y2 = to.y + NODE_HEIGHT / 2;
+                  const bend = COLUMN_GAP / 2;
+                  return (
+                    <path
+                      key={`${edge.from}-${edge.to}-${edge.kind}`}
+                      d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                      fill="none"
+                      stroke={EDGE_COLORS[edge.kind]}
+                      strokeWidth={2}
+                      strokeDasharray={edge.kind === 'regenerate' ? '4 4' : undefined}
+                    />
+                  );
+                })}
+              </svg>
+              {graph.nodes.map(node => {
+                const position = positions.get(node.id)!;
+                const isSelected = node.id === selectedId;
+                return (
+                  <button
+                    key={node.id}
+                    onClick={() => setSelectedId(node.id)}
+                    title={describeNode(node)}
+                    className={`absolute flex flex-col rounded-lg border-2 bg-gray-800 overflow-hidden text-left transition-colors ${isSelected ? 'border-indigo-400' : 'border-gray-700 hover:border-gray-500'} ${node.isOnCanvas ? '' : 'opacity-60 border-dashed'}`}
+                    style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                  >
+                    <div className="flex-1 flex items-center justify-center bg-gray-900 min-h-0">
+                      <NodePreview item={node.item} />
+                    </div>
+                    <div className="px-2 py-1 text-xs text-gray-300 truncate">
+                      {!node.isOnCanvas && <span className="text-red-400 mr-1">{node.item ? 'Deleted' : 'Missing'}</span>}
+                      {describeNode(node)}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
+          {(Object.keys(EDGE_LABELS) as LineageEdge['kind'][]).map(kind => (
+            <span key={kind} className="flex items-center">
+              <span className="inline-block w-4 h-0.5 mr-1" style={{ backgroundColor: EDGE_COLORS[kind] }} />
+              {EDGE_LABELS[kind]}
+            </span>
+          ))}
+        </div>
+
+        <div className="mt-6 flex items-center justify-end space-x-3">
+          {selected && (
+            <p className="flex-1 text-sm text-gray-300 truncate">{describeNode(selected)}</p>
+          )}
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Close
+          </button>
+          {selected?.isOnCanvas && (
+            <button
+              onClick={() => onJumpTo(selected.item!)}
+              className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-500 transition-colors"
+            >
+              Show on canvas
+            </button>
+          )}
+          {selected && !selected.isOnCanvas && selected.item && (
+            <button
+              onClick={() => onRestore(selected.item!)}
+              className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-500 transition-colors"
+            >
+              Restore to canvas
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LineageModal;
@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ImageItem, Point } from '../types';
 import { SendIcon } from './icons';
+import PromptLibraryPicker from './PromptLibraryPicker';
 
 interface MagicFillPromptProps {
   targetItem: ImageItem;
@@ -14,6 +15,7 @@ interface MagicFillPromptProps {
 const MagicFillPrompt: React.FC<MagicFillPromptProps> = ({ targetItem, sourceItem, onSubmit, onCancel, zoom, pan }) => {
   const [prompt, setPrompt] = useState('');
   const [position, setPosition] = useState({ top: 0, left: 0, width: 0 });
+  const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const barWidth = Math.max(250, Math.min(400, targetItem.width * zoom));
@@ -53,6 +55,7 @@ const MagicFillPrompt: React.FC<MagicFillPromptProps> = ({ targetItem, sourceIte
         </div>
       )}
       <input
+        ref={inputRef}
         type="text"
         value={prompt}
         onChange={(e) => setPrompt(e.target.value)}
@@ -63,6 +66,7 @@ const MagicFillPrompt: React.FC<MagicFillPromptProps> = ({ targetItem, sourceIte
             if (e.key === 'Escape') onCancel();
         }}
       />
+      <PromptLibraryPicker value={prompt} onChange={setPrompt} inputRef={inputRef} buttonClassName="p-2 mr-1 rounded-lg text-gray-300 hover:bg-gray-700" />
       <button
         type="submit"
         title="Generate"
@@ -1,16 +1,43 @@
-import React from 'react';
+import React, { useState, useMemo } from 'react';
 import { GenerationTask } from '../types';
-import { LoadingSpinner, ChevronDoubleLeftIcon, ChevronDoubleRightIcon, GenerateIcon, SettingsIcon, SaveIcon } from './icons';
+import { describeModelChoice } from '../services/providers';
+import { TaskExportFormat } from '../utils/taskExport';
+import { LoadingSpinner, ChevronDoubleLeftIcon, ChevronDoubleRightIcon, GenerateIcon, SettingsIcon, SaveIcon, DownloadIcon, XIcon, RefreshIcon, ChartIcon } from './icons';
 
 interface ProgressPanelProps {
   tasks: GenerationTask[];
   isOpen: boolean;
   onToggle: () => void;
   onShowSettings: () => void;
+  onShowUsage: () => void;
   onSave: () => void;
+  onExport: () => void;
+  onCancelTask: (taskId: string) => void;
+  onRetryTask: (taskId: string) => void;
+  canRetryTask: (taskId: string) => boolean;
+  onClearCompleted: () => void;
+  onExportTasks: (tasks: GenerationTask[], format: TaskExportFormat) => void;
   hasUnsavedChanges: boolean;
 }
 
+type TypeFilter = 'all' | GenerationTask['type'];
+type StatusFilter = 'all' | 'active' | 'completed' | 'error' | 'cancelled';
+
+const TYPE_FILTER_LABELS: Record<TypeFilter, string> = {
+    'all': 'All types',
+    'standard': 'Image',
+    'magic-fill': 'Magic Fill',
+    'video': 'Video',
+};
+
+const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
+    'all': 'Any status',
+    'active': 'Running',
+    'completed': 'Completed',
+    'error': 'Failed',
+    'cancelled': 'Cancelled',
+};
+
 const getTaskTitle = (task: GenerationTask) => {
     const taskId = task.id.split('_')[1];
     switch (task.type) {
@@ -24,15 +51,43 @@ const getTaskTitle = (task: GenerationTask) => {
     }
 }
 
-const TaskLog: React.FC<{ task: GenerationTask }> = ({ task }) => (
+const isTaskActive = (task: GenerationTask) => task.status === 'queued' || task.status === 'interpreting' || task.status === 'generating';
+
+const matchesStatus = (task: GenerationTask, filter: StatusFilter) => filter === 'all' || (filter === 'active' ? isTaskActive(task) : task.status === filter);
+
+/** Searches the title, the prompt, the model and every log message. */
+const matchesSearch = (task: GenerationTask, query: string) => {
+    if (!query) return true;
+    const haystack = [
+        getTaskTitle(task),
+        task.prompt ?? '',
+        task.model ? describeModelChoice(task.model) : '',
+        ...task.log.map(entry => entry.message),
+    ].join('\n').toLowerCase();
+    return haystack.includes(query.toLowerCase());
+};
+
+const TaskLog: React.FC<{ task: GenerationTask; onCancel: () => void; onRetry?: () => void }> = ({ task, onCancel, onRetry }) => (
     <div className="bg-gray-800/50 rounded-lg p-3 mb-3 border border-gray-700">
         <div className="flex items-center mb-2">
             {task.status === 'generating' || task.status === 'interpreting' ? (
                 <LoadingSpinner className="w-5 h-5 mr-2 text-indigo-400" />
             ) : (
-                <GenerateIcon className={`w-5 h-5 mr-2 ${task.status === 'error' ? 'text-red-500' : 'text-green-500'}`} />
+                <GenerateIcon className={`w-5 h-5 mr-2 ${task.status === 'error' ? 'text-red-500' : task.status === 'completed' ? 'text-green-500' : 'text-gray-500'}`} />
             )}
             <h3 className="font-bold text-md text-gray-200">{getTaskTitle(task)}</h3>
+            {task.status === 'queued' && <span className="ml-2 text-xs text-gray-400">Queued</span>}
+            {task.status === 'cancelled' && <span className="ml-2 text-xs text-gray-400">Cancelled</span>}
+            {isTaskActive(task) && (
+                <button onClick={onCancel} title="Cancel this task" className="ml-auto p-1 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white transition-colors">
+                    <XIcon className="w-4 h-4" />
+                </button>
+            )}
+            {onRetry && (task.status === 'error' || task.status === 'cancelled') && (
+                <button onClick={onRetry} title="Run this task again" className="ml-auto p-1 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white transition-colors">
+                    <RefreshIcon className="w-4 h-4" />
+                </button>
+            )}
         </div>
         <div className="space-y-1.5 text-sm">
             {task.log.map((entry, index) => (
@@ -41,7 +96,7 @@ const TaskLog: React.FC<{ task: GenerationTask }> = ({ task }) => (
                         {entry.message}
                     </p>}
                     {entry.type === 'status' && <p className="italic">{entry.message}</p>}
-                    {entry.type === 'result' && <p className={`font-semibold ${task.status === 'error' ? 'text-red-400' : 'text-green-400'}`}>
+                    {entry.type === 'result' && <p className={`font-semibold ${task.status === 'error' ? 'text-red-400' : task.status === 'cancelled' ? 'text-gray-400' : 'text-green-400'}`}>
                        &raquo; {entry.message}
                     </p>}
                 </div>
@@ -50,7 +105,17 @@ const TaskLog: React.FC<{ task: GenerationTask }> = ({ task }) => (
     </div>
 );
 
-const ProgressPanel: React.FC<ProgressPanelProps> = ({ tasks, isOpen, onToggle, onShowSettings, onSave, hasUnsavedChanges }) => {
+const ProgressPanel: React.FC<ProgressPanelProps> = ({ tasks, isOpen, onToggle, onShowSettings, onShowUsage, onSave, onExport, onCancelTask, onRetryTask, canRetryTask, onClearCompleted, onExportTasks, hasUnsavedChanges }) => {
+    const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+    const [search, setSearch] = useState('');
+
+    const visibleTasks = useMemo(
+        () => tasks.filter(task => (typeFilter === 'all' || task.type === typeFilter) && matchesStatus(task, statusFilter) && matchesSearch(task, search.trim())),
+        [tasks, typeFilter, statusFilter, search]
+    );
+    const hasCompletedTasks = tasks.some(task => task.status === 'completed');
+
     return (
         <>
             <button
@@ -90,6 +155,20 @@ const ProgressPanel: React.FC<ProgressPanelProps> = ({ tasks, isOpen, onToggle,
                                     <span className="absolute top-1 right-1 block h-2 w-2 rounded-full bg-indigo-400 pulse-indicator" />
                                 )}
                             </div>
+                            <button
+                                onClick={onExport}
+                                title="Export (Ctrl+Shift+E)"
+                                className="p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white transition-colors"
+                            >
+                                <DownloadIcon className="w-5 h-5" />
+                            </button>
+                            <button
+                                onClick={onShowUsage}
+                                title="Usage and costs"
+                                className="p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white transition-colors"
+                            >
+                                <ChartIcon className="w-5 h-5" />
+                            </button>
                             <button 
                                 onClick={onShowSettings} 
                                 title="Model Settings"
@@ -99,15 +178,84 @@ const ProgressPanel: React.FC<ProgressPanelProps> = ({ tasks, isOpen, onToggle,
                             </button>
                         </div>
                     </div>
+                    {tasks.length > 0 && (
+                        <div className="p-4 pb-0 space-y-2">
+                            <input
+                                type="search"
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Search prompts and logs..."
+                                className="w-full bg-gray-800 border border-gray-600 rounded-md text-white text-sm placeholder-gray-500 px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                            <div className="flex items-center space-x-2">
+                                <select
+                                    value={typeFilter}
+                                    onChange={(e) => setTypeFilter(e.target.value as TypeFilter)}
+                                    aria-label="Filter by type"
+                                    className="flex-1 bg-gray-800 border border-gray-600 rounded-md text-white text-sm px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {(Object.keys(TYPE_FILTER_LABELS) as TypeFilter[]).map(filter => (
+                                        <option key={filter} value={filter}>{TYPE_FILTER_LABELS[filter]}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={statusFilter}
+                                    onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                                    aria-label="Filter by status"
+                                    className="flex-1 bg-gray-800 border border-gray-600 rounded-md text-white text-sm px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {(Object.keys(STATUS_FILTER_LABELS) as StatusFilter[]).map(filter => (
+                                        <option key={filter} value={filter}>{STATUS_FILTER_LABELS[filter]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="flex items-center text-xs text-gray-400">
+                                <span>{visibleTasks.length} of {tasks.length} tasks</span>
+                                <button
+                                    onClick={() => onExportTasks(visibleTasks, 'json')}
+                                    disabled={visibleTasks.length === 0}
+                                    title="Download the tasks shown as JSON"
+                                    className="ml-auto px-2 py-1 rounded-md hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    JSON
+                                </button>
+                                <button
+                                    onClick={() => onExportTasks(visibleTasks, 'csv')}
+                                    disabled={visibleTasks.length === 0}
+                                    title="Download the tasks shown as CSV"
+                                    className="px-2 py-1 rounded-md hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    CSV
+                                </button>
+                                <button
+                                    onClick={onClearCompleted}
+                                    disabled={!hasCompletedTasks}
+                                    title="Remove completed tasks from the list"
+                                    className="px-2 py-1 rounded-md hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Clear completed
+                                </button>
+                            </div>
+                        </div>
+                    )}
                     <div className="flex-grow p-4 overflow-y-auto">
                         {tasks.length === 0 ? (
                             <div className="text-center text-gray-500 mt-8">
                                 <p>No generation tasks yet.</p>
                                 <p className="text-sm">Select an area and write a prompt to start.</p>
                             </div>
+                        ) : visibleTasks.length === 0 ? (
+                            <div className="text-center text-gray-500 mt-8">
+                                <p>No tasks match these filters.</p>
+                            </div>
                         ) : (
-                            tasks.map(task => (
-                                <TaskLog key={task.id} task={task} />
+                            visibleTasks.map(task => (
+                                <TaskLog
+                                    key={task.id}
+                                    task={task}
+                                    onCancel={() => onCancelTask(task.id)}
+                                    onRetry={canRetryTask(task.id) ? () => onRetryTask(task.id) : undefined}
+                                />
                             ))
                         )}
                     </div>
@@ -0,0 +1,339 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { SavedPrompt } from '../types';
+import { BookmarkIcon, StarIcon, PencilIcon, TrashIcon, DownloadIcon, UploadIcon, XIcon } from './icons';
+import {
+  deleteSavedPrompt, exportPromptLibrary, getSavedPrompts, importPromptLibrary, markPromptUsed,
+  savePrompt, searchSavedPrompts, subscribeToPromptLibrary, updateSavedPrompt,
+} from '../services/promptLibrary';
+import { fillTemplate, getTemplateVariables } from '../utils/promptTemplates';
+import { downloadBlob } from '../utils/fileUtils';
+
+interface PromptLibraryPickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Typing "/" at the start of this input opens the picker with the rest as the search.
+  inputRef: React.RefObject<HTMLInputElement | null>;
+  buttonClassName?: string;
+}
+
+interface Draft {
+  id?: string; // Set when editing a saved prompt.
+  title: string;
+  text: string;
+  tags: string;
+}
+
+const splitTags = (tags: string) => tags.split(',');
+
+/**
+ * A button that opens the saved prompts next to a prompt input. The list opens below the nearest
+ * positioned ancestor, so hosts put the picker inside the element that holds their input.
+ */
+const PromptLibraryPicker: React.FC<PromptLibraryPickerProps> = ({ value, onChange, inputRef, buttonClassName = 'p-2 rounded-lg text-gray-200 hover:bg-gray-700' }) => {
+  const [library, setLibrary] = useState<SavedPrompt[]>(getSavedPrompts);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [template, setTemplate] = useState<SavedPrompt | null>(null);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeToPromptLibrary(() => setLibrary(getSavedPrompts())), []);
+
+  const slashQuery = value.startsWith('/') ? value.slice(1) : null;
+  const isShown = isOpen || slashQuery !== null;
+  const results = useMemo(() => searchSavedPrompts(library, slashQuery ?? query, tagFilter), [library, slashQuery, query, tagFilter]);
+  const allTags = useMemo(() => Array.from(new Set(library.flatMap(prompt => prompt.tags))).sort(), [library]);
+
+  useEffect(() => setActiveIndex(0), [slashQuery, query, tagFilter]);
+
+  const close = () => {
+    setIsOpen(false);
+    setTemplate(null);
+    setDraft(null);
+  };
+
+  const insert = (text: string, prompt: SavedPrompt) => {
+    markPromptUsed(prompt.id);
+    // A "/" command is replaced by the prompt; otherwise the prompt is added to what was typed.
+    onChange(slashQuery !== null || !value.trim() ? text : `${value.trimEnd()} ${text}`);
+    close();
+    setTimeout(() => inputRef.current?.focus(), 0);
+  };
+
+  const choose = (prompt: SavedPrompt) => {
+    const variables = getTemplateVariables(prompt.text);
+    if (variables.length === 0) {
+      insert(prompt.text, prompt);
+      return;
+    }
+    setTemplate(prompt);
+    setVariableValues(Object.fromEntries(variables.map(name => [name, ''])));
+  };
+
+  // While a "/" command is typed, the keys that move through the list are taken from the input.
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input || slashQuery === null || template || draft) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(i => results.length === 0 ? 0 : (i + step + results.length) % results.length);
+      } else if (e.key === 'Enter' && results[activeIndex]) {
+        e.preventDefault();
+        e.stopPropagation();
+        choose(results[activeIndex]);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        onChange('');
+      }
+    };
+    input.addEventListener('keydown', handleKeyDown);
+    return () => input.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.text.trim()) return;
+    if (draft.id) {
+      updateSavedPrompt(draft.id, { title: draft.title.trim() || draft.text.trim().slice(0, 40), text: draft.text.trim(), tags: splitTags(draft.tags) });
+    } else {
+      savePrompt({ title: draft.title, text: draft.text, tags: splitTags(draft.tags) });
+    }
+    setDraft(null);
+  };
+
+  const handleDelete = (prompt: SavedPrompt) => {
+    if (window.confirm(`Delete the saved prompt "${prompt.title}"?`)) {
+      deleteSavedPrompt(prompt.id);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = importPromptLibrary(await file.text());
+      alert(added === 1 ? 'Imported 1 prompt.' : `Imported ${added} prompts.`);
+    } catch (error) {
+      console.error('Failed to import the prompt library', error);
+      alert(`Sorry, the prompt library could not be imported. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  // Keeps Enter from submitting the prompt form and Escape from closing the dialog around it.
+  const handlePopoverKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'Enter' && (e.target as HTMLElement).tagName === 'INPUT') {
+      e.preventDefault();
+      if (template) insert(fillTemplate(template.text, variableValues), template);
+      else if (draft) handleSaveDraft();
+    }
+  };
+
+  const renderList = () => (
+    <>
+      {slashQuery === null && (
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search saved prompts..."
+          autoFocus
+          className="w-full bg-gray-900 border border-gray-600 rounded-md text-white text-sm placeholder-gray-500 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      )}
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => setTagFilter(tags => tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag])}
+              className={`px-2 py-0.5 rounded-full text-xs transition-colors ${tagFilter.includes(tag) ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+      <ul className="mt-2 max-h-60 overflow-y-auto space-y-1">
+        {results.length === 0 && (
+          <li className="text-sm text-gray-500 px-1 py-2">
+            {library.length === 0 ? 'No saved prompts yet. Save the current prompt to start a library.' : 'No saved prompts match.'}
+          </li>
+        )}
+        {results.map((prompt, i) => (
+          <li
+            key={prompt.id}
+            className={`group flex items-start rounded-md px-2 py-1.5 cursor-pointer ${i === activeIndex && slashQuery !== null ? 'bg-gray-700' : 'hover:bg-gray-700'}`}
+            onClick={() => choose(prompt)}
+          >
+            <div className="flex-grow min-w-0">
+              <div className="text-sm text-white truncate">{prompt.title}</div>
+              <div className="text-xs text-gray-400 truncate" title={prompt.text}>{prompt.text}</div>
+              {prompt.tags.length > 0 && <div className="text-xs text-indigo-300 truncate">{prompt.tags.join(', ')}</div>}
+            </div>
+            <button
+              type="button"
+              title={prompt.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              onClick={(e) => { e.stopPropagation(); updateSavedPrompt(prompt.id, { isFavorite: !prompt.isFavorite }); }}
+              className={`ml-2 p-1 rounded ${prompt.isFavorite ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-400'}`}
+            >
+              <StarIcon className={`w-4 h-4 ${prompt.isFavorite ? 'fill-current' : ''}`} />
+            </button>
+            <button
+              type="button"
+              title="Edit"
+              onClick={(e) => { e.stopPropagation(); setDraft({ id: prompt.id, title: prompt.title, text: prompt.text, tags: prompt.tags.join(', ') }); }}
+              className="p-1 rounded text-gray-500 hover:text-white opacity-0 group-hover:opacity-100"
+            >
+              <PencilIcon className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              title="Delete"
+              onClick={(e) => { e.stopPropagation(); handleDelete(prompt); }}
+              className="p-1 rounded text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center mt-2 pt-2 border-t border-gray-700 space-x-1">
+        <button
+          type="button"
+          onClick={() => setDraft({ title: '', text: slashQuery === null ? value : '', tags: '' })}
+          className="px-2 py-1 rounded-md text-xs font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600"
+        >
+          {value.trim() && slashQuery === null ? 'Save current prompt' : 'New prompt'}
+        </button>
+        <button
+          type="button"
+          title="Export the library as JSON"
+          onClick={() => downloadBlob(exportPromptLibrary(), 'nanocanvas-prompts.json')}
+          disabled={library.length === 0}
+          className="ml-auto p-1 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-40"
+        >
+          <DownloadIcon className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          title="Import prompts from JSON"
+          onClick={() => fileInputRef.current?.click()}
+          className="p-1 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white"
+        >
+          <UploadIcon className="w-4 h-4" />
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+    </>
+  );
+
+  const renderTemplateForm = (prompt: SavedPrompt) => (
+    <>
+      <div className="text-sm text-white mb-1">{prompt.title}</div>
+      <div className="text-xs text-gray-400 mb-2">{fillTemplate(prompt.text, variableValues)}</div>
+      <div className="space-y-2">
+        {Object.keys(variableValues).map((name, i) => (
+          <label key={name} className="block text-xs text-gray-300">
+            {name}
+            <input
+              type="text"
+              value={variableValues[name]}
+              onChange={(e) => setVariableValues(values => ({ ...values, [name]: e.target.value }))}
+              autoFocus={i === 0}
+              className="mt-0.5 w-full bg-gray-900 border border-gray-600 rounded-md text-white text-sm px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end mt-3 space-x-2">
+        <button type="button" onClick={() => setTemplate(null)} className="px-3 py-1 rounded-md text-xs font-semibold text-gray-300 hover:bg-gray-700">Back</button>
+        <button
+          type="button"
+          onClick={() => insert(fillTemplate(prompt.text, variableValues), prompt)}
+          className="px-3 py-1 rounded-md text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-500"
+        >
+          Insert
+        </button>
+      </div>
+    </>
+  );
+
+  const renderDraftForm = (current: Draft) => (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={current.title}
+        onChange={(e) => setDraft({ ...current, title: e.target.value })}
+        placeholder="Title"
+        autoFocus
+        className="w-full bg-gray-900 border border-gray-600 rounded-md text-white text-sm placeholder-gray-500 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <textarea
+        value={current.text}
+        onChange={(e) => setDraft({ ...current, text: e.target.value })}
+        placeholder="Prompt. Mark parts to fill in with {variable}."
+        rows={3}
+        className="w-full bg-gray-900 border border-gray-600 rounded-md text-white text-sm placeholder-gray-500 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <input
+        type="text"
+        value={current.tags}
+        onChange={(e) => setDraft({ ...current, tags: e.target.value })}
+        placeholder="Tags, separated by commas"
+        className="w-full bg-gray-900 border border-gray-600 rounded-md text-white text-sm placeholder-gray-500 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <div className="flex justify-end space-x-2">
+        <button type="button" onClick={() => setDraft(null)} className="px-3 py-1 rounded-md text-xs font-semibold text-gray-300 hover:bg-gray-700">Cancel</button>
+        <button
+          type="button"
+          onClick={handleSaveDraft}
+          disabled={!current.text.trim()}
+          className="px-3 py-1 rounded-md text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        title="Saved prompts (or type / in the prompt)"
+        className={`${buttonClassName} flex items-center justify-center transition-colors ${isShown ? 'bg-indigo-600 text-white' : ''}`}
+      >
+        <BookmarkIcon className="w-5 h-5" />
+      </button>
+      {isShown && (
+        <div
+          className="absolute top-full left-0 right-0 mt-2 z-30 bg-gray-800/95 backdrop-blur-md rounded-xl shadow-2xl p-3 border border-gray-700 text-left"
+          onKeyDown={handlePopoverKeyDown}
+        >
+          <div className="flex items-center mb-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-gray-400">
+              {draft ? (draft.id ? 'Edit prompt' : 'Save prompt') : template ? 'Fill in the template' : 'Saved prompts'}
+            </span>
+            <button type="button" onClick={() => { close(); if (slashQuery !== null) onChange(''); }} title="Close" className="ml-auto p-0.5 rounded text-gray-400 hover:text-white">
+              <XIcon className="w-4 h-4" />
+            </button>
+          </div>
+          {draft ? renderDraftForm(draft) : template ? renderTemplateForm(template) : renderList()}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default PromptLibraryPicker;
@@ -1,18 +1,25 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { MagicWandIcon, SendIcon } from './icons';
+import { MagicWandIcon, SendIcon, AdjustmentsIcon } from './icons';
+import { GenerationParameters, ModelChoice } from '../types';
+import { describeModelChoice, modelChoiceKey, parseModelChoiceKey } from '../services/providers';
+import GenerationParametersPanel from './GenerationParametersPanel';
+import PromptLibraryPicker from './PromptLibraryPicker';
 
 interface PromptModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (prompt: string, model: string) => void;
-  availableModels: string[];
-  defaultModel: string;
+  onSubmit: (prompt: string, model: ModelChoice, parameters: GenerationParameters) => void;
+  availableModels: ModelChoice[];
+  defaultModel: ModelChoice;
+  defaultParameters: GenerationParameters;
 }
 
-const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSubmit, availableModels, defaultModel }) => {
+const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSubmit, availableModels, defaultModel, defaultParameters }) => {
   const [prompt, setPrompt] = useState('');
   const [selectedModel, setSelectedModel] = useState(defaultModel);
+  const [parameters, setParameters] = useState(defaultParameters);
+  const [showParameters, setShowParameters] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -20,13 +27,14 @@ const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSubmit, av
       setTimeout(() => inputRef.current?.focus(), 100);
       setPrompt(''); // Reset prompt on open
       setSelectedModel(defaultModel); // Reset model to default
+      setParameters(defaultParameters);
     }
-  }, [isOpen, defaultModel]);
+  }, [isOpen, defaultModel, defaultParameters]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (prompt.trim()) {
-      onSubmit(prompt.trim(), selectedModel);
+      onSubmit(prompt.trim(), selectedModel, parameters);
     }
   };
   
@@ -56,7 +64,7 @@ const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSubmit, av
         </div>
         <p className="text-gray-400 mb-6">Describe the image you want to create. Be as specific as you can for the best results.</p>
         <form onSubmit={handleSubmit}>
-          <div className="relative mb-4">
+          <div className="relative mb-4 flex items-center space-x-2">
             <label htmlFor="prompt-input" className="sr-only">Image Prompt</label>
             <input
               id="prompt-input"
@@ -64,23 +72,32 @@ const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSubmit, av
               type="text"
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
-              placeholder="e.g., A futuristic city skyline at sunset, cyberpunk style"
+              placeholder="e.g., A futuristic city skyline at sunset, cyberpunk style (/ for saved prompts)"
               className="w-full bg-gray-900 border border-gray-600 rounded-lg text-white placeholder-gray-500 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-indigo-500"
             />
+            <PromptLibraryPicker value={prompt} onChange={setPrompt} inputRef={inputRef} buttonClassName="p-3 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white" />
           </div>
           <div className="flex items-center justify-between">
             <div className="flex-grow">
               <label htmlFor="model-select" className="text-sm text-gray-400 mr-2">Model:</label>
               <select 
                 id="model-select"
-                value={selectedModel}
-                onChange={(e) => setSelectedModel(e.target.value)}
+                value={modelChoiceKey(selectedModel)}
+                onChange={(e) => setSelectedModel(parseModelChoiceKey(e.target.value))}
                 className="bg-gray-700 border border-gray-600 rounded-md text-white text-sm px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
               >
                 {availableModels.map(model => (
-                  <option key={model} value={model}>{model}</option>
+                  <option key={modelChoiceKey(model)} value={modelChoiceKey(model)}>{describeModelChoice(model)}</option>
                 ))}
               </select>
+              <button
+                type="button"
+                onClick={() => setShowParameters(s => !s)}
+                title="Aspect ratio, seed, negative prompt and more"
+                className={`ml-3 p-1.5 rounded-md align-middle transition-colors ${showParameters ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-white'}`}
+              >
+                <AdjustmentsIcon className="w-5 h-5" />
+              </button>
             </div>
             <button
               type="submit"
@@ -91,6 +108,11 @@ const PromptModal: React.FC<PromptModalProps> = ({ isOpen, onClose, onSubmit, av
               <SendIcon className="w-5 h-5" />
             </button>
           </div>
+          {showParameters && (
+            <div className="mt-4 pt-4 border-t border-gray-700">
+              <GenerationParametersPanel parameters={parameters} onChange={setParameters} selectionLabel="Square (default)" />
+            </div>
+          )}
         </form>
       </div>
     </div>
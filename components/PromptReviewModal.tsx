@@ -0,0 +1,83 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PromptReview } from '../types';
+import { MagicWandIcon, RefreshIcon } from './icons';
+
+interface PromptReviewModalProps {
+  review: PromptReview | null; // The modal is open while this is set.
+  pendingCount: number; // Reviews waiting after this one.
+  onConfirm: (text: string) => void;
+  onRegenerate: () => void;
+  onCancelTask: () => void;
+}
+
+const PromptReviewModal: React.FC<PromptReviewModalProps> = ({ review, pendingCount, onConfirm, onRegenerate, onCancelTask }) => {
+  const [text, setText] = useState('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    setText(review?.text ?? '');
+    if (review) setTimeout(() => textareaRef.current?.focus(), 100);
+  }, [review]);
+
+  if (!review) return null;
+
+  const isPlan = review.kind === 'plan';
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && text.trim()) {
+      e.preventDefault();
+      onConfirm(text);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm z-50 flex items-center justify-center" aria-modal="true" role="dialog">
+      <div className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 w-full max-w-2xl p-6 animate-fade-in-up">
+        <div className="flex items-center mb-2">
+          <MagicWandIcon className="w-6 h-6 text-indigo-400 mr-3" />
+          <h2 className="text-xl font-bold text-white">{isPlan ? "Review the Model's Plan" : 'Review the Prompt'}</h2>
+          {review.label && <span className="ml-3 text-sm text-gray-400">{review.label}</span>}
+          {pendingCount > 0 && <span className="ml-auto text-xs text-gray-400">{pendingCount} more waiting</span>}
+        </div>
+        <p className="text-gray-400 mb-4">
+          {isPlan
+            ? 'The model described the image it is about to create. Edit the plan, confirm it, or ask for a different one.'
+            : 'This is the prompt interpreted from your canvas. Edit it, confirm it, or have the canvas interpreted again.'}
+        </p>
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={8}
+          className="w-full bg-gray-900 border border-gray-600 rounded-lg text-white text-sm px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <div className="mt-6 flex items-center justify-end space-x-3">
+          <button
+            onClick={onCancelTask}
+            className="mr-auto px-4 py-2 text-gray-400 font-semibold rounded-lg hover:bg-gray-700 hover:text-white transition-colors"
+          >
+            Cancel task
+          </button>
+          <button
+            onClick={onRegenerate}
+            className="flex items-center px-6 py-2 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            <RefreshIcon className="w-4 h-4 mr-2" />
+            {isPlan ? 'New plan' : 'Interpret again'}
+          </button>
+          <button
+            onClick={() => onConfirm(text)}
+            disabled={!text.trim()}
+            title="Generate with this text (Ctrl+Enter)"
+            className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Confirm and generate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptReviewModal;
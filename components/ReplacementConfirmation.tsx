@@ -1,28 +1,56 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { ImagePreview, Point } from '../types';
 import { CheckIcon, TrashIcon, PlusIcon } from './icons';
 
 interface ReplacementConfirmationProps {
   preview: ImagePreview;
-  onAccept: () => void;
-  onKeepBoth: () => void;
+  onActiveIndexChange: (index: number) => void;
+  onAccept: (indices: number[]) => void;
+  onKeepBoth: (indices: number[]) => void;
   onDiscard: () => void;
   zoom: number;
   pan: Point;
+  queuedCount?: number; // Finished generations waiting to be reviewed after this one.
 }
 
 const ReplacementConfirmation: React.FC<ReplacementConfirmationProps> = ({
   preview,
+  onActiveIndexChange,
   onAccept,
   onKeepBoth,
   onDiscard,
   zoom,
   pan,
+  queuedCount = 0,
 }) => {
-  const { newImage } = preview;
+  const { candidates, activeIndex } = preview;
+  const activeImage = candidates[activeIndex];
+  const hasVariations = candidates.length > 1;
+  const [pickedIndices, setPickedIndices] = useState<number[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
 
-  const screenX = (newImage.x + newImage.width / 2) * zoom + pan.x;
-  const screenY = (newImage.y + newImage.height) * zoom + pan.y;
+  // Without explicit picks, the buttons act on the candidate being shown.
+  const indicesToKeep = pickedIndices.length > 0 ? pickedIndices : [activeIndex];
+
+  useEffect(() => {
+    if (!hasVariations) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (e.key === 'ArrowRight') {
+        e.preventDefault();
+        onActiveIndexChange((activeIndex + 1) % candidates.length);
+      } else if (e.key === 'ArrowLeft') {
+        e.preventDefault();
+        onActiveIndexChange((activeIndex - 1 + candidates.length) % candidates.length);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hasVariations, activeIndex, candidates.length, onActiveIndexChange]);
+
+  const screenX = (activeImage.x + activeImage.width / 2) * zoom + pan.x;
+  const screenY = (activeImage.y + activeImage.height) * zoom + pan.y;
 
   const style: React.CSSProperties = {
     position: 'absolute',
@@ -37,36 +65,89 @@ const ReplacementConfirmation: React.FC<ReplacementConfirmationProps> = ({
     action();
   }
 
+  const togglePicked = (index: number) => {
+    setPickedIndices(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+  };
+
+  const thumbnailSize = isComparing ? 'w-40 h-40' : 'w-14 h-14';
+
   return (
     <div
       style={style}
-      className="bg-gray-800/70 backdrop-blur-md rounded-lg shadow-2xl p-2 flex items-center space-x-3 border border-gray-700 animate-fade-in-up"
+      className="bg-gray-800/70 backdrop-blur-md rounded-lg shadow-2xl p-2 border border-gray-700 animate-fade-in-up"
       onMouseDown={(e) => e.stopPropagation()}
     >
-      <p className="text-sm font-medium text-gray-200 mr-2">Generated Image:</p>
-      <div className="flex space-x-2">
-        <button
-          onClick={(e) => handleButtonClick(e, onAccept)}
-          title="Keep this image and remove the originals"
-          className="px-3 py-1.5 text-sm font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 transition-colors flex items-center focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-green-500"
-        >
-          <CheckIcon className="w-4 h-4 mr-1" /> Accept & Replace
-        </button>
-         <button
-          onClick={(e) => handleButtonClick(e, onKeepBoth)}
-          title="Keep both the new and original items"
-          className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors flex items-center focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500"
-        >
-          <PlusIcon className="w-4 h-4 mr-1" /> Keep Both
-        </button>
-        <button
-          onClick={(e) => handleButtonClick(e, onDiscard)}
-          title="Discard this image and keep the originals"
-          className="px-3 py-1.5 text-sm font-semibold text-gray-200 bg-red-600 rounded-md hover:bg-red-500 transition-colors flex items-center focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-500"
-        >
-          <TrashIcon className="w-4 h-4 mr-1" /> Discard
-        </button>
+      {hasVariations && (
+        <div className="mb-2">
+          <div className="flex items-center justify-between mb-2 px-1">
+            <p className="text-xs text-gray-400">
+              Variation {activeIndex + 1} of {candidates.length}
+              {pickedIndices.length > 0 && ` · ${pickedIndices.length} picked`}
+              <span className="text-gray-500"> · ←/→ to cycle</span>
+            </p>
+            <button
+              onClick={(e) => handleButtonClick(e, () => setIsComparing(c => !c))}
+              className="text-xs font-semibold text-indigo-300 hover:text-indigo-200"
+            >
+              {isComparing ? 'Collapse' : 'Compare'}
+            </button>
+          </div>
+          <div className={`flex flex-wrap gap-2 justify-center ${isComparing ? 'max-w-[44rem]' : 'max-w-md'}`}>
+            {candidates.map((candidate, index) => (
+              <div key={candidate.id} className="relative">
+                <button
+                  onClick={(e) => handleButtonClick(e, () => onActiveIndexChange(index))}
+                  title={`Show variation ${index + 1} on the canvas`}
+                  className={`${thumbnailSize} rounded-md overflow-hidden border-2 transition-colors ${index === activeIndex ? 'border-indigo-400' : 'border-transparent hover:border-gray-500'}`}
+                >
+                  <img src={candidate.src} alt={`Variation ${index + 1}`} className="w-full h-full object-cover" />
+                </button>
+                <input
+                  type="checkbox"
+                  checked={pickedIndices.includes(index)}
+                  onChange={() => togglePicked(index)}
+                  onClick={(e) => e.stopPropagation()}
+                  title="Pick this variation"
+                  className="absolute top-1 right-1 w-4 h-4 accent-green-500 cursor-pointer"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="flex items-center space-x-3">
+        <p className="text-sm font-medium text-gray-200 mr-2">
+          {indicesToKeep.length > 1 ? `${indicesToKeep.length} Images:` : 'Generated Image:'}
+        </p>
+        <div className="flex space-x-2">
+          <button
+            onClick={(e) => handleButtonClick(e, () => onAccept(indicesToKeep))}
+            title={indicesToKeep.length > 1 ? "Keep the picked images and remove the originals. Extra images are placed beside the selection." : "Keep this image and remove the originals"}
+            className="px-3 py-1.5 text-sm font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 transition-colors flex items-center focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-green-500"
+          >
+            <CheckIcon className="w-4 h-4 mr-1" /> Accept & Replace
+          </button>
+           <button
+            onClick={(e) => handleButtonClick(e, () => onKeepBoth(indicesToKeep))}
+            title={indicesToKeep.length > 1 ? "Add the picked images and keep the originals. Extra images are placed beside the selection." : "Keep both the new and original items"}
+            className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors flex items-center focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500"
+          >
+            <PlusIcon className="w-4 h-4 mr-1" /> Keep Both
+          </button>
+          <button
+            onClick={(e) => handleButtonClick(e, onDiscard)}
+            title={hasVariations ? "Discard all variations and keep the originals" : "Discard this image and keep the originals"}
+            className="px-3 py-1.5 text-sm font-semibold text-gray-200 bg-red-600 rounded-md hover:bg-red-500 transition-colors flex items-center focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-500"
+          >
+            <TrashIcon className="w-4 h-4 mr-1" /> Discard
+          </button>
+        </div>
       </div>
+      {queuedCount > 0 && (
+        <p className="mt-2 px-1 text-xs text-gray-400">
+          {queuedCount} more {queuedCount === 1 ? 'result is' : 'results are'} waiting for review.
+        </p>
+      )}
     </div>
   );
 };
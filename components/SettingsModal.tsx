@@ -1,25 +1,41 @@
 
 import React from 'react';
-import { ModelSettings, AVAILABLE_MODELS } from '../types';
+import { ModelSettings, ProviderCapability, ProviderConfig, CredentialStatus, CacheSettings as CacheSettingsValue } from '../types';
+import { getProviders, modelChoiceKey, parseModelChoiceKey, describeModelChoice } from '../services/providers';
+import { DEFAULT_CONCURRENCY, MAX_CONCURRENCY } from '../services/taskQueue';
 import { SettingsIcon } from './icons';
+import CredentialSettings from './CredentialSettings';
+import CacheSettings from './CacheSettings';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: ModelSettings;
   onSettingsChange: (newSettings: ModelSettings) => void;
+  providerConfigs: Record<string, ProviderConfig>;
+  onProviderConfigChange: (providerId: string, config: ProviderConfig) => void;
+  credentialStatuses: Record<string, CredentialStatus>;
+  onRecheckCredentials: () => void;
+  concurrencyLimits: Record<string, number>; // Keyed by modelChoiceKey().
+  onConcurrencyLimitsChange: (limits: Record<string, number>) => void;
+  cacheSettings: CacheSettingsValue;
+  onCacheSettingsChange: (settings: CacheSettingsValue) => void;
+  reviewPrompts: boolean;
+  onReviewPromptsChange: (reviewPrompts: boolean) => void;
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSettingsChange }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSettingsChange, providerConfigs, onProviderConfigChange, credentialStatuses, onRecheckCredentials, concurrencyLimits, onConcurrencyLimitsChange, cacheSettings, onCacheSettingsChange, reviewPrompts, onReviewPromptsChange }) => {
   if (!isOpen) return null;
 
-  const handleSettingChange = (key: keyof ModelSettings, value: string) => {
-    onSettingsChange({ ...settings, [key]: value });
+  const handleSettingChange = (key: ProviderCapability, value: string) => {
+    onSettingsChange({ ...settings, [key]: parseModelChoiceKey(value) });
   };
 
-  const settingCategories: { key: keyof ModelSettings, label: string, description: string }[] = [
+  const settingCategories: { key: ProviderCapability, label: string, description: string }[] = [
     { key: 'textToImage', label: 'Text-to-Image Generation', description: 'Model for creating images from a text prompt only.' },
     { key: 'canvasToImage', label: 'Canvas-to-Image Fusion', description: 'Model for combining multiple items on the canvas into one image.' },
+    { key: 'inpaint', label: 'Magic Fill', description: 'Model for editing the masked area of an image.' },
+    { key: 'outpaint', label: 'Generative Expand', description: 'Model for extending an image beyond its borders.' },
     { key: 'video', label: 'Video Generation', description: 'Model for animating a canvas selection into a video.' },
     { key: 'interpretation', label: 'Canvas Interpretation', description: 'Model for understanding the layout and intent of canvas items.' },
   ];
@@ -32,14 +48,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
       role="dialog"
     >
       <div 
-        className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 w-full max-w-xl p-6 animate-fade-in-up"
+        className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 w-full max-w-xl max-h-[90vh] overflow-y-auto p-6 animate-fade-in-up"
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex items-center mb-4">
           <SettingsIcon className="w-6 h-6 text-indigo-400 mr-3" />
           <h2 className="text-xl font-bold text-white">Model Settings</h2>
         </div>
-        <p className="text-gray-400 mb-6">Choose the default AI models for different generation tasks. You can override some of these settings during generation.</p>
+        <p className="text-gray-400 mb-6">Choose the provider and model for each generation task. You can override some of these settings during generation.</p>
         
         <div className="space-y-6">
           {settingCategories.map(({ key, label, description }) => (
@@ -48,18 +64,90 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
               <p className="text-sm text-gray-500 mb-2">{description}</p>
               <select 
                 id={`${key}-select`}
-                value={settings[key]}
+                value={modelChoiceKey(settings[key])}
                 onChange={(e) => handleSettingChange(key, e.target.value)}
                 className="w-full bg-gray-700 border border-gray-600 rounded-md text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
               >
-                {AVAILABLE_MODELS[key].map(model => (
-                  <option key={model} value={model}>{model}</option>
+                {getProviders().filter(provider => provider.models[key]?.length).map(provider => (
+                  <optgroup key={provider.id} label={provider.isConfigured() ? provider.name : `${provider.name} (not configured)`}>
+                    {provider.models[key]!.map(model => (
+                      <option key={model} value={modelChoiceKey({ provider: provider.id, model })}>{model}</option>
+                    ))}
+                  </optgroup>
                 ))}
               </select>
             </div>
           ))}
         </div>
 
+        <div className="mt-8 pt-6 border-t border-gray-700">
+          <h3 className="text-lg font-semibold text-white">Prompt Review</h3>
+          <label className="flex items-center mt-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={reviewPrompts}
+              onChange={(e) => onReviewPromptsChange(e.target.checked)}
+              className="w-4 h-4 mr-2 accent-indigo-500"
+            />
+            Review and edit interpreted prompts, and the model's plan for fusions, before images and videos are generated
+          </label>
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-gray-700">
+          <h3 className="text-lg font-semibold text-white">Parallel Jobs</h3>
+          <p className="text-sm text-gray-500 mb-3">How many tasks may run at once on each model. Further tasks wait in the queue; lower this if a provider keeps rate-limiting you.</p>
+          <div className="space-y-2">
+            {Array.from(new Map(
+              settingCategories.filter(({ key }) => key !== 'interpretation').map(({ key }) => [modelChoiceKey(settings[key]), settings[key]])
+            )).map(([choiceKey, choice]) => (
+              <div key={choiceKey} className="flex items-center justify-between">
+                <label htmlFor={`concurrency-${choiceKey}`} className="text-sm text-gray-300">{describeModelChoice(choice)}</label>
+                <input
+                  id={`concurrency-${choiceKey}`}
+                  type="number"
+                  min={1}
+                  max={MAX_CONCURRENCY}
+                  value={concurrencyLimits[choiceKey] ?? DEFAULT_CONCURRENCY}
+                  onChange={(e) => {
+                    const limit = Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(Number(e.target.value)) || 1));
+                    onConcurrencyLimitsChange({ ...concurrencyLimits, [choiceKey]: limit });
+                  }}
+                  className="w-20 bg-gray-700 border border-gray-600 rounded-md text-white px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <CacheSettings settings={cacheSettings} onSettingsChange={onCacheSettingsChange} />
+
+        <CredentialSettings credentialStatuses={credentialStatuses} onRecheckCredentials={onRecheckCredentials} />
+
+        {getProviders().some(provider => provider.configFields?.length) && (
+          <div className="mt-8 pt-6 border-t border-gray-700 space-y-6">
+            <h3 className="text-lg font-semibold text-white">Providers</h3>
+            {getProviders().filter(provider => provider.configFields?.length).map(provider => (
+              <div key={provider.id} className="space-y-3">
+                <p className="text-md font-medium text-gray-200">{provider.name}</p>
+                {provider.configFields!.map(field => (
+                  <div key={field.key}>
+                    <label htmlFor={`${provider.id}-${field.key}`} className="block text-sm text-gray-300">{field.label}</label>
+                    {field.description && <p className="text-sm text-gray-500 mb-1">{field.description}</p>}
+                    <input
+                      id={`${provider.id}-${field.key}`}
+                      type="text"
+                      value={providerConfigs[provider.id]?.[field.key] ?? ''}
+                      placeholder={field.placeholder}
+                      onChange={(e) => onProviderConfigChange(provider.id, { ...providerConfigs[provider.id], [field.key]: e.target.value })}
+                      className="w-full bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-500 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="mt-8 text-right">
           <button
             onClick={onClose}
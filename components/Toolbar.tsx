@@ -1,11 +1,13 @@
-import React from 'react';
-import { ImageIcon, PencilIcon, TypeTextIcon, UndoIcon, RedoIcon, MagicWandIcon, GridIcon } from './icons';
-import { DrawingOptions, GridOptions, TextOptions } from '../types';
+import React, { useState } from 'react';
+import { ImageIcon, PencilIcon, TypeTextIcon, UndoIcon, RedoIcon, MagicWandIcon, GridIcon, FrameIcon, LayersIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon, AlignTopIcon, AlignMiddleIcon, AlignBottomIcon, DistributeHorizontalIcon, DistributeVerticalIcon } from './icons';
+import { AlignMode, DistributeAxis, DrawingOptions, FrameAspectRatio, GridOptions, TextOptions } from '../types';
+import { FRAME_ASPECT_RATIOS } from '../utils/frames';
 
 export type MagicFillMode = 'disabled' | 'fill' | 'replace';
 
 interface ToolbarProps {
   onAddImage: () => void;
+  onAddFrame: (aspectRatio: FrameAspectRatio) => void; // Wraps the marquee selection, if there is one.
   onSetDrawingMode: () => void;
   isDrawingMode: boolean;
   drawingOptions: DrawingOptions;
@@ -24,6 +26,11 @@ interface ToolbarProps {
   magicFillMode: MagicFillMode;
   gridOptions: GridOptions;
   onGridOptionsChange: (newOptions: Partial<GridOptions>) => void;
+  onToggleLayers: () => void;
+  isLayersPanelOpen: boolean;
+  alignableCount: number; // Items of the marquee selection that align and distribute commands move.
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
 }
 
 const COLORS = ['#FFFFFF', '#EF4444', '#F97316', '#EAB308', '#22C55E', '#3B82F6', '#8B5CF6'];
@@ -90,6 +97,57 @@ const TextControls: React.FC<{ options: TextOptions, onChange: (o: Partial<TextO
     </>
 );
 
+const FrameControls: React.FC<{ onSelect: (aspectRatio: FrameAspectRatio) => void }> = ({ onSelect }) => (
+    <>
+        <div className="h-8 w-px bg-gray-600 mx-2"></div>
+        <div className="flex items-center space-x-2">
+            {FRAME_ASPECT_RATIOS.map(aspectRatio => (
+                <button
+                    key={aspectRatio}
+                    onClick={() => onSelect(aspectRatio)}
+                    className="px-2 py-1 rounded-md text-xs text-gray-200 bg-gray-700/50 hover:bg-indigo-500 hover:text-white transition-colors duration-150"
+                >
+                    {aspectRatio === 'custom' ? 'Custom' : aspectRatio}
+                </button>
+            ))}
+        </div>
+    </>
+);
+
+const ALIGN_BUTTONS: { mode: AlignMode, title: string, Icon: React.FC<{ className?: string }> }[] = [
+    { mode: 'left', title: 'Align Left', Icon: AlignLeftIcon },
+    { mode: 'center', title: 'Align Horizontal Centers', Icon: AlignCenterIcon },
+    { mode: 'right', title: 'Align Right', Icon: AlignRightIcon },
+    { mode: 'top', title: 'Align Top', Icon: AlignTopIcon },
+    { mode: 'middle', title: 'Align Vertical Centers', Icon: AlignMiddleIcon },
+    { mode: 'bottom', title: 'Align Bottom', Icon: AlignBottomIcon },
+];
+
+const AlignControls: React.FC<{ count: number, onAlign: (mode: AlignMode) => void, onDistribute: (axis: DistributeAxis) => void }> = ({ count, onAlign, onDistribute }) => {
+    const buttonClass = "p-1.5 rounded-md text-gray-300 bg-gray-700/50 hover:bg-indigo-500 hover:text-white transition-colors duration-150 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-gray-700/50";
+    return (
+        <>
+            <div className="h-8 w-px bg-gray-600 mx-2"></div>
+            <div className="flex items-center space-x-1">
+                {ALIGN_BUTTONS.map(({ mode, title, Icon }) => (
+                    <button key={mode} onClick={() => onAlign(mode)} title={title} className={buttonClass}>
+                        <Icon className="w-4 h-4" />
+                    </button>
+                ))}
+            </div>
+            <div className="h-8 w-px bg-gray-600 mx-2"></div>
+            <div className="flex items-center space-x-1">
+                <button onClick={() => onDistribute('horizontal')} disabled={count < 3} title={count < 3 ? 'Select 3 or more items to distribute' : 'Distribute Horizontal Spacing'} className={buttonClass}>
+                    <DistributeHorizontalIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDistribute('vertical')} disabled={count < 3} title={count < 3 ? 'Select 3 or more items to distribute' : 'Distribute Vertical Spacing'} className={buttonClass}>
+                    <DistributeVerticalIcon className="w-4 h-4" />
+                </button>
+            </div>
+        </>
+    );
+};
+
 const GridControls: React.FC<{ options: GridOptions, onChange: (o: Partial<GridOptions>) => void }> = ({ options, onChange }) => (
     <>
         <div className="h-8 w-px bg-gray-600 mx-2"></div>
@@ -122,15 +180,18 @@ const GridControls: React.FC<{ options: GridOptions, onChange: (o: Partial<GridO
 
 
 const Toolbar: React.FC<ToolbarProps> = ({
-  onAddImage,
+  onAddImage, onAddFrame,
   onSetDrawingMode, isDrawingMode, drawingOptions, onDrawingOptionsChange,
   onSetTextMode, isTextMode, textOptions, onTextOptionsChange, showTextToolbar,
   onUndo, onRedo, canUndo, canRedo,
   onSetMagicFillMode, isMagicFillMode, magicFillMode,
-  gridOptions, onGridOptionsChange
+  gridOptions, onGridOptionsChange,
+  onToggleLayers, isLayersPanelOpen,
+  alignableCount, onAlign, onDistribute
 }) => {
   const baseButtonClass = "p-3 rounded-lg flex items-center justify-center transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900";
   const iconClass = "w-6 h-6";
+  const [isFrameMenuOpen, setIsFrameMenuOpen] = useState(false);
   
   const getMagicFillTitle = () => {
     switch(magicFillMode) {
@@ -186,6 +247,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
       >
         <PencilIcon className={iconClass} />
       </button>
+      <button
+        onClick={() => setIsFrameMenuOpen(open => !open)}
+        title="Add Frame (around the selection, if any)"
+        className={`${baseButtonClass} ${isFrameMenuOpen ? 'bg-indigo-600 text-white' : 'text-gray-300'} hover:bg-indigo-500 hover:text-white focus:ring-indigo-500`}
+      >
+        <FrameIcon className={iconClass} />
+      </button>
       <button 
         onClick={onSetMagicFillMode} 
         disabled={magicFillMode === 'disabled'}
@@ -204,11 +272,20 @@ const Toolbar: React.FC<ToolbarProps> = ({
       >
         <GridIcon className="w-5 h-5" />
       </button>
+      <button
+        onClick={onToggleLayers}
+        title="Toggle Layers"
+        className={`${baseButtonClass} ${isLayersPanelOpen ? 'bg-indigo-600 text-white' : 'text-gray-300'} hover:bg-indigo-500 hover:text-white focus:ring-indigo-500`}
+      >
+        <LayersIcon className="w-5 h-5" />
+      </button>
 
       {/* Contextual Controls */}
+      {isFrameMenuOpen && <FrameControls onSelect={(aspectRatio) => { onAddFrame(aspectRatio); setIsFrameMenuOpen(false); }} />}
       {isDrawingMode && <DrawingControls options={drawingOptions} onChange={onDrawingOptionsChange} />}
       {showTextToolbar && <TextControls options={textOptions} onChange={onTextOptionsChange} />}
       {gridOptions.isVisible && <GridControls options={gridOptions} onChange={onGridOptionsChange} />}
+      {alignableCount >= 2 && <AlignControls count={alignableCount} onAlign={onAlign} onDistribute={onDistribute} />}
     </div>
   );
 };
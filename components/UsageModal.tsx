@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BoardMeta, ModelChoice, ModelSettings, UsageRecord, UsageSettings } from '../types';
+import { ChartIcon } from './icons';
+import { describeModelChoice, modelChoiceKey, parseModelChoiceKey } from '../services/providers';
+import { clearUsage, formatCost, getDayKey, loadUsage, summarizeUsage, UsageTotals } from '../services/usageService';
+
+interface UsageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boards: BoardMeta[];
+  modelSettings: ModelSettings; // Their models are listed for pricing even before they were used.
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+}
+
+const DAYS_SHOWN = 14;
+
+const formatDuration = (totals: UsageTotals) => totals.calls > 0 ? `${(totals.durationMs / totals.calls / 1000).toFixed(1)} s` : '-';
+
+const TotalsTable: React.FC<{ title: string; rows: [string, UsageTotals][]; renderLabel?: (key: string) => React.ReactNode; renderExtra?: (key: string) => React.ReactNode; extraHeading?: string }> = ({ title, rows, renderLabel = key => key, renderExtra, extraHeading }) => (
+  <div className="mt-6">
+    <h3 className="text-lg font-semibold text-white mb-2">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500">No calls yet.</p>
+    ) : (
+      <table className="w-full text-sm text-gray-300">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+            <th className="py-1 font-medium"></th>
+            <th className="py-1 font-medium text-right">Calls</th>
+            <th className="py-1 font-medium text-right">Failed</th>
+            <th className="py-1 font-medium text-right">Outputs</th>
+            <th className="py-1 font-medium text-right">Avg. time</th>
+            {renderExtra && <th className="py-1 font-medium text-right">{extraHeading}</th>}
+            <th className="py-1 font-medium text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([key, totals]) => (
+            <tr key={key} className="border-t border-gray-700">
+              <td className="py-1.5 pr-2">{renderLabel(key)}</td>
+              <td className="py-1.5 text-right">{totals.calls}</td>
+              <td className={`py-1.5 text-right ${totals.failures > 0 ? 'text-red-400' : ''}`}>{totals.failures}</td>
+              <td className="py-1.5 text-right">{totals.outputs}</td>
+              <td className="py-1.5 text-right">{formatDuration(totals)}</td>
+              {renderExtra && <td className="py-1.5 text-right">{renderExtra(key)}</td>}
+              <td className="py-1.5 text-right">{formatCost(totals.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, boards, modelSettings, settings, onSettingsChange }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+
+  useEffect(() => {
+    if (isOpen) setRecords(loadUsage());
+  }, [isOpen]);
+
+  const byModel = useMemo(() => {
+    const totals = summarizeUsage(records, settings, record => modelChoiceKey(record.model));
+    Object.values(modelSettings).forEach((choice: ModelChoice) => {
+      if (!totals.has(modelChoiceKey(choice))) {
+        totals.set(modelChoiceKey(choice), { calls: 0, failures: 0, outputs: 0, durationMs: 0, cost: 0 });
+      }
+    });
+    return Array.from(totals);
+  }, [records, settings, modelSettings]);
+  const byBoard = useMemo(() => Array.from(summarizeUsage(records, settings, record => record.boardId ?? '')), [records, settings]);
+  const byDay = useMemo(
+    () => Array.from(summarizeUsage(records, settings, record => getDayKey(record.time))).sort(([a], [b]) => b.localeCompare(a)).slice(0, DAYS_SHOWN),
+    [records, settings]
+  );
+  const totalCost = byModel.reduce((sum, [, totals]) => sum + totals.cost, 0);
+  const spentToday = byDay.find(([day]) => day === getDayKey(Date.now()))?.[1].cost ?? 0;
+
+  if (!isOpen) return null;
+
+  const handleClear = () => {
+    if (window.confirm('Delete the usage history? Prices and the budget are kept.')) {
+      clearUsage();
+      setRecords([]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm z-50 flex items-center justify-center"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center mb-2">
+          <ChartIcon className="w-6 h-6 text-indigo-400 mr-3" />
+          <h2 className="text-xl font-bold text-white">Usage</h2>
+          <span className="ml-auto text-sm text-gray-400">{records.length} calls, about {formatCost(totalCost)} in total</span>
+        </div>
+        <p className="text-sm text-gray-500">
+          Every call to a provider made from this browser. Costs are estimates from the prices below, counted per output; failed calls count as free.
+        </p>
+
+        <div className="mt-4 flex items-center space-x-3">
+          <label htmlFor="usage-budget" className="text-sm text-gray-300">Daily budget ($)</label>
+          <input
+            id="usage-budget"
+            type="number"
+            min={0}
+            step="0.01"
+            value={settings.dailyBudget ?? ''}
+            placeholder="None"
+            onChange={(e) => onSettingsChange({ ...settings, dailyBudget: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+            className="w-28 bg-gray-700 border border-gray-600 rounded-md text-white px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          {settings.dailyBudget !== null && (
+            <span className={`text-sm ${spentToday > settings.dailyBudget ? 'text-red-400' : 'text-gray-400'}`}>
+              {formatCost(spentToday)} spent today. Starting a video over budget asks first.
+            </span>
+          )}
+        </div>
+
+        <TotalsTable
+          title="Per model"
+          rows={byModel}
+          renderLabel={key => describeModelChoice(parseModelChoiceKey(key))}
+          extraHeading="Price ($)"
+          renderExtra={key => (
+            <input
+              type="number"
+              min={0}
+              step="0.001"
+              value={settings.prices[key] ?? ''}
+              placeholder="0"
+              aria-label={`Price per output of ${describeModelChoice(parseModelChoiceKey(key))}`}
+              onChange={(e) => {
+                const { [key]: _, ...prices } = settings.prices;
+                onSettingsChange({ ...settings, prices: e.target.value === '' ? prices : { ...prices, [key]: Math.max(0, Number(e.target.value)) } });
+              }}
+              className="w-20 bg-gray-700 border border-gray-600 rounded-md text-white text-right px-2 py-0.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          )}
+        />
+        <TotalsTable
+          title="Per board"
+          rows={byBoard}
+          renderLabel={key => boards.find(board => board.id === key)?.name ?? <span className="text-gray-500">Deleted board</span>}
+        />
+        <TotalsTable title={`Per day (last ${DAYS_SHOWN} days with calls)`} rows={byDay} />
+
+        <div className="mt-8 flex justify-end space-x-3">
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="px-6 py-2 bg-gray-700 text-gray-200 font-semibold rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear history
+          </button>
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-500 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageModal;
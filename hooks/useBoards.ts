@@ -0,0 +1,102 @@
+import { useState, useCallback, useEffect } from 'react';
+import { BoardMeta } from '../types';
+import { loadState, saveState, copyBoardState, removeBoardState, migrateLegacyBoardState } from '../utils/storage';
+import { copyBoardItems, deleteBoardItems, DEFAULT_BOARD_ID } from '../services/storageService';
+
+const createBoardMeta = (id: string, name: string): BoardMeta => {
+    const now = Date.now();
+    return { id, name, createdAt: now, updatedAt: now };
+};
+
+/**
+ * Loads the board list, creating the default board on first run. The default board
+ * inherits whatever was saved before boards existed.
+ */
+const loadInitialBoards = (): BoardMeta[] => {
+    const boards = loadState<BoardMeta[]>('boards', []);
+    if (boards.length > 0) {
+        return boards;
+    }
+    migrateLegacyBoardState(DEFAULT_BOARD_ID);
+    return [createBoardMeta(DEFAULT_BOARD_ID, 'My Board')];
+};
+
+/**
+ * A custom hook for managing the list of named boards and which one is active.
+ * Board contents (items, viewport, settings) are loaded and saved by the caller;
+ * this hook only owns the board metadata and the storage lifecycle of whole boards.
+ */
+export const useBoards = () => {
+    const [boards, setBoards] = useState<BoardMeta[]>(loadInitialBoards);
+    const [activeBoardId, setActiveBoardId] = useState<string>(() => {
+        const savedId = loadState('activeBoardId', DEFAULT_BOARD_ID);
+        const savedBoards = loadState<BoardMeta[]>('boards', []);
+        return savedBoards.some(b => b.id === savedId) ? savedId : (savedBoards[0]?.id ?? DEFAULT_BOARD_ID);
+    });
+
+    useEffect(() => { saveState('boards', boards); }, [boards]);
+    useEffect(() => { saveState('activeBoardId', activeBoardId); }, [activeBoardId]);
+
+    /**
+     * Adds an empty board.
+     * @returns The id of the new board.
+     */
+    const createBoard = useCallback((name: string): string => {
+        const board = createBoardMeta(`board_${Date.now()}`, name);
+        setBoards(prev => [...prev, board]);
+        return board.id;
+    }, []);
+
+    const renameBoard = useCallback((boardId: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        setBoards(prev => prev.map(b => b.id === boardId ? { ...b, name: trimmed, updatedAt: Date.now() } : b));
+    }, []);
+
+    /**
+     * Marks a board as modified, e.g. after its items were saved.
+     */
+    const touchBoard = useCallback((boardId: string) => {
+        setBoards(prev => prev.map(b => b.id === boardId ? { ...b, updatedAt: Date.now() } : b));
+    }, []);
+
+    /**
+     * Copies a board's saved items and settings into a new board.
+     * @returns The id of the copy.
+     */
+    const duplicateBoard = useCallback(async (boardId: string): Promise<string> => {
+        const source = boards.find(b => b.id === boardId);
+        const copy = createBoardMeta(`board_${Date.now()}`, `${source?.name ?? 'Board'} (copy)`);
+        await copyBoardItems(boardId, copy.id);
+        copyBoardState(boardId, copy.id);
+        setBoards(prev => {
+            const index = prev.findIndex(b => b.id === boardId);
+            const next = [...prev];
+            next.splice(index + 1, 0, copy);
+            return next;
+        });
+        return copy.id;
+    }, [boards]);
+
+    /**
+     * Permanently deletes a board. The last remaining board cannot be deleted, and the
+     * caller is responsible for switching away from the board first if it is active.
+     */
+    const deleteBoard = useCallback(async (boardId: string) => {
+        if (boards.length <= 1) return;
+        await deleteBoardItems(boardId);
+        removeBoardState(boardId);
+        setBoards(prev => prev.filter(b => b.id !== boardId));
+    }, [boards.length]);
+
+    return {
+        boards,
+        activeBoardId,
+        setActiveBoardId,
+        createBoard,
+        renameBoard,
+        touchBoard,
+        duplicateBoard,
+        deleteBoard,
+    };
+};
@@ -0,0 +1,42 @@
+import { useState, useCallback, useEffect } from 'react';
+import { CredentialStatus } from '../types';
+import { getProviders } from '../services/providers';
+import { getCredential, isVaultLocked, subscribeToCredentials } from '../services/credentialStore';
+
+/**
+ * A custom hook that checks every provider's saved API key with its backend, again whenever
+ * a key changes or the key store is unlocked.
+ * @returns The latest status per provider id, and a function to run the checks again.
+ */
+export const useCredentialStatus = () => {
+    const [statuses, setStatuses] = useState<Record<string, CredentialStatus>>({});
+    const [revision, setRevision] = useState(0);
+
+    useEffect(() => subscribeToCredentials(() => setRevision(r => r + 1)), []);
+
+    useEffect(() => {
+        let isCancelled = false;
+        getProviders().filter(provider => provider.testCredential).forEach(async provider => {
+            const setStatus = (status: CredentialStatus) => {
+                if (!isCancelled) setStatuses(prev => ({ ...prev, [provider.id]: status }));
+            };
+            const apiKey = getCredential(provider.id);
+            if (isVaultLocked()) return setStatus({ state: 'locked' });
+            if (!apiKey) return setStatus({ state: 'missing' });
+
+            setStatus({ state: 'checking' });
+            try {
+                const isValid = await provider.testCredential!(apiKey);
+                setStatus(isValid ? { state: 'valid' } : { state: 'invalid', message: 'The key was rejected.' });
+            } catch (e) {
+                console.error(`Failed to check the API key for ${provider.name}`, e);
+                setStatus({ state: 'unverified', message: e instanceof Error ? e.message : String(e) });
+            }
+        });
+        return () => { isCancelled = true; };
+    }, [revision]);
+
+    const recheckCredentials = useCallback(() => setRevision(r => r + 1), []);
+
+    return { credentialStatuses: statuses, recheckCredentials };
+};
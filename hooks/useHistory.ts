@@ -86,9 +86,18 @@ export const useHistory = <T>(initialState: T, onStateChange?: () => void) => {
         });
     }, [onStateChange]);
 
+    /**
+     * Replaces the whole history with a single state, e.g. after loading a document.
+     * This is not a user edit, so `onStateChange` is not fired and nothing can be undone past it.
+     */
+    const reset = useCallback((newState: T) => {
+        setStateInternal({ history: [newState], index: 0 });
+    }, []);
+
     return {
         state: history[index],
         setState,
+        reset,
         undo,
         redo,
         canUndo: index > 0,
@@ -0,0 +1,159 @@
+// A stand-in for an Automatic1111-style Stable Diffusion server, for trying the
+// "Local Stable Diffusion" provider without a GPU. It implements the endpoints the
+// provider calls and answers with fixture images:
+//
+//   POST /sdapi/v1/txt2img      -> a gradient PNG of the requested size, tinted by the prompt
+//   POST /sdapi/v1/img2img      -> the same, sized like the request; the mask only changes the tint
+//   POST /sdapi/v1/interrogate  -> a fixed caption
+//   GET  /sdapi/v1/sd-models    -> a single fake checkpoint
+//
+// Usage: npm run stub:local-sd [-- --port 7860 --delay 500]
+
+import http from 'node:http';
+import zlib from 'node:zlib';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? Number(args[index + 1]) : fallback;
+};
+const PORT = option('port', 7860);
+const DELAY_MS = option('delay', 300);
+
+// --- Minimal PNG encoding (8-bit RGB, no filtering) ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (buffer) => {
+    let crc = 0xffffffff;
+    for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type, data) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndData));
+    return Buffer.concat([length, typeAndData, crc]);
+};
+
+const encodePng = (width, height, pixelAt) => {
+    const rows = Buffer.alloc((width * 3 + 1) * height);
+    for (let y = 0; y < height; y++) {
+        const rowStart = y * (width * 3 + 1);
+        for (let x = 0; x < width; x++) {
+            const [r, g, b] = pixelAt(x, y);
+            rows[rowStart + 1 + x * 3] = r;
+            rows[rowStart + 2 + x * 3] = g;
+            rows[rowStart + 3 + x * 3] = b;
+        }
+    }
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // color type: RGB
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        chunk('IHDR', header),
+        chunk('IDAT', zlib.deflateSync(rows)),
+        chunk('IEND', Buffer.alloc(0)),
+    ]);
+};
+
+const hueFromText = (text) => [...text].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 360, 7);
+
+const hslToRgb = (h, s, l) => {
+    const a = s * Math.min(l, 1 - l);
+    const f = (n) => {
+        const k = (n + h / 30) % 12;
+        return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    };
+    return [f(0), f(8), f(4)];
+};
+
+const gradientPng = (width, height, prompt) => {
+    const hue = hueFromText(prompt ?? '');
+    return encodePng(width, height, (x, y) => hslToRgb((hue + (x / width) * 60) % 360, 0.6, 0.3 + (y / height) * 0.4));
+};
+
+// --- HTTP ---
+
+const readJson = (req) => new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (data) => chunks.push(data));
+    req.on('end', () => {
+        try {
+            resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+        } catch (error) {
+            reject(error);
+        }
+    });
+    req.on('error', reject);
+});
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    });
+    res.end(JSON.stringify(body));
+};
+
+const routes = {
+    'POST /sdapi/v1/txt2img': (body) => {
+        const width = body.width ?? 512;
+        const height = body.height ?? 512;
+        return {
+            images: [gradientPng(width, height, body.prompt).toString('base64')],
+            parameters: body,
+            info: JSON.stringify({ prompt: body.prompt, width, height, stub: true }),
+        };
+    },
+    'POST /sdapi/v1/img2img': (body) => {
+        const initImage = body.init_images?.[0];
+        if (!initImage) return { status: 422, body: { detail: 'init_images is required' } };
+        const width = body.width ?? 512;
+        const height = body.height ?? 512;
+        const prompt = `${body.prompt ?? ''}${body.mask ? ' (masked)' : ''}`;
+        return {
+            images: [gradientPng(width, height, prompt).toString('base64')],
+            parameters: { ...body, init_images: ['<omitted>'], mask: body.mask ? '<omitted>' : undefined },
+            info: JSON.stringify({ prompt: body.prompt, width, height, masked: !!body.mask, stub: true }),
+        };
+    },
+    'POST /sdapi/v1/interrogate': (body) => {
+        if (!body.image) return { status: 422, body: { detail: 'image is required' } };
+        return { caption: 'a colorful abstract composition on a plain background' };
+    },
+    'GET /sdapi/v1/sd-models': () => [
+        { title: 'stub-model.safetensors [0000000000]', model_name: 'stub-model', filename: 'stub-model.safetensors' },
+    ],
+};
+
+const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204, {});
+    const route = routes[`${req.method} ${req.url?.split('?')[0]}`];
+    if (!route) return send(res, 404, { detail: 'Not Found' });
+    try {
+        const result = route(req.method === 'POST' ? await readJson(req) : {});
+        await new Promise((resolve) => setTimeout(resolve, DELAY_MS));
+        if (result && typeof result.status === 'number') return send(res, result.status, result.body);
+        send(res, 200, result);
+        console.log(`${req.method} ${req.url} -> 200`);
+    } catch (error) {
+        send(res, 400, { detail: String(error) });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Local Stable Diffusion stub listening on http://127.0.0.1:${PORT}`);
+});
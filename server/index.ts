@@ -0,0 +1,364 @@
+// An optional proxy for team deployments that keeps the Gemini API key on the server. The
+// browser talks to these endpoints through the "Team server" provider instead of calling
+// Gemini itself:
+//
+//   POST /api/interpret        -> { text }             canvas or Magic Fill prompt interpretation
+//   POST /api/generate-image   -> { image, steps }     text-to-image, or canvas-to-image when images are sent
+//   POST /api/inpaint          -> { image }
+//   POST /api/outpaint         -> { image }
+//   POST /api/generate-video   -> { operation }        starts a video job
+//   GET  /api/video?operation= -> 202 { done: false } while processing, then the video bytes
+//   GET  /api/health           -> { user }             checks an access token
+//
+// Environment:
+//   GEMINI_API_KEY   required
+//   PORT             default 8787
+//   PROXY_TOKENS     "alice:token-a,bob:token-b"; when set, every request needs
+//                    "Authorization: Bearer <token>" and limits apply per user name.
+//                    Otherwise anyone who can reach the server may use it, limited per IP.
+//   RATE_LIMIT       generation requests per user per minute, default 30
+//   ALLOWED_ORIGIN   value of Access-Control-Allow-Origin, default "*"
+//
+// Usage: GEMINI_API_KEY=... npm run proxy
+
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { CanvasItem, GeneratedImage, ImageItem, ImageParameters, ProviderCapability } from '../types';
+import {
+    createGeminiProvider, GEMINI_MODELS, startVideoOperation, getVideoOperationResult, fetchVideoFile
+} from '../services/geminiService';
+import { getErrorStatus } from '../services/taskQueue';
+import { ASPECT_RATIOS } from '../utils/geometry';
+import { createRateLimiter } from './rateLimiter';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const API_KEY = process.env.GEMINI_API_KEY ?? '';
+const RATE_LIMIT = Number(process.env.RATE_LIMIT ?? 30);
+const RATE_LIMIT_WINDOW_MS = 60_000;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN ?? '*';
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+// How long a started video can be fetched. Videos that are never fetched are forgotten after this.
+const VIDEO_OWNER_TTL_MS = 6 * 60 * 60 * 1000;
+
+if (!API_KEY) {
+    console.error('Set GEMINI_API_KEY to start the proxy server.');
+    process.exit(1);
+}
+
+// Maps each access token to its user name.
+const usersByToken = new Map(
+    (process.env.PROXY_TOKENS ?? '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.includes(':'))
+        .map(entry => [entry.slice(entry.indexOf(':') + 1), entry.slice(0, entry.indexOf(':'))] as const)
+);
+
+const gemini = createGeminiProvider({ getApiKey: () => API_KEY, setupHint: 'Set GEMINI_API_KEY on the proxy server.' });
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+const rateLimiter = createRateLimiter(RATE_LIMIT, RATE_LIMIT_WINDOW_MS);
+// Who started each video operation, and when, so that users can only fetch their own videos.
+// Entries are removed once the video has been sent, or after VIDEO_OWNER_TTL_MS.
+const videoOwners = new Map<string, { user: string; startedAt: number }>();
+
+const pruneVideoOwners = () => {
+    const now = Date.now();
+    videoOwners.forEach(({ startedAt }, operation) => {
+        if (now - startedAt > VIDEO_OWNER_TTL_MS) videoOwners.delete(operation);
+    });
+};
+
+interface Reply {
+    status: number;
+    body: unknown;
+}
+
+const ok = (body: unknown): Reply => ({ status: 200, body });
+const badRequest = (error: string): Reply => ({ status: 400, body: { error } });
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+const sendJson = (res: http.ServerResponse, { status, body }: Reply, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+type RequestBody = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const describe = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+const readJson = (req: http.IncomingMessage): Promise<RequestBody> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (data: Buffer) => {
+        size += data.length;
+        if (size <= MAX_BODY_BYTES) chunks.push(data);
+    });
+    req.on('end', () => {
+        if (size > MAX_BODY_BYTES) {
+            return reject(new Error(`The request is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB.`));
+        }
+        try {
+            const body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+            resolve(isRecord(body) ? body : {});
+        } catch (error) {
+            reject(new Error('The request body is not valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+/**
+ * Returns the user a request belongs to, or null if it lacks a valid access token.
+ */
+const identify = (req: http.IncomingMessage): string | null => {
+    if (usersByToken.size === 0) {
+        return req.socket.remoteAddress ?? 'unknown';
+    }
+    const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    return (token && usersByToken.get(token)) || null;
+};
+
+/**
+ * Returns an error message unless `model` is one this server offers for the capability.
+ */
+const checkModel = (capability: ProviderCapability, model: unknown): string | null => {
+    return typeof model === 'string' && GEMINI_MODELS[capability]?.includes(model)
+        ? null
+        : `The model "${String(model)}" is not available for ${capability} on this server.`;
+};
+
+// --- Request validation ---
+// Bodies come from any client, so every field is checked before it reaches the SDK: a malformed
+// request gets a 400 rather than an error from the provider.
+
+interface FieldCheck {
+    test: (value: unknown) => boolean;
+    expected: string; // Completes "... must be ".
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isImageItem = (value: unknown): value is ImageItem => isRecord(value) && isString(value.src) && isString(value.mimeType);
+
+const isCanvasItem = (value: unknown): value is CanvasItem => {
+    if (!isRecord(value) || !isString(value.id) || !isString(value.type)) return false;
+    if (value.type === 'group' || value.type === 'frame') return Array.isArray(value.children) && value.children.every(isCanvasItem);
+    return true;
+};
+
+const isImageParameters = (value: unknown): value is ImageParameters => {
+    return isRecord(value)
+        && ASPECT_RATIOS.some(ratio => ratio === value.aspectRatio)
+        && isNumber(value.seed)
+        && isNumber(value.outputSize)
+        && (value.negativePrompt === undefined || isString(value.negativePrompt))
+        && (value.guidanceScale === undefined || isNumber(value.guidanceScale));
+};
+
+const STRING: FieldCheck = { test: isString, expected: 'a string' };
+const IMAGE: FieldCheck = { test: isImageItem, expected: 'an image with "src" and "mimeType"' };
+const IMAGES: FieldCheck = { test: value => Array.isArray(value) && value.every(isImageItem), expected: 'an array of images with "src" and "mimeType"' };
+const ITEMS: FieldCheck = { test: value => Array.isArray(value) && value.every(isCanvasItem), expected: 'an array of canvas items' };
+const PARAMETERS: FieldCheck = {
+    test: isImageParameters,
+    expected: `image parameters with an "aspectRatio" of ${ASPECT_RATIOS.join(', ')}, and numeric "seed" and "outputSize"`,
+};
+
+// Lets a field be left out, or be null.
+const optional = (check: FieldCheck): FieldCheck => ({ test: value => value === undefined || value === null || check.test(value), expected: check.expected });
+
+/**
+ * Returns an error message for the first field that is missing or of the wrong type, or null.
+ */
+const checkFields = (body: RequestBody, checks: Record<string, FieldCheck>): string | null => {
+    for (const [field, check] of Object.entries(checks)) {
+        if (check.test(body[field])) continue;
+        return body[field] === undefined || body[field] === null
+            ? `The request is missing "${field}".`
+            : `"${field}" must be ${check.expected}, but is ${describe(body[field])}.`;
+    }
+    return null;
+};
+
+// The casts below are safe once checkModel and checkFields have passed.
+const routes: Record<string, (body: RequestBody, user: string) => Promise<Reply>> = {
+    '/api/interpret': async (body) => {
+        const isMagicFill = body.mode === 'magicFill';
+        const error = checkModel('interpretation', body.model)
+            ?? checkFields(body, isMagicFill
+                ? { snapshotDataUrl: STRING, sourceImage: optional(IMAGE), userPrompt: optional(STRING) }
+                : { snapshotDataUrl: STRING, items: optional(ITEMS), userPrompt: optional(STRING) });
+        if (error) return badRequest(error);
+        const model = body.model as string;
+        const snapshotDataUrl = body.snapshotDataUrl as string;
+        const userPrompt = (body.userPrompt as string | undefined) ?? '';
+        const text = isMagicFill
+            ? await gemini.interpretMagicFill!({ model, snapshotDataUrl, sourceImage: (body.sourceImage as ImageItem | undefined) ?? null, userPrompt })
+            : await gemini.interpretCanvas!({ model, snapshotDataUrl, items: (body.items as CanvasItem[] | undefined) ?? [], userPrompt });
+        return ok({ text });
+    },
+    '/api/generate-image': async (body) => {
+        const hasImages = Array.isArray(body.images) && body.images.length > 0;
+        const capability: ProviderCapability = hasImages ? 'canvasToImage' : 'textToImage';
+        const error = checkModel(capability, body.model)
+            ?? checkFields(body, hasImages
+                ? { prompt: STRING, parameters: PARAMETERS, images: IMAGES, snapshotDataUrl: STRING }
+                : { prompt: STRING, parameters: PARAMETERS, images: optional(IMAGES) });
+        if (error) return badRequest(error);
+        const model = body.model as string;
+        const prompt = body.prompt as string;
+        const parameters = body.parameters as ImageParameters;
+        // Progress messages cannot be streamed back, so they are returned with the image.
+        const steps: string[] = [];
+        const onStepUpdate = (step: string) => { steps.push(step); };
+        const image: GeneratedImage = hasImages
+            ? await gemini.generateImageFromCanvas!({ model, prompt, images: body.images as ImageItem[], snapshotDataUrl: body.snapshotDataUrl as string, parameters, onStepUpdate })
+            : await gemini.generateImageFromText!({ model, prompt, parameters, onStepUpdate });
+        return ok({ image, steps });
+    },
+    '/api/inpaint': async (body) => {
+        const error = checkModel('inpaint', body.model)
+            ?? checkFields(body, { prompt: STRING, image: IMAGE, maskDataUrl: STRING, referenceImage: optional(IMAGE) });
+        if (error) return badRequest(error);
+        const image = await gemini.editImageWithMask!({
+            model: body.model as string,
+            prompt: body.prompt as string,
+            image: body.image as ImageItem,
+            maskDataUrl: body.maskDataUrl as string,
+            referenceImage: (body.referenceImage as ImageItem | undefined) ?? null,
+        });
+        return ok({ image });
+    },
+    '/api/outpaint': async (body) => {
+        const error = checkModel('outpaint', body.model) ?? checkFields(body, { prompt: STRING, imageDataUrl: STRING, maskDataUrl: STRING });
+        if (error) return badRequest(error);
+        const image = await gemini.generateOutpaintedImage!({
+            model: body.model as string, prompt: body.prompt as string, imageDataUrl: body.imageDataUrl as string, maskDataUrl: body.maskDataUrl as string,
+        });
+        return ok({ image });
+    },
+    '/api/generate-video': async (body, user) => {
+        const error = checkModel('video', body.model) ?? checkFields(body, { prompt: STRING, snapshotDataUrl: STRING });
+        if (error) return badRequest(error);
+        const operation = await startVideoOperation(ai, { model: body.model as string, prompt: body.prompt as string, snapshotDataUrl: body.snapshotDataUrl as string });
+        pruneVideoOwners();
+        videoOwners.set(operation, { user, startedAt: Date.now() });
+        return ok({ operation });
+    },
+};
+
+/**
+ * Answers 202 while the video is processing, then streams the file so the download link and
+ * the key it needs stay on the server.
+ */
+const sendVideo = async (res: http.ServerResponse, operation: string) => {
+    const downloadLink = await getVideoOperationResult(ai, operation);
+    if (!downloadLink) {
+        return sendJson(res, { status: 202, body: { done: false } });
+    }
+    const file = await fetchVideoFile(downloadLink, API_KEY);
+    const contentLength = file.headers.get('content-length');
+    res.writeHead(200, {
+        ...CORS_HEADERS,
+        'Content-Type': file.headers.get('content-type') ?? 'video/mp4',
+        ...(contentLength ? { 'Content-Length': contentLength } : {}),
+    });
+    if (!file.body) {
+        return res.end();
+    }
+    const reader = file.body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        if (!res.write(chunk.value)) {
+            await new Promise(resolve => res.once('drain', resolve));
+        }
+    }
+    res.end();
+    videoOwners.delete(operation);
+};
+
+const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse, user: string) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === '/api/health') {
+        return sendJson(res, ok({ user }));
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/video') {
+        const operation = url.searchParams.get('operation') ?? '';
+        pruneVideoOwners();
+        if (videoOwners.get(operation)?.user !== user) {
+            return sendJson(res, { status: 404, body: { error: 'No video with that operation was started by you on this server.' } });
+        }
+        return sendVideo(res, operation);
+    }
+
+    const route = routes[url.pathname];
+    if (req.method !== 'POST' || !route) {
+        return sendJson(res, { status: 404, body: { error: 'Not Found' } });
+    }
+
+    const retryAfter = rateLimiter.take(user);
+    if (retryAfter > 0) {
+        return sendJson(res, { status: 429, body: { error: `Rate limit of ${RATE_LIMIT} requests per minute reached.` } }, { 'Retry-After': String(retryAfter) });
+    }
+
+    let body: RequestBody;
+    try {
+        body = await readJson(req);
+    } catch (error) {
+        return sendJson(res, badRequest(error instanceof Error ? error.message : String(error)));
+    }
+    sendJson(res, await route(body, user));
+};
+
+/**
+ * The status to report a failed request with. Gemini's own status is passed on, so that clients
+ * retry only rate limits and server errors. A 401 would read as a bad access token, so a rejected
+ * API key is reported as 403. Errors without a status, such as a refused prompt, get 422, which
+ * clients do not retry.
+ */
+const getFailureStatus = (error: unknown): number => {
+    const status = getErrorStatus(error);
+    if (status === null || status < 400 || status > 599) return 422;
+    return status === 401 ? 403 : status;
+};
+
+const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        return res.end();
+    }
+
+    const user = identify(req);
+    if (!user) {
+        return sendJson(res, { status: 401, body: { error: 'A valid access token is required.' } });
+    }
+
+    try {
+        await handleRequest(req, res, user);
+    } catch (error) {
+        console.error(`${req.method} ${req.url} failed for ${user}:`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        if (res.headersSent) {
+            res.destroy();
+        } else {
+            sendJson(res, { status: getFailureStatus(error), body: { error: message } });
+        }
+    }
+    console.log(`${user} ${req.method} ${req.url?.split('?')[0]} -> ${res.statusCode}`);
+});
+
+server.listen(PORT, () => {
+    console.log(`NanoCanvas proxy listening on http://127.0.0.1:${PORT}`);
+    if (usersByToken.size === 0) {
+        console.log('PROXY_TOKENS is not set, so anyone who can reach this server can use it.');
+    }
+});
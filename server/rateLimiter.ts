@@ -0,0 +1,28 @@
+/**
+ * Counts requests per user in a sliding window.
+ */
+export interface RateLimiter {
+    /**
+     * Records a request for `userId` if the user is under the limit.
+     * @returns 0 if the request may go ahead, otherwise the number of seconds until it would be allowed.
+     */
+    take: (userId: string) => number;
+}
+
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+    const requests = new Map<string, number[]>();
+
+    return {
+        take: (userId) => {
+            const now = Date.now();
+            const recent = (requests.get(userId) ?? []).filter(time => now - time < windowMs);
+            if (recent.length >= limit) {
+                requests.set(userId, recent);
+                return Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000));
+            }
+            recent.push(now);
+            requests.set(userId, recent);
+            return 0;
+        },
+    };
+};
@@ -0,0 +1,145 @@
+import { loadState, saveState } from '../utils/storage';
+
+/**
+ * Keeps the API keys users enter for each provider in localStorage, on this device only.
+ *
+ * Keys are stored as plain text unless the user sets a passphrase, in which case the whole set
+ * is encrypted with AES-GCM under a key derived from the passphrase (PBKDF2). An encrypted store
+ * starts locked on every page load; until it is unlocked no key is available.
+ */
+
+const STORAGE_KEY = 'credentials';
+const PBKDF2_ITERATIONS = 250_000;
+
+interface PlainVault {
+    encrypted: false;
+    keys: Record<string, string>;
+}
+
+interface EncryptedVault {
+    encrypted: true;
+    salt: string; // base64
+    iv: string;   // base64
+    data: string; // base64 AES-GCM ciphertext of the JSON-encoded keys
+}
+
+type StoredVault = PlainVault | EncryptedVault;
+
+const savedVault = loadState<StoredVault>(STORAGE_KEY, { encrypted: false, keys: {} });
+let vault: StoredVault = savedVault;
+let keys: Record<string, string> = savedVault.encrypted === false ? { ...savedVault.keys } : {};
+// Set while an encrypted vault is unlocked.
+let encryption: { key: CryptoKey; salt: Uint8Array } | null = null;
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const persist = async () => {
+    if (encryption) {
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, encryption.key, new TextEncoder().encode(JSON.stringify(keys)));
+        vault = { encrypted: true, salt: toBase64(encryption.salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+    } else {
+        vault = { encrypted: false, keys: { ...keys } };
+    }
+    saveState(STORAGE_KEY, vault);
+};
+
+const assertUnlocked = () => {
+    if (isVaultLocked()) {
+        throw new Error('Your saved API keys are locked. Enter your passphrase first.');
+    }
+};
+
+/**
+ * Calls `listener` whenever a key is added, changed or removed, or the store is unlocked.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToCredentials = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const isVaultEncrypted = () => vault.encrypted;
+
+export const isVaultLocked = () => vault.encrypted && !encryption;
+
+/**
+ * Returns the key saved for a provider, or null if there is none or the store is locked.
+ */
+export const getCredential = (providerId: string): string | null => keys[providerId] || null;
+
+export const setCredential = async (providerId: string, value: string) => {
+    assertUnlocked();
+    keys = { ...keys, [providerId]: value.trim() };
+    await persist();
+    notify();
+};
+
+export const clearCredential = async (providerId: string) => {
+    assertUnlocked();
+    const { [providerId]: _removed, ...rest } = keys;
+    keys = rest;
+    await persist();
+    notify();
+};
+
+/**
+ * Decrypts the saved keys for this session.
+ * @throws An Error if the passphrase is wrong.
+ */
+export const unlockVault = async (passphrase: string) => {
+    if (!vault.encrypted || encryption) return;
+    const salt = fromBase64(vault.salt);
+    const key = await deriveKey(passphrase, salt);
+    let decrypted: ArrayBuffer;
+    try {
+        decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.data));
+    } catch (e) {
+        throw new Error('The passphrase is not correct.');
+    }
+    keys = JSON.parse(new TextDecoder().decode(decrypted));
+    encryption = { key, salt };
+    notify();
+};
+
+/**
+ * Encrypts the saved keys with a new passphrase, or stores them as plain text again when
+ * `passphrase` is null. The store must be unlocked.
+ */
+export const setVaultPassphrase = async (passphrase: string | null) => {
+    assertUnlocked();
+    if (passphrase) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        encryption = { key: await deriveKey(passphrase, salt), salt };
+    } else {
+        encryption = null;
+    }
+    await persist();
+    notify();
+};
+
+/**
+ * Deletes every saved key, e.g. when the passphrase was forgotten.
+ */
+export const clearAllCredentials = () => {
+    keys = {};
+    encryption = null;
+    vault = { encrypted: false, keys: {} };
+    saveState(STORAGE_KEY, vault);
+    notify();
+};
@@ -1,18 +1,48 @@
 
-import { GoogleGenAI, Modality, GenerateContentResponse, Chat } from "@google/genai";
-import { CanvasItem, ImageItem, TextItem, SelectionRect } from '../types';
+import { GoogleGenAI, Modality, GenerateContentResponse, Chat, GenerateVideosOperation } from "@google/genai";
+import {
+    CanvasItem, ImageItem, TextItem, GenerationProvider, GeneratedImage, GeneratedVideo, TextToImageRequest, CanvasToImageRequest,
+    InpaintRequest, OutpaintRequest, VideoRequest, ResumeVideoRequest, CanvasInterpretationRequest, MagicFillInterpretationRequest, ImageParameters
+} from '../types';
+import { withoutHiddenItems } from '../utils/groups';
+
+/**
+ * The Gemini adapter. It takes its API key from a callback so that the same code runs in the
+ * browser with the user's own key and in the team proxy server (`server/`) with a key that
+ * never reaches the browser.
+ */
+
+export const GEMINI_PROVIDER_ID = 'gemini';
+
+export const GEMINI_MODELS: GenerationProvider['models'] = {
+    textToImage: ['imagen-4.0-generate-001', 'gemini-2.5-flash-image-preview'],
+    canvasToImage: ['gemini-2.5-flash-image-preview'],
+    inpaint: ['gemini-2.5-flash-image-preview'],
+    outpaint: ['gemini-2.5-flash-image-preview'],
+    video: ['veo-2.0-generate-001'],
+    interpretation: ['gemini-2.5-flash'],
+};
 
-let aiInstance: GoogleGenAI | null = null;
+const VIDEO_POLL_INTERVAL_MS = 10000;
+const IMAGEN_2K_MIN_SIZE = 1536;
 
-const getAiClient = (): GoogleGenAI => {
-    if (aiInstance) {
-        return aiInstance;
-    }
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable not set. Please set it to use the Gemini API.");
+// Imagen on the Gemini API takes no negative prompt, and Gemini image models have none, so it is
+// phrased as part of the prompt.
+const withNegativePrompt = (prompt: string, { negativePrompt }: ImageParameters) => {
+    return negativePrompt ? `${prompt}. Avoid: ${negativePrompt}.` : prompt;
+};
+
+const testCredential = async (apiKey: string): Promise<boolean> => {
+    try {
+        await new GoogleGenAI({ apiKey }).models.get({ model: 'gemini-2.5-flash' });
+        return true;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (/API key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+            return false;
+        }
+        throw error;
     }
-    aiInstance = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return aiInstance;
 };
 
 function isImageItem(item: CanvasItem): item is ImageItem {
@@ -23,29 +53,35 @@ function isTextItem(item: CanvasItem): item is TextItem {
     return item.type === 'text';
 }
 
-function serializeCanvasItems(items: CanvasItem[]): string {
-    let description = "The user has arranged the following items on a canvas:\n";
-    items.forEach(item => {
-        const rotationInfo = item.rotation !== 0 ? ` with a rotation of ${Math.round(item.rotation)} degrees` : '';
-        if (item.type === 'image') {
-            description += `- An image (originally from prompt: '${item.prompt}') is at position (${Math.round(item.x)}, ${Math.round(item.y)})${rotationInfo}.\n`;
-        } else if (item.type === 'text') {
-            description += `- A text note with content "${item.text}" (color: ${item.color}) is at position (${Math.round(item.x)}, ${Math.round(item.y)})${rotationInfo}.\n`;
-        } else if (item.type === 'drawing') {
-            if (item.points.length > 1) {
-                const xs = item.points.map(p => p.x);
-                const ys = item.points.map(p => p.y);
-                const minX = Math.round(Math.min(...xs));
-                const minY = Math.round(Math.min(...ys));
-                description += `- A ${item.color} freehand drawing is on the canvas, located near (${minX}, ${minY})${rotationInfo}.\n`;
-            }
+function describeCanvasItem(item: CanvasItem, indent: string): string {
+    const rotationInfo = item.rotation !== 0 ? ` with a rotation of ${Math.round(item.rotation)} degrees` : '';
+    if (item.type === 'image') {
+        return `${indent}- An image (originally from prompt: '${item.prompt}') is at position (${Math.round(item.x)}, ${Math.round(item.y)})${rotationInfo}.\n`;
+    } else if (item.type === 'text') {
+        return `${indent}- A text note with content "${item.text}" (color: ${item.color}) is at position (${Math.round(item.x)}, ${Math.round(item.y)})${rotationInfo}.\n`;
+    } else if (item.type === 'drawing') {
+        if (item.points.length > 1) {
+            const xs = item.points.map(p => p.x);
+            const ys = item.points.map(p => p.y);
+            const minX = Math.round(Math.min(...xs));
+            const minY = Math.round(Math.min(...ys));
+            return `${indent}- A ${item.color} freehand drawing is on the canvas, located near (${minX}, ${minY})${rotationInfo}.\n`;
         }
-    });
-    return description;
+    } else if (item.type === 'group') {
+        // Groups are how users say that items form one unit, e.g. a character and its caption.
+        return `${indent}- A group of ${item.children.length} items that belong together:\n` + item.children.map(child => describeCanvasItem(child, `${indent}  `)).join('');
+    } else if (item.type === 'frame') {
+        return `${indent}- A ${item.aspectRatio === 'custom' ? '' : `${item.aspectRatio} `}frame named "${item.name}" at position (${Math.round(item.x)}, ${Math.round(item.y)}), ${Math.round(item.width)}x${Math.round(item.height)}, holding ${item.children.length} items:\n` + item.children.map(child => describeCanvasItem(child, `${indent}  `)).join('');
+    }
+    return '';
 }
 
-export const interpretCanvas = async (snapshotDataUrl: string, items: CanvasItem[], userPrompt: string | null, model: string): Promise<string> => {
-    const ai = getAiClient();
+function serializeCanvasItems(items: CanvasItem[]): string {
+    // Hidden items are not in the snapshot, so they are not described either.
+    return "The user has arranged the following items on a canvas:\n" + withoutHiddenItems(items).map(item => describeCanvasItem(item, '')).join('');
+}
+
+const interpretCanvas = async (ai: GoogleGenAI, { snapshotDataUrl, items, userPrompt, model }: CanvasInterpretationRequest): Promise<string> => {
     const snapshotBase64 = snapshotDataUrl.split(',')[1];
     const snapshotPart = {
         inlineData: {
@@ -108,17 +144,11 @@ Your output must be ONLY the final, optimized prompt, phrased as a clear instruc
         return response.text.trim();
     } catch (error) {
         console.error("Error interpreting canvas:", error);
-        throw new Error("Failed to generate an optimized prompt from the canvas layout.");
+        throw new Error("Failed to generate an optimized prompt from the canvas layout.", { cause: error });
     }
 };
 
-export const interpretMagicFill = async (
-    snapshotDataUrl: string,
-    sourceImage: ImageItem | null,
-    userPrompt: string,
-    model: string
-): Promise<string> => {
-    const ai = getAiClient();
+const interpretMagicFill = async (ai: GoogleGenAI, { snapshotDataUrl, sourceImage, userPrompt, model }: MagicFillInterpretationRequest): Promise<string> => {
     const snapshotBase64 = snapshotDataUrl.split(',')[1];
     const snapshotPart = {
         inlineData: {
@@ -161,17 +191,11 @@ export const interpretMagicFill = async (
         return response.text.trim();
     } catch (error) {
         console.error("Error interpreting magic fill:", error);
-        throw new Error("Failed to generate an optimized prompt for the magic fill task.");
+        throw new Error("Failed to generate an optimized prompt for the magic fill task.", { cause: error });
     }
 };
 
-export const editImageWithMask = async (
-    targetImage: ImageItem,
-    maskImageBase64: string,
-    prompt: string,
-    referenceImage?: ImageItem | null
-): Promise<{ base64: string; mimeType: string }> => {
-    const ai = getAiClient();
+const editImageWithMask = async (ai: GoogleGenAI, { image: targetImage, maskDataUrl, prompt, referenceImage, model }: InpaintRequest): Promise<GeneratedImage> => {
 
     const targetImagePart = {
         inlineData: {
@@ -182,7 +206,7 @@ export const editImageWithMask = async (
 
     const maskImagePart = {
         inlineData: {
-            data: maskImageBase64.split(',')[1],
+            data: maskDataUrl.split(',')[1],
             mimeType: 'image/png',
         },
     };
@@ -210,7 +234,7 @@ export const editImageWithMask = async (
     
     try {
         const response: GenerateContentResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
+            model: model,
             contents: { parts: modelParts },
             config: {
                 responseModalities: [Modality.IMAGE],
@@ -235,29 +259,24 @@ export const editImageWithMask = async (
     } catch (error) {
         console.error("Error editing image with mask:", error);
         if (error instanceof Error) {
-            throw new Error(`Failed to edit image: ${error.message}`);
+            throw new Error(`Failed to edit image: ${error.message}`, { cause: error });
         }
         throw new Error("Failed to edit image due to an unknown error.");
     }
 };
 
-export const generateOutpaintedImage = async (
-    enlargedImageBase64: string,
-    maskImageBase64: string,
-    prompt: string
-): Promise<{ base64: string; mimeType: string }> => {
-    const ai = getAiClient();
+const generateOutpaintedImage = async (ai: GoogleGenAI, { imageDataUrl, maskDataUrl, prompt, model }: OutpaintRequest): Promise<GeneratedImage> => {
 
     const enlargedImagePart = {
         inlineData: {
-            data: enlargedImageBase64.split(',')[1],
+            data: imageDataUrl.split(',')[1],
             mimeType: 'image/png',
         },
     };
 
     const maskImagePart = {
         inlineData: {
-            data: maskImageBase64.split(',')[1],
+            data: maskDataUrl.split(',')[1],
             mimeType: 'image/png',
         },
     };
@@ -268,7 +287,7 @@ export const generateOutpaintedImage = async (
     
     try {
         const response: GenerateContentResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
+            model: model,
             contents: { parts: [enlargedImagePart, maskImagePart, textPart] },
             config: {
                 responseModalities: [Modality.IMAGE],
@@ -293,23 +312,23 @@ export const generateOutpaintedImage = async (
     } catch (error) {
         console.error("Error editing image with mask:", error);
         if (error instanceof Error) {
-            throw new Error(`Failed to edit image: ${error.message}`);
+            throw new Error(`Failed to edit image: ${error.message}`, { cause: error });
         }
         throw new Error("Failed to edit image due to an unknown error.");
     }
 };
 
-const generateImageFromText = async (
-    prompt: string,
-    model: string = 'imagen-4.0-generate-001'
-): Promise<{ base64: string; mimeType: string; textResponse: string }> => {
-    const ai = getAiClient();
+const generateImageFromText = async (ai: GoogleGenAI, { prompt, model, parameters, onStepUpdate }: TextToImageRequest): Promise<GeneratedImage> => {
 
     if (model === 'gemini-2.5-flash-image-preview') {
         const response: GenerateContentResponse = await ai.models.generateContent({
             model: 'gemini-2.5-flash-image-preview',
-            contents: { parts: [{ text: `Generate a high-quality, photorealistic image of: ${prompt}` }] },
-            config: { responseModalities: [Modality.IMAGE] },
+            contents: { parts: [{ text: `Generate a high-quality, photorealistic image of: ${withNegativePrompt(prompt, parameters)}` }] },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                seed: parameters.seed,
+                imageConfig: { aspectRatio: parameters.aspectRatio },
+            },
         });
 
         const part = response.candidates?.[0]?.content?.parts?.[0];
@@ -328,14 +347,19 @@ const generateImageFromText = async (
         throw new Error(errorMessage);
     }
 
-    // Default to 'imagen-4.0-generate-001'
+    // Imagen models use the dedicated image generation endpoint. It does not accept a seed on the Gemini API.
+    if (!parameters.isSeedRandom) {
+        onStepUpdate(`Seed ${parameters.seed} is not supported by ${model} and was ignored.`);
+    }
     const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: prompt,
+        model: model,
+        prompt: withNegativePrompt(prompt, parameters),
         config: {
             numberOfImages: 1,
             outputMimeType: 'image/png',
-            aspectRatio: '1:1',
+            aspectRatio: parameters.aspectRatio,
+            imageSize: parameters.outputSize >= IMAGEN_2K_MIN_SIZE ? '2K' : '1K',
+            ...(parameters.guidanceScale !== undefined ? { guidanceScale: parameters.guidanceScale } : {}),
         },
     });
 
@@ -344,17 +368,10 @@ const generateImageFromText = async (
     }
 
     const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-    return { base64: base64ImageBytes, mimeType: 'image/png', textResponse: `Image generated with ${model}.` };
+    return { base64: base64ImageBytes, mimeType: 'image/png', textResponse: `Image generated with ${model}.`, ignoredSeed: true };
 };
 
-const generateImageFromCanvas = async (
-    prompt: string,
-    images: ImageItem[],
-    snapshotDataUrl: string,
-    onStepUpdate: (message: string) => void,
-    model: string = 'gemini-2.5-flash-image-preview'
-): Promise<{ base64: string; mimeType: string; textResponse: string }> => {
-    const ai = getAiClient();
+const generateImageFromCanvas = async (ai: GoogleGenAI, { prompt, images, snapshotDataUrl, parameters, onStepUpdate, model, reviewPlan }: CanvasToImageRequest): Promise<GeneratedImage> => {
     const chat: Chat = ai.chats.create({ model: model });
 
     const snapshotBase64 = snapshotDataUrl.split(',')[1];
@@ -369,33 +386,57 @@ const generateImageFromCanvas = async (
 First, confirm you understand the task by briefly describing the image you will create. **Do not generate the image yet, only text.**
 - **Canvas Snapshot:** Your primary guide for placement, scale, and composition.
 - **Source Images:** Assets to be placed or modified.
-- **Final Instruction:** "${prompt}"
+- **Final Instruction:** "${prompt}"${parameters.negativePrompt ? `
+- **Avoid:** ${parameters.negativePrompt}` : ''}
 Describe your plan now.`;
 
     const confirmationTextPart = { text: confirmationPrompt };
     const initialParts = [snapshotPart, ...imageParts, confirmationTextPart];
 
-    onStepUpdate("Sending context to model for confirmation...");
-    const confirmationResponse: GenerateContentResponse = await chat.sendMessage({
-        message: initialParts,
-        config: { responseModalities: [Modality.TEXT] },
-    });
+    const requestPlan = async (message: typeof initialParts | string): Promise<string> => {
+        const confirmationResponse: GenerateContentResponse = await chat.sendMessage({
+            message,
+            config: { responseModalities: [Modality.TEXT] },
+        });
 
-    const confirmationText = confirmationResponse.text.trim();
-    if (!confirmationText) {
-        const safetyFeedback = confirmationResponse.promptFeedback;
-        let errorMessage = "Model did not provide a confirmation plan.";
-        if (safetyFeedback?.blockReason) {
-            errorMessage += ` Reason: ${safetyFeedback.blockReason}.`;
+        const confirmationText = confirmationResponse.text.trim();
+        if (!confirmationText) {
+            const safetyFeedback = confirmationResponse.promptFeedback;
+            let errorMessage = "Model did not provide a confirmation plan.";
+            if (safetyFeedback?.blockReason) {
+                errorMessage += ` Reason: ${safetyFeedback.blockReason}.`;
+            }
+            throw new Error(errorMessage);
+        }
+        onStepUpdate(`Model Plan: ${confirmationText}`);
+        return confirmationText;
+    };
+
+    onStepUpdate("Sending context to model for confirmation...");
+    let plan = await requestPlan(initialParts);
+    let proceedMessage = "That sounds correct. Please proceed and generate the image now.";
+    if (reviewPlan) {
+        let decision = await reviewPlan(plan);
+        while (decision.action === 'regenerate') {
+            onStepUpdate("Asking the model for a different plan...");
+            plan = await requestPlan("Describe a different plan for the same task. **Do not generate the image yet, only text.**");
+            decision = await reviewPlan(plan);
+        }
+        const confirmedPlan = decision.text.trim();
+        if (confirmedPlan !== plan) {
+            onStepUpdate(`Edited Plan: ${confirmedPlan}`);
+            proceedMessage = `Please follow this plan instead: "${confirmedPlan}". Proceed and generate the image now.`;
         }
-        throw new Error(errorMessage);
     }
-    onStepUpdate(`Model Plan: ${confirmationText}`);
 
     onStepUpdate("Confirmation received. Requesting final image...");
     const generationResponse: GenerateContentResponse = await chat.sendMessage({
-        message: "That sounds correct. Please proceed and generate the image now.",
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
+        message: proceedMessage,
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            seed: parameters.seed,
+            imageConfig: { aspectRatio: parameters.aspectRatio },
+        },
     });
     
     const candidate = generationResponse.candidates?.[0];
@@ -436,89 +477,168 @@ Describe your plan now.`;
     return { ...generatedImage, textResponse };
 };
 
-export const generateImage = async (
-    prompt: string,
-    images: ImageItem[],
-    snapshotDataUrl: string,
-    onStepUpdate: (message: string) => void,
-    model?: string
-): Promise<{ base64: string; mimeType: string; textResponse: string }> => {
-    try {
-        if (images.length === 0) {
-            onStepUpdate("Using text-to-image model for direct generation...");
-            return await generateImageFromText(prompt, model);
-        } else {
-            return await generateImageFromCanvas(prompt, images, snapshotDataUrl, onStepUpdate, model);
-        }
-    } catch (error) {
-        console.error("Error generating image:", error);
-        if (error instanceof Error) {
-            throw new Error(`Failed to generate the final image: ${error.message}`);
-        }
-        throw new Error("Failed to generate the final image due to an unknown error.");
+/**
+ * Starts a video generation job.
+ * @returns The name of the long-running operation, for `getVideoOperationResult`.
+ */
+export const startVideoOperation = async (ai: GoogleGenAI, { prompt, snapshotDataUrl, model }: Omit<VideoRequest, 'onStepUpdate'>): Promise<string> => {
+    const operation = await ai.models.generateVideos({
+        model: model,
+        prompt: prompt,
+        image: {
+            imageBytes: snapshotDataUrl.split(',')[1],
+            mimeType: 'image/png',
+        },
+        config: { numberOfVideos: 1 }
+    });
+    if (!operation.name) {
+        throw new Error("The video request was accepted, but no operation was returned.");
+    }
+    return operation.name;
+};
+
+/**
+ * Checks on a video operation.
+ * @returns The download link once the video is ready, or null while it is still processing.
+ */
+export const getVideoOperationResult = async (ai: GoogleGenAI, operationName: string): Promise<string | null> => {
+    const operation = await ai.operations.getVideosOperation({
+        operation: Object.assign(new GenerateVideosOperation(), { name: operationName }),
+    });
+    if (!operation.done) {
+        return null;
+    }
+    if (operation.error) {
+        throw new Error(`Video generation failed: ${operation.error.message}`);
     }
+    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!downloadLink) {
+        throw new Error("Video generation completed, but no download link was provided.");
+    }
+    return downloadLink;
+};
+
+/**
+ * Requests a generated video file. The key is sent as a header rather than in the URL, so it
+ * does not end up in logs or browser history.
+ */
+export const fetchVideoFile = async (downloadLink: string, apiKey: string, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(downloadLink, { headers: { 'x-goog-api-key': apiKey }, signal });
+    if (!response.ok) {
+        throw Object.assign(new Error(`Failed to download video file. Status: ${response.status}`), { status: response.status });
+    }
+    return response;
 };
 
-export const generateVideo = async (
-    prompt: string,
-    snapshotDataUrl: string,
+/**
+ * Polls a video operation until it finishes, then downloads the video.
+ */
+const pollVideoOperation = async (
+    ai: GoogleGenAI,
+    apiKey: string,
+    operationName: string,
     onStepUpdate: (message: string) => void,
-    model: string
-): Promise<{ videoBlob: Blob, mimeType: string }> => {
-    const ai = getAiClient();
-    const snapshotBase64 = snapshotDataUrl.split(',')[1];
-    
+    signal?: AbortSignal
+): Promise<GeneratedVideo> => {
+    const reassuringMessages = [
+        "Animating pixels...", "Composing the perfect shot...", "Rendering the final cut...", "Almost there, adding finishing touches..."
+    ];
+    let messageIndex = 0;
+    let downloadLink: string | null = null;
+
+    while (!downloadLink) {
+        await new Promise(resolve => setTimeout(resolve, VIDEO_POLL_INTERVAL_MS));
+        signal?.throwIfAborted();
+        onStepUpdate(reassuringMessages[messageIndex % reassuringMessages.length]);
+        messageIndex++;
+        downloadLink = await getVideoOperationResult(ai, operationName);
+    }
+
+    onStepUpdate("Video processed! Downloading video data...");
+
+    const response = await fetchVideoFile(downloadLink, apiKey, signal);
+    const videoBlob = await response.blob();
+
+    return { videoBlob, mimeType: 'video/mp4' };
+};
+
+const toVideoError = (error: unknown): Error => {
+    console.error("Error generating video:", error);
+    if (error instanceof Error) {
+        return new Error(`Failed to generate video: ${error.message}`, { cause: error });
+    }
+    return new Error("Failed to generate video due to an unknown error.");
+};
+
+const generateVideo = async (ai: GoogleGenAI, apiKey: string, { prompt, snapshotDataUrl, onStepUpdate, model, signal, onOperationStarted }: VideoRequest): Promise<GeneratedVideo> => {
     try {
         onStepUpdate("Starting video generation... This may take several minutes.");
         
-        let operation = await ai.models.generateVideos({
-            model: model,
-            prompt: prompt,
-            image: {
-                imageBytes: snapshotBase64,
-                mimeType: 'image/png',
-            },
-            config: { numberOfVideos: 1 }
-        });
+        const operationName = await startVideoOperation(ai, { prompt, snapshotDataUrl, model });
+        onOperationStarted?.(operationName);
         
         onStepUpdate("Video request sent. AI is now processing your scene.");
         
-        const reassuringMessages = [
-            "Animating pixels...", "Composing the perfect shot...", "Rendering the final cut...", "Almost there, adding finishing touches..."
-        ];
-        let messageIndex = 0;
-
-        while (!operation.done) {
-            await new Promise(resolve => setTimeout(resolve, 10000)); // Wait 10 seconds
-            onStepUpdate(reassuringMessages[messageIndex % reassuringMessages.length]);
-            messageIndex++;
-            operation = await ai.operations.getVideosOperation({ operation: operation });
-        }
+        return await pollVideoOperation(ai, apiKey, operationName, onStepUpdate, signal);
+    } catch (error) {
+        throw toVideoError(error);
+    }
+};
 
-        if (operation.error) {
-            throw new Error(`Video generation failed: ${operation.error.message}`);
-        }
+const resumeVideo = async (ai: GoogleGenAI, apiKey: string, { operation, onStepUpdate, signal }: ResumeVideoRequest): Promise<GeneratedVideo> => {
+    try {
+        onStepUpdate("Checking on the video started before the page was reloaded...");
+        return await pollVideoOperation(ai, apiKey, operation, onStepUpdate, signal);
+    } catch (error) {
+        throw toVideoError(error);
+    }
+};
 
-        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (!downloadLink) {
-            throw new Error("Video generation completed, but no download link was provided.");
-        }
-        
-        onStepUpdate("Video processed! Downloading video data...");
-        
-        const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-        if (!response.ok) {
-            throw new Error(`Failed to download video file. Status: ${response.status}`);
+interface GeminiProviderOptions {
+    /** Returns the key to use, or null if none is set. Called before every request. */
+    getApiKey: () => string | null;
+    /** Tells the user how to provide a key. */
+    setupHint: string;
+}
+
+export const createGeminiProvider = ({ getApiKey, setupHint }: GeminiProviderOptions): GenerationProvider => {
+    let aiInstance: GoogleGenAI | null = null;
+    let aiInstanceKey: string | null = null;
+
+    const requireApiKey = (): string => {
+        const apiKey = getApiKey();
+        if (!apiKey) {
+            throw new Error(`No Gemini API key is set. ${setupHint}`);
         }
-        const videoBlob = await response.blob();
-        
-        return { videoBlob, mimeType: 'video/mp4' };
+        return apiKey;
+    };
 
-    } catch (error) {
-        console.error("Error generating video:", error);
-        if (error instanceof Error) {
-            throw new Error(`Failed to generate video: ${error.message}`);
+    // The client is re-created whenever the key changes.
+    const getAiClient = (): GoogleGenAI => {
+        const apiKey = requireApiKey();
+        if (aiInstance && aiInstanceKey === apiKey) {
+            return aiInstance;
         }
-        throw new Error("Failed to generate video due to an unknown error.");
-    }
+        aiInstance = new GoogleGenAI({ apiKey });
+        aiInstanceKey = apiKey;
+        return aiInstance;
+    };
+
+    return {
+        id: GEMINI_PROVIDER_ID,
+        name: 'Google Gemini',
+        models: GEMINI_MODELS,
+        isConfigured: () => !!getApiKey(),
+        setupHint,
+        credentialLabel: 'Gemini API key',
+        testCredential,
+        generateImageFromText: (request) => generateImageFromText(getAiClient(), request),
+        generateImageFromCanvas: (request) => generateImageFromCanvas(getAiClient(), request),
+        editImageWithMask: (request) => editImageWithMask(getAiClient(), request),
+        generateOutpaintedImage: (request) => generateOutpaintedImage(getAiClient(), request),
+        generateVideo: (request) => generateVideo(getAiClient(), requireApiKey(), request),
+        resumeVideo: (request) => resumeVideo(getAiClient(), requireApiKey(), request),
+        interpretCanvas: (request) => interpretCanvas(getAiClient(), request),
+        interpretMagicFill: (request) => interpretMagicFill(getAiClient(), request),
+    };
 };
@@ -0,0 +1,271 @@
+import {
+    CanvasItem, ImageItem, ModelChoice, GenerationProvider, GeneratedImage, GeneratedVideo, GenerationParameters, ImageParameters, SelectionRect,
+    ProviderMethod, PromptReviewDecision, RecordedImageParameters
+} from '../types';
+import { getProvider } from './providers';
+import { trackUsage } from './usageService';
+import { withCache } from './responseCache';
+import { getClosestAspectRatio } from '../utils/geometry';
+
+/**
+ * Routes each generation request to the provider chosen in the model settings, and records it
+ * for the usage dashboard. Interpretations, and images if the user opts in, are answered from the
+ * response cache when the exact same request was made before.
+ */
+
+const METHOD_DESCRIPTIONS: Record<ProviderMethod, string> = {
+    generateImageFromText: 'text-to-image generation',
+    generateImageFromCanvas: 'canvas-to-image generation',
+    editImageWithMask: 'inpainting',
+    generateOutpaintedImage: 'outpainting',
+    generateVideo: 'video generation',
+    resumeVideo: 'resuming video generation',
+    interpretCanvas: 'canvas interpretation',
+    interpretMagicFill: 'magic fill interpretation',
+};
+
+const requireProvider = (choice: ModelChoice, method: ProviderMethod): GenerationProvider => {
+    const provider = getProvider(choice.provider);
+    if (!provider) {
+        throw new Error(`The provider "${choice.provider}" is not available. Choose another model in Settings.`);
+    }
+    if (!provider[method]) {
+        throw new Error(`${provider.name} does not support ${METHOD_DESCRIPTIONS[method]}. Choose another model in Settings.`);
+    }
+    return provider;
+};
+
+const textSize = (text: string) => text.length * 2;
+const imageSize = (image: GeneratedImage) => image.base64.length + (image.textResponse?.length ?? 0) * 2;
+
+/**
+ * @param bypassCache Asks the model again rather than reusing a stored interpretation.
+ */
+export const interpretCanvas = (snapshotDataUrl: string, items: CanvasItem[], userPrompt: string | null, choice: ModelChoice, bypassCache = false): Promise<string> => {
+    const provider = requireProvider(choice, 'interpretCanvas');
+    return withCache(
+        'interpretation',
+        { method: 'interpretCanvas', choice, snapshotDataUrl, items, userPrompt },
+        () => trackUsage(choice, 'interpretCanvas', 1, () => provider.interpretCanvas!({ model: choice.model, snapshotDataUrl, items, userPrompt })),
+        { sizeOf: textSize, bypass: bypassCache }
+    );
+};
+
+export const interpretMagicFill = (snapshotDataUrl: string, sourceImage: ImageItem | null, userPrompt: string, choice: ModelChoice, bypassCache = false): Promise<string> => {
+    const provider = requireProvider(choice, 'interpretMagicFill');
+    return withCache(
+        'interpretation',
+        { method: 'interpretMagicFill', choice, snapshotDataUrl, sourceImage, userPrompt },
+        () => trackUsage(choice, 'interpretMagicFill', sourceImage ? 2 : 1, () => provider.interpretMagicFill!({ model: choice.model, snapshotDataUrl, sourceImage, userPrompt })),
+        { sizeOf: textSize, bypass: bypassCache }
+    );
+};
+
+export const editImageWithMask = (
+    targetImage: ImageItem,
+    maskDataUrl: string,
+    prompt: string,
+    referenceImage: ImageItem | null,
+    choice: ModelChoice
+): Promise<GeneratedImage> => {
+    const provider = requireProvider(choice, 'editImageWithMask');
+    return withCache(
+        'image',
+        { method: 'editImageWithMask', choice, prompt, targetImage, maskDataUrl, referenceImage },
+        () => trackUsage(choice, 'editImageWithMask', referenceImage ? 3 : 2, () => provider.editImageWithMask!({ model: choice.model, prompt, image: targetImage, maskDataUrl, referenceImage })),
+        { sizeOf: imageSize }
+    );
+};
+
+export const generateOutpaintedImage = (imageDataUrl: string, maskDataUrl: string, prompt: string, choice: ModelChoice): Promise<GeneratedImage> => {
+    const provider = requireProvider(choice, 'generateOutpaintedImage');
+    return withCache(
+        'image',
+        { method: 'generateOutpaintedImage', choice, prompt, imageDataUrl, maskDataUrl },
+        () => trackUsage(choice, 'generateOutpaintedImage', 2, () => provider.generateOutpaintedImage!({ model: choice.model, prompt, imageDataUrl, maskDataUrl })),
+        { sizeOf: imageSize }
+    );
+};
+
+/**
+ * The parameters that identify a request in the cache. A random seed is left out, so that
+ * repeating a request reuses its images; `variation` keeps the images of one set apart.
+ */
+const getCacheParameters = ({ seed, isSeedRandom, ...rest }: ImageParameters, variation: number) => {
+    return isSeedRandom ? { ...rest, variation } : { ...rest, seed };
+};
+
+/**
+ * Generates an image from a prompt alone when there are no input images, otherwise from the
+ * images and a snapshot of their layout. The caller picks the model for the matching capability.
+ * @param reviewPlan Lets the user review the model's plan, where the provider makes one. The
+ * result then depends on the review, so the cache is not used.
+ * @param variation The image's place in its set of variations.
+ */
+export const generateImage = async (
+    prompt: string,
+    images: ImageItem[],
+    snapshotDataUrl: string,
+    onStepUpdate: (message: string) => void,
+    choice: ModelChoice,
+    parameters: ImageParameters,
+    reviewPlan?: (plan: string) => Promise<PromptReviewDecision>,
+    variation = 0
+): Promise<GeneratedImage> => {
+    const onCacheHit = () => onStepUpdate("Reusing the image stored for this exact request...");
+    const cacheParameters = getCacheParameters(parameters, variation);
+    const withSeed = (image: GeneratedImage): GeneratedImage => parameters.isSeedRandom ? { ...image, randomSeed: parameters.seed } : image;
+    try {
+        if (images.length === 0) {
+            onStepUpdate("Using text-to-image model for direct generation...");
+            const provider = requireProvider(choice, 'generateImageFromText');
+            return await withCache(
+                'image',
+                { method: 'generateImageFromText', choice, prompt, parameters: cacheParameters },
+                () => trackUsage(choice, 'generateImageFromText', 0, () => provider.generateImageFromText!({ model: choice.model, prompt, parameters, onStepUpdate })).then(withSeed),
+                { sizeOf: imageSize, onHit: onCacheHit }
+            );
+        }
+        const provider = requireProvider(choice, 'generateImageFromCanvas');
+        const generate = () => trackUsage(
+            choice, 'generateImageFromCanvas', images.length + 1,
+            () => provider.generateImageFromCanvas!({ model: choice.model, prompt, images, snapshotDataUrl, parameters, onStepUpdate, reviewPlan })
+        ).then(withSeed);
+        if (reviewPlan) {
+            return await generate();
+        }
+        return await withCache(
+            'image',
+            { method: 'generateImageFromCanvas', choice, prompt, images, snapshotDataUrl, parameters: cacheParameters },
+            generate,
+            { sizeOf: imageSize, onHit: onCacheHit }
+        );
+    } catch (error) {
+        console.error("Error generating image:", error);
+        if (error instanceof Error) {
+            throw new Error(`Failed to generate the final image: ${error.message}`, { cause: error });
+        }
+        throw new Error("Failed to generate the final image due to an unknown error.");
+    }
+};
+
+export const VARIATION_COUNTS = [1, 2, 3, 4, 5, 6, 7, 8];
+export const OUTPUT_SIZES = [512, 1024, 2048];
+const MAX_SEED = 2 ** 31 - 1;
+
+export const DEFAULT_GENERATION_PARAMETERS: GenerationParameters = {
+    aspectRatio: 'selection',
+    seed: null,
+    negativePrompt: '',
+    guidanceScale: null,
+    count: 1,
+    outputSize: 1024,
+};
+
+/**
+ * Turns the user's settings into the parameters of each variation. A fixed seed gives variation
+ * `i` the seed `seed + i`, so re-running the same settings reproduces the whole set.
+ */
+export const resolveImageParameters = (parameters: GenerationParameters, selection: SelectionRect): ImageParameters[] => {
+    const aspectRatio = parameters.aspectRatio === 'selection' ? getClosestAspectRatio(selection) : parameters.aspectRatio;
+    return Array.from({ length: Math.max(1, parameters.count) }, (_, i) => ({
+        aspectRatio,
+        seed: parameters.seed !== null ? (parameters.seed + i) % MAX_SEED : Math.floor(Math.random() * MAX_SEED),
+        outputSize: parameters.outputSize,
+        ...(parameters.negativePrompt.trim() ? { negativePrompt: parameters.negativePrompt.trim() } : {}),
+        ...(parameters.guidanceScale !== null ? { guidanceScale: parameters.guidanceScale } : {}),
+        ...(parameters.seed === null ? { isSeedRandom: true } : {}),
+    }));
+};
+
+// What to record for an image: the seed only if the model used it. A reused image keeps the random seed it was made with.
+const toRecordedParameters = ({ seed, isSeedRandom, ...rest }: ImageParameters, image: GeneratedImage): RecordedImageParameters => {
+    return image.ignoredSeed ? rest : { ...rest, seed: image.randomSeed ?? seed };
+};
+
+/**
+ * The settings that reproduce one recorded image: its exact aspect ratio and seed, if the model used one, and one variation.
+ */
+export const parametersFromRecord = (parameters: RecordedImageParameters): GenerationParameters => ({
+    aspectRatio: parameters.aspectRatio,
+    seed: parameters.seed ?? null,
+    negativePrompt: parameters.negativePrompt ?? '',
+    guidanceScale: parameters.guidanceScale ?? null,
+    count: 1,
+    outputSize: parameters.outputSize,
+});
+
+/**
+ * Requests one image per entry of `variations` at once. Variations that fail are reported through
+ * `onStepUpdate` and left out; the call only fails if every variation does.
+ * @returns The generated images with the parameters each was made with.
+ */
+export const generateImageVariations = async (
+    prompt: string,
+    images: ImageItem[],
+    snapshotDataUrl: string,
+    onStepUpdate: (message: string) => void,
+    choice: ModelChoice,
+    variations: ImageParameters[],
+    reviewPlan?: (plan: string, label?: string) => Promise<PromptReviewDecision>
+): Promise<{ image: GeneratedImage; parameters: RecordedImageParameters }[]> => {
+    const count = variations.length;
+    if (count <= 1) {
+        const image = await generateImage(prompt, images, snapshotDataUrl, onStepUpdate, choice, variations[0], reviewPlan);
+        return [{ image, parameters: toRecordedParameters(variations[0], image) }];
+    }
+    const results = await Promise.allSettled(
+        variations.map(async (parameters, i) => {
+            const image = await generateImage(
+                prompt, images, snapshotDataUrl, message => onStepUpdate(`[${i + 1}/${count}] ${message}`), choice, parameters,
+                reviewPlan && (plan => reviewPlan(plan, `Variation ${i + 1} of ${count}`)), i
+            );
+            return { image, parameters: toRecordedParameters(parameters, image) };
+        })
+    );
+    const generated = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+            onStepUpdate(`Variation ${i + 1} failed: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+        }
+    });
+    if (generated.length === 0) {
+        const firstFailure = results[0] as PromiseRejectedResult;
+        throw firstFailure.reason;
+    }
+    return generated;
+};
+
+export const generateVideo = (
+    prompt: string,
+    snapshotDataUrl: string,
+    onStepUpdate: (message: string) => void,
+    choice: ModelChoice,
+    signal?: AbortSignal,
+    onOperationStarted?: (operation: string) => void
+): Promise<GeneratedVideo> => {
+    const provider = requireProvider(choice, 'generateVideo');
+    return trackUsage(choice, 'generateVideo', 1, () => provider.generateVideo!({ model: choice.model, prompt, snapshotDataUrl, onStepUpdate, signal, onOperationStarted }));
+};
+
+/**
+ * Whether a video job started with `choice` can be picked up again after a reload.
+ */
+export const canResumeVideo = (choice: ModelChoice): boolean => !!getProvider(choice.provider)?.resumeVideo;
+
+/**
+ * Waits for a video job that was started earlier.
+ * @param isUsageRecorded Whether the call that started the job was recorded. It is not when the
+ * page was reloaded before that call settled; the resumed call is recorded instead.
+ */
+export const resumeVideo = (
+    operation: string,
+    onStepUpdate: (message: string) => void,
+    choice: ModelChoice,
+    signal?: AbortSignal,
+    isUsageRecorded = false
+): Promise<GeneratedVideo> => {
+    const provider = requireProvider(choice, 'resumeVideo');
+    const resume = () => provider.resumeVideo!({ model: choice.model, operation, onStepUpdate, signal });
+    return isUsageRecorded ? resume() : trackUsage(choice, 'resumeVideo', 0, resume);
+};
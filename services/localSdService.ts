@@ -0,0 +1,226 @@
+import {
+    GenerationProvider, GeneratedImage, TextToImageRequest, CanvasToImageRequest, InpaintRequest, OutpaintRequest,
+    CanvasInterpretationRequest, MagicFillInterpretationRequest, ImageParameters
+} from '../types';
+import { getProviderConfig } from './providerConfig';
+import { getSizeForAspectRatio } from '../utils/geometry';
+
+/**
+ * Adapter for self-hosted Stable Diffusion servers that speak the Automatic1111 web UI API
+ * (`/sdapi/v1/*`). Nothing leaves the machine the server runs on. Start the server with `--api`
+ * and allow this page's origin with `--cors-allow-origins`; `npm run stub:local-sd` starts a
+ * stand-in that returns fixture images.
+ */
+
+const PROVIDER_ID = 'local-sd';
+const DEFAULT_ENDPOINT = 'http://127.0.0.1:7860';
+// Uses whichever checkpoint the server currently has loaded.
+const DEFAULT_CHECKPOINT = 'default';
+const INTERROGATION_MODELS = ['clip', 'deepdanbooru'];
+
+const STEPS = 25;
+const CFG_SCALE = 7;
+const MAX_GENERATION_SIDE = 1024;
+
+// img2img `inpainting_fill` values.
+const FILL_ORIGINAL = 1;
+const FILL_LATENT_NOISE = 2;
+
+interface SdImageResponse {
+    images?: string[];
+    info?: string;
+}
+
+interface SdInterrogateResponse {
+    caption?: string;
+}
+
+const getEndpoint = (): string => {
+    const endpoint = getProviderConfig(PROVIDER_ID).endpoint?.trim() || DEFAULT_ENDPOINT;
+    return endpoint.replace(/\/+$/, '');
+};
+
+const getCheckpoints = (): string[] => {
+    const checkpoints = (getProviderConfig(PROVIDER_ID).checkpoints ?? '')
+        .split(',')
+        .map(name => name.trim())
+        .filter(Boolean);
+    return [DEFAULT_CHECKPOINT, ...checkpoints];
+};
+
+const toBase64 = (dataUrl: string) => dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl;
+
+const postJson = async <T,>(path: string, body: object): Promise<T> => {
+    const endpoint = getEndpoint();
+    let response: Response;
+    try {
+        response = await fetch(`${endpoint}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+    } catch (error) {
+        console.error(`Request to local server failed: ${path}`, error);
+        throw new Error(`Could not reach the local server at ${endpoint}. Make sure it is running with its API enabled and allows requests from this page (CORS).`);
+    }
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw Object.assign(new Error(`The local server returned ${response.status} for ${path}${detail ? `: ${detail.slice(0, 200)}` : '.'}`), { status: response.status });
+    }
+    return response.json();
+};
+
+/**
+ * Scales a size to fit the server's limits. Stable Diffusion needs sides that are multiples of 8.
+ */
+const toGenerationSize = (width: number, height: number): { width: number; height: number } => {
+    const scale = Math.min(1, MAX_GENERATION_SIDE / Math.max(width, height));
+    const roundTo8 = (value: number) => Math.max(64, Math.round(value * scale / 8) * 8);
+    return { width: roundTo8(width), height: roundTo8(height) };
+};
+
+const loadImageSize = (src: string): Promise<{ width: number; height: number }> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+        img.onerror = () => reject(new Error('Failed to read the input image.'));
+        img.src = src;
+    });
+};
+
+const checkpointOverride = (model: string) => {
+    if (model === DEFAULT_CHECKPOINT) return {};
+    return {
+        override_settings: { sd_model_checkpoint: model },
+        override_settings_restore_afterwards: true,
+    };
+};
+
+const toGeneratedImage = (response: SdImageResponse, model: string): GeneratedImage => {
+    const image = response.images?.[0];
+    if (!image) {
+        throw new Error("The local server did not return an image.");
+    }
+    const checkpoint = model === DEFAULT_CHECKPOINT ? 'the loaded checkpoint' : model;
+    return { base64: toBase64(image), mimeType: 'image/png', textResponse: `Image generated locally with ${checkpoint}.` };
+};
+
+/**
+ * The txt2img/img2img fields for the parameters the user chose.
+ */
+const samplingOptions = (parameters?: ImageParameters) => ({
+    steps: STEPS,
+    cfg_scale: parameters?.guidanceScale ?? CFG_SCALE,
+    ...(parameters ? { seed: parameters.seed } : {}),
+    ...(parameters?.negativePrompt ? { negative_prompt: parameters.negativePrompt } : {}),
+});
+
+interface ImageToImageOptions {
+    model: string;
+    prompt: string;
+    parameters?: ImageParameters;
+    initImageDataUrl: string;
+    maskDataUrl?: string;
+    denoisingStrength: number;
+    inpaintingFill?: number;
+}
+
+const imageToImage = async ({ model, prompt, parameters, initImageDataUrl, maskDataUrl, denoisingStrength, inpaintingFill }: ImageToImageOptions): Promise<GeneratedImage> => {
+    const inputSize = await loadImageSize(initImageDataUrl);
+    const size = toGenerationSize(inputSize.width, inputSize.height);
+    const response = await postJson<SdImageResponse>('/sdapi/v1/img2img', {
+        prompt,
+        init_images: [toBase64(initImageDataUrl)],
+        ...(maskDataUrl ? {
+            mask: toBase64(maskDataUrl),
+            mask_blur: 4,
+            inpainting_fill: inpaintingFill ?? FILL_ORIGINAL,
+            inpaint_full_res: false,
+        } : {}),
+        denoising_strength: denoisingStrength,
+        ...samplingOptions(parameters),
+        ...size,
+        ...checkpointOverride(model),
+    });
+    return toGeneratedImage(response, model);
+};
+
+const generateImageFromText = async ({ prompt, model, parameters }: TextToImageRequest): Promise<GeneratedImage> => {
+    const requestedSize = getSizeForAspectRatio(parameters.aspectRatio, parameters.outputSize);
+    const response = await postJson<SdImageResponse>('/sdapi/v1/txt2img', {
+        prompt,
+        ...samplingOptions(parameters),
+        ...toGenerationSize(requestedSize.width, requestedSize.height),
+        ...checkpointOverride(model),
+    });
+    return toGeneratedImage(response, model);
+};
+
+const generateImageFromCanvas = async ({ prompt, snapshotDataUrl, parameters, onStepUpdate, model }: CanvasToImageRequest): Promise<GeneratedImage> => {
+    // The snapshot already shows every selected image in place, so it is the only input.
+    onStepUpdate("Sending the canvas snapshot to the local server...");
+    return imageToImage({ model, prompt, parameters, initImageDataUrl: snapshotDataUrl, denoisingStrength: 0.75 });
+};
+
+const editImageWithMask = async ({ image, maskDataUrl, prompt, referenceImage, model }: InpaintRequest): Promise<GeneratedImage> => {
+    const result = await imageToImage({ model, prompt, initImageDataUrl: image.src, maskDataUrl, denoisingStrength: 0.75 });
+    if (referenceImage) {
+        // img2img has no slot for a second image; the prompt describes the reference instead.
+        return { ...result, textResponse: `${result.textResponse} The reference image was described in the prompt only.` };
+    }
+    return result;
+};
+
+const generateOutpaintedImage = async ({ imageDataUrl, maskDataUrl, prompt, model }: OutpaintRequest): Promise<GeneratedImage> => {
+    return imageToImage({ model, prompt, initImageDataUrl: imageDataUrl, maskDataUrl, denoisingStrength: 1, inpaintingFill: FILL_LATENT_NOISE });
+};
+
+const interrogate = async (imageDataUrl: string, model: string): Promise<string> => {
+    const response = await postJson<SdInterrogateResponse>('/sdapi/v1/interrogate', { image: toBase64(imageDataUrl), model });
+    const caption = response.caption?.trim();
+    if (!caption) {
+        throw new Error("The local server did not return a caption.");
+    }
+    return caption;
+};
+
+/**
+ * Captions the snapshot and appends the caption to the user's instruction. This is far simpler
+ * than an LLM's interpretation, but it keeps the whole pipeline on-prem.
+ */
+const interpretCanvas = async ({ snapshotDataUrl, userPrompt, model }: CanvasInterpretationRequest): Promise<string> => {
+    const caption = await interrogate(snapshotDataUrl, model);
+    return userPrompt?.trim() ? `${userPrompt.trim()}, ${caption}` : caption;
+};
+
+const interpretMagicFill = async ({ snapshotDataUrl, sourceImage, userPrompt, model }: MagicFillInterpretationRequest): Promise<string> => {
+    if (userPrompt.trim()) return userPrompt.trim();
+    return interrogate(sourceImage ? sourceImage.src : snapshotDataUrl, model);
+};
+
+export const localSdProvider: GenerationProvider = {
+    id: PROVIDER_ID,
+    name: 'Local Stable Diffusion',
+    get models() {
+        const checkpoints = getCheckpoints();
+        return {
+            textToImage: checkpoints,
+            canvasToImage: checkpoints,
+            inpaint: checkpoints,
+            outpaint: checkpoints,
+            interpretation: INTERROGATION_MODELS,
+        };
+    },
+    isConfigured: () => !!getEndpoint(),
+    setupHint: 'Set the local server URL in Settings.',
+    configFields: [
+        { key: 'endpoint', label: 'Server URL', placeholder: DEFAULT_ENDPOINT, description: 'An Automatic1111-compatible server started with --api.' },
+        { key: 'checkpoints', label: 'Checkpoints', placeholder: 'sd_xl_base_1.0.safetensors, ...', description: 'Optional comma-separated checkpoint names to offer besides the loaded one.' },
+    ],
+    generateImageFromText,
+    generateImageFromCanvas,
+    editImageWithMask,
+    generateOutpaintedImage,
+    interpretCanvas,
+    interpretMagicFill,
+};
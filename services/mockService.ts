@@ -0,0 +1,266 @@
+import {
+    GenerationProvider, GeneratedImage, GeneratedVideo, TextToImageRequest, CanvasToImageRequest, InpaintRequest, OutpaintRequest,
+    VideoRequest, CanvasInterpretationRequest, MagicFillInterpretationRequest
+} from '../types';
+import { getProviderConfig } from './providerConfig';
+import { getSizeForAspectRatio } from '../utils/geometry';
+import { flattenItems } from '../utils/groups';
+
+/**
+ * An offline provider for demos, UI work and end-to-end tests. Every capability is answered
+ * locally with placeholder media that depends only on the prompt and seed, so the same request
+ * always produces the same result. Latency and failures can be injected from Settings; a prompt
+ * containing FAIL_TOKEN always fails.
+ */
+
+const PROVIDER_ID = 'mock';
+const FAIL_TOKEN = '[fail]';
+const DEFAULT_LATENCY_MS = 800;
+const IMAGE_SIZE = 512;
+// Keeps placeholder rendering fast whatever output size is requested.
+const MAX_IMAGE_SIDE = 1024;
+const VIDEO_DURATION_MS = 2000;
+const VIDEO_FPS = 24;
+
+// Counts requests so that `failEvery` fails a predictable subset of them.
+let requestCount = 0;
+
+const readNumber = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value?.trim() && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const hashText = (text: string): number => {
+    let hash = 7;
+    for (let i = 0; i < text.length; i++) {
+        hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+};
+
+/**
+ * Waits for the configured latency, reporting progress, then fails if this request was picked
+ * for failure injection.
+ */
+const simulateRequest = async (label: string, prompt: string, onStepUpdate?: (message: string) => void) => {
+    const config = getProviderConfig(PROVIDER_ID);
+    const latencyMs = readNumber(config.latencyMs, DEFAULT_LATENCY_MS);
+    const failEvery = Math.floor(readNumber(config.failEvery, 0));
+    requestCount++;
+
+    onStepUpdate?.(`Mock provider: ${label}...`);
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+
+    if (prompt.includes(FAIL_TOKEN) || (failEvery > 0 && requestCount % failEvery === 0)) {
+        throw new Error(`Simulated failure from the mock provider (${label}).`);
+    }
+};
+
+const createContext = (width: number, height: number): CanvasRenderingContext2D => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context for the mock provider.');
+    return ctx;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('The mock provider could not read an input image.'));
+        img.src = src;
+    });
+};
+
+const fillGradient = (ctx: CanvasRenderingContext2D, prompt: string, hueShift = 0) => {
+    const { width, height } = ctx.canvas;
+    const hue = (hashText(prompt) + hueShift) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 60%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, prompt: string) => {
+    const { width, height } = ctx.canvas;
+    const fontSize = Math.max(12, Math.round(Math.min(width, height) / 20));
+    const maxWidth = width * 0.8;
+    ctx.font = `${fontSize}px sans-serif`;
+
+    const lines: string[] = [];
+    let line = '';
+    prompt.split(/\s+/).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    });
+    if (line) lines.push(line);
+    const visibleLines = lines.slice(0, 6);
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    ctx.fillRect(0, height / 2 - (visibleLines.length / 2 + 1) * fontSize * 1.3, width, (visibleLines.length + 2) * fontSize * 1.3);
+    ctx.fillStyle = 'white';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    visibleLines.forEach((text, i) => {
+        ctx.fillText(text, width / 2, height / 2 + (i - (visibleLines.length - 1) / 2) * fontSize * 1.3);
+    });
+    ctx.font = `bold ${Math.round(fontSize * 0.8)}px sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText('MOCK', fontSize * 0.5, fontSize * 0.5);
+};
+
+const toGeneratedImage = (ctx: CanvasRenderingContext2D, textResponse: string): GeneratedImage => {
+    return { base64: ctx.canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png', textResponse };
+};
+
+/**
+ * Paints the white area of a mask over an image with the prompt's placeholder gradient.
+ */
+const fillMaskedArea = async (imageSrc: string, maskDataUrl: string, prompt: string): Promise<CanvasRenderingContext2D> => {
+    const [image, mask] = await Promise.all([loadImage(imageSrc), loadImage(maskDataUrl)]);
+    const ctx = createContext(image.naturalWidth, image.naturalHeight);
+    const { width, height } = ctx.canvas;
+
+    const fill = createContext(width, height);
+    fillGradient(fill, prompt);
+    drawCaption(fill, prompt);
+
+    // Use the mask's brightness as the fill's alpha.
+    const maskCtx = createContext(width, height);
+    maskCtx.drawImage(mask, 0, 0, width, height);
+    const maskPixels = maskCtx.getImageData(0, 0, width, height).data;
+    const fillData = fill.getImageData(0, 0, width, height);
+    for (let i = 0; i < fillData.data.length; i += 4) {
+        fillData.data[i + 3] = maskPixels[i];
+    }
+    fill.putImageData(fillData, 0, 0);
+
+    ctx.drawImage(image, 0, 0, width, height);
+    ctx.drawImage(fill.canvas, 0, 0);
+    return ctx;
+};
+
+const generateImageFromText = async ({ prompt, model, parameters, onStepUpdate }: TextToImageRequest): Promise<GeneratedImage> => {
+    await simulateRequest('rendering placeholder image', prompt, onStepUpdate);
+    const { width, height } = getSizeForAspectRatio(parameters.aspectRatio, Math.min(parameters.outputSize, MAX_IMAGE_SIDE));
+    const ctx = createContext(width, height);
+    fillGradient(ctx, prompt, parameters.seed);
+    drawCaption(ctx, prompt);
+    return toGeneratedImage(ctx, `Placeholder image generated with ${model} (seed ${parameters.seed}).`);
+};
+
+const generateImageFromCanvas = async ({ prompt, images, snapshotDataUrl, parameters, onStepUpdate, model }: CanvasToImageRequest): Promise<GeneratedImage> => {
+    onStepUpdate(`Model Plan: Combine ${images.length} input image(s) into one placeholder for "${prompt}".`);
+    await simulateRequest('rendering placeholder from canvas', prompt, onStepUpdate);
+    const snapshot = await loadImage(snapshotDataUrl);
+    const ctx = createContext(snapshot.naturalWidth, snapshot.naturalHeight);
+    fillGradient(ctx, prompt, parameters.seed);
+    ctx.globalAlpha = 0.5;
+    ctx.drawImage(snapshot, 0, 0);
+    ctx.globalAlpha = 1;
+    drawCaption(ctx, prompt);
+    return toGeneratedImage(ctx, `Placeholder image generated with ${model} (seed ${parameters.seed}).`);
+};
+
+const editImageWithMask = async ({ image, maskDataUrl, prompt, model }: InpaintRequest): Promise<GeneratedImage> => {
+    await simulateRequest('filling masked area', prompt);
+    return toGeneratedImage(await fillMaskedArea(image.src, maskDataUrl, prompt), `Masked area filled with ${model}.`);
+};
+
+const generateOutpaintedImage = async ({ imageDataUrl, maskDataUrl, prompt, model }: OutpaintRequest): Promise<GeneratedImage> => {
+    await simulateRequest('expanding image', prompt);
+    return toGeneratedImage(await fillMaskedArea(imageDataUrl, maskDataUrl, prompt), `Image expanded with ${model}.`);
+};
+
+/**
+ * Records a short clip of the snapshot under a shifting gradient.
+ */
+const generateVideo = async ({ prompt, snapshotDataUrl, onStepUpdate, signal }: VideoRequest): Promise<GeneratedVideo> => {
+    await simulateRequest('rendering placeholder video', prompt, onStepUpdate);
+    signal?.throwIfAborted();
+    if (typeof MediaRecorder === 'undefined') {
+        throw new Error('The mock provider needs MediaRecorder to create videos, which this browser does not support.');
+    }
+
+    const snapshot = await loadImage(snapshotDataUrl);
+    const ctx = createContext(snapshot.naturalWidth || IMAGE_SIZE, snapshot.naturalHeight || IMAGE_SIZE);
+    const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+    const recorder = new MediaRecorder(ctx.canvas.captureStream(VIDEO_FPS), { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    onStepUpdate("Mock provider: recording frames...");
+    recorder.start();
+    const start = performance.now();
+    await new Promise<void>(resolve => {
+        const drawFrame = () => {
+            const elapsed = performance.now() - start;
+            fillGradient(ctx, prompt, Math.round((elapsed / VIDEO_DURATION_MS) * 120));
+            ctx.globalAlpha = 0.6;
+            ctx.drawImage(snapshot, 0, 0, ctx.canvas.width, ctx.canvas.height);
+            ctx.globalAlpha = 1;
+            drawCaption(ctx, prompt);
+            if (elapsed < VIDEO_DURATION_MS && !signal?.aborted) {
+                requestAnimationFrame(drawFrame);
+            } else {
+                resolve();
+            }
+        };
+        drawFrame();
+    });
+    recorder.stop();
+    await stopped;
+    signal?.throwIfAborted();
+
+    return { videoBlob: new Blob(chunks, { type: 'video/webm' }), mimeType: 'video/webm' };
+};
+
+const interpretCanvas = async ({ items, userPrompt }: CanvasInterpretationRequest): Promise<string> => {
+    const instruction = userPrompt?.trim() || 'a cohesive scene';
+    await simulateRequest('interpreting canvas', instruction);
+    const counts = flattenItems(items).reduce<Record<string, number>>((acc, item) => ({ ...acc, [item.type]: (acc[item.type] ?? 0) + 1 }), {});
+    const summary = Object.entries(counts).map(([type, count]) => `${count} ${type}${count === 1 ? '' : 's'}`).join(', ');
+    return summary ? `Combine ${summary} into ${instruction}` : `Create ${instruction}`;
+};
+
+const interpretMagicFill = async ({ sourceImage, userPrompt }: MagicFillInterpretationRequest): Promise<string> => {
+    const instruction = userPrompt.trim() || 'a seamless continuation of the surroundings';
+    await simulateRequest('interpreting magic fill', instruction);
+    return sourceImage ? `Blend '${sourceImage.prompt}' into the masked area as ${instruction}` : `Fill the masked area with ${instruction}`;
+};
+
+export const mockProvider: GenerationProvider = {
+    id: PROVIDER_ID,
+    name: 'Mock (offline)',
+    models: {
+        textToImage: ['mock-image'],
+        canvasToImage: ['mock-image'],
+        inpaint: ['mock-image'],
+        outpaint: ['mock-image'],
+        video: ['mock-video'],
+        interpretation: ['mock-text'],
+    },
+    isConfigured: () => true,
+    setupHint: '',
+    configFields: [
+        { key: 'latencyMs', label: 'Latency (ms)', placeholder: String(DEFAULT_LATENCY_MS), description: 'How long each mock request takes.' },
+        { key: 'failEvery', label: 'Fail every Nth request', placeholder: '0', description: `0 never fails. A prompt containing "${FAIL_TOKEN}" always fails.` },
+    ],
+    generateImageFromText,
+    generateImageFromCanvas,
+    editImageWithMask,
+    generateOutpaintedImage,
+    generateVideo,
+    interpretCanvas,
+    interpretMagicFill,
+};
@@ -0,0 +1,325 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import { CanvasItem, GenerationRecord, GridOptions, ModelSettings, Point } from '../types';
+import { hashBlob, blobToDataUrl } from './storageService';
+
+/**
+ * The .nanocanvas project format. See docs/nanocanvas-format.md for the full description.
+ *
+ * A project is a zip archive holding `manifest.json` and an `assets/` folder. Media items in
+ * the manifest reference their bytes by archive path (`assets/<sha256>.<ext>`) in `src`, and
+ * so do the snapshots in their generation records.
+ */
+
+export const PROJECT_FILE_EXTENSION = '.nanocanvas';
+export const PROJECT_FORMAT_VERSION = 4;
+
+const FORMAT_NAME = 'nanocanvas';
+const MANIFEST_PATH = 'manifest.json';
+const ASSETS_DIR = 'assets/';
+
+export interface ProjectSettings {
+    zoom?: number;
+    pan?: Point;
+    gridOptions?: GridOptions;
+    modelSettings?: ModelSettings;
+}
+
+export interface ProjectData {
+    name: string;
+    items: CanvasItem[];
+    settings: ProjectSettings;
+}
+
+interface ManifestAsset {
+    path: string;
+    mimeType: string;
+    size: number;
+}
+
+interface ProjectManifest {
+    format: typeof FORMAT_NAME;
+    version: number;
+    exportedAt: string;
+    board: { name: string };
+    settings: ProjectSettings;
+    items: CanvasItem[];
+    assets: ManifestAsset[];
+}
+
+/**
+ * Upgrades a manifest from version N to N + 1. Add an entry here whenever a change to
+ * `CanvasItem` (or the manifest itself) means older files no longer match the current shape,
+ * and bump PROJECT_FORMAT_VERSION.
+ */
+const MIGRATIONS: Record<number, (manifest: Record<string, unknown>) => Record<string, unknown>> = {
+    // Version 1 recorded only the model and parameters of a generated image. Fill in the rest of
+    // the provenance record with what can be recovered from the item. Malformed items are left
+    // as they are for validation to report.
+    1: (manifest) => ({
+        ...manifest,
+        items: Array.isArray(manifest.items) ? manifest.items.map((item: unknown) => isRecord(item) && isRecord(item.generation) ? {
+            ...item,
+            generation: {
+                taskId: '',
+                kind: 'image',
+                userPrompt: typeof item.prompt === 'string' ? item.prompt : '',
+                interpretedPrompt: null,
+                sourceItemIds: [],
+                startedAt: 0,
+                completedAt: 0,
+                ...item.generation,
+            },
+        } : item) : manifest.items,
+    }),
+    // Version 3 added group items; older files have none and need no changes.
+    2: (manifest) => manifest,
+    // Version 4 added frame items; older files have none and need no changes.
+    3: (manifest) => manifest,
+};
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+};
+
+const isMediaItem = (item: CanvasItem): item is Extract<CanvasItem, { src: string }> => {
+    return item.type === 'image' || item.type === 'video';
+};
+
+/**
+ * Packs a board into a .nanocanvas archive. Media shared by several items is stored once.
+ */
+export const exportProject = async (project: ProjectData): Promise<Blob> => {
+    const files: Zippable = {};
+    const assets = new Map<string, ManifestAsset>();
+
+    const addAsset = async (src: string, fallbackMimeType: string): Promise<string> => {
+        const blob = await (await fetch(src)).blob();
+        const mimeType = blob.type || fallbackMimeType;
+        const path = `${ASSETS_DIR}${await hashBlob(blob)}.${EXTENSIONS_BY_MIME_TYPE[mimeType] ?? 'bin'}`;
+        if (!assets.has(path)) {
+            assets.set(path, { path, mimeType, size: blob.size });
+            // Media is already compressed; deflating it again only costs time.
+            files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+        }
+        return path;
+    };
+
+    const packItem = async (item: CanvasItem): Promise<CanvasItem> => {
+        if (item.type === 'group' || item.type === 'frame') return { ...item, children: await Promise.all(item.children.map(packItem)) };
+        if (!isMediaItem(item)) return item;
+
+        const src = await addAsset(item.src, item.mimeType);
+        const generation = item.generation?.snapshotSrc
+            ? { ...item.generation, snapshotSrc: await addAsset(item.generation.snapshotSrc, 'image/png') }
+            : item.generation;
+        return { ...item, src, ...(generation ? { generation } : {}) };
+    };
+    const items = await Promise.all(project.items.map(packItem));
+
+    const manifest: ProjectManifest = {
+        format: FORMAT_NAME,
+        version: PROJECT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        board: { name: project.name },
+        settings: project.settings,
+        items,
+        assets: Array.from(assets.values()),
+    };
+    files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+// --- Validation ---
+
+const describe = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const expectField = (obj: Record<string, unknown>, key: string, type: 'string' | 'number' | 'boolean', path: string) => {
+    const value = obj[key];
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+        throw new Error(`${path}.${key} must be a ${type}, but is ${describe(value)}.`);
+    }
+};
+
+const validatePoint = (value: unknown, path: string) => {
+    if (!isRecord(value)) throw new Error(`${path} must be a point, but is ${describe(value)}.`);
+    expectField(value, 'x', 'number', path);
+    expectField(value, 'y', 'number', path);
+};
+
+const validateSettings = (settings: Record<string, unknown>, path: string) => {
+    if (settings.zoom !== undefined) {
+        expectField(settings, 'zoom', 'number', path);
+        if ((settings.zoom as number) <= 0) throw new Error(`${path}.zoom must be greater than 0.`);
+    }
+    if (settings.pan !== undefined) validatePoint(settings.pan, `${path}.pan`);
+    if (settings.gridOptions !== undefined) {
+        const gridOptions = settings.gridOptions;
+        if (!isRecord(gridOptions)) throw new Error(`${path}.gridOptions must be an object, but is ${describe(gridOptions)}.`);
+        expectField(gridOptions, 'isVisible', 'boolean', `${path}.gridOptions`);
+        expectField(gridOptions, 'spacing', 'number', `${path}.gridOptions`);
+        expectField(gridOptions, 'color', 'string', `${path}.gridOptions`);
+        if ((gridOptions.spacing as number) <= 0) throw new Error(`${path}.gridOptions.spacing must be greater than 0.`);
+    }
+};
+
+const validateGeneration = (value: unknown, path: string, assetPaths: Set<string>) => {
+    if (!isRecord(value)) throw new Error(`${path} must be an object, but is ${describe(value)}.`);
+    ['taskId', 'kind', 'userPrompt'].forEach(key => expectField(value, key, 'string', path));
+    ['startedAt', 'completedAt'].forEach(key => expectField(value, key, 'number', path));
+    if (value.interpretedPrompt !== null) expectField(value, 'interpretedPrompt', 'string', path);
+    if (!isRecord(value.model)) throw new Error(`${path}.model must be an object, but is ${describe(value.model)}.`);
+    expectField(value.model, 'provider', 'string', `${path}.model`);
+    expectField(value.model, 'model', 'string', `${path}.model`);
+    if (!Array.isArray(value.sourceItemIds) || value.sourceItemIds.some(id => typeof id !== 'string')) {
+        throw new Error(`${path}.sourceItemIds must be an array of item ids.`);
+    }
+    if (value.snapshotSrc !== undefined && !assetPaths.has(value.snapshotSrc as string)) {
+        throw new Error(`${path}.snapshotSrc refers to "${value.snapshotSrc}", which is not in the archive.`);
+    }
+};
+
+const validateItem = (item: unknown, path: string, assetPaths: Set<string>) => {
+    if (!isRecord(item)) throw new Error(`${path} must be an object, but is ${describe(item)}.`);
+    expectField(item, 'id', 'string', path);
+    expectField(item, 'type', 'string', path);
+    expectField(item, 'rotation', 'number', path);
+
+    switch (item.type) {
+        case 'image':
+        case 'video':
+            ['x', 'y', 'width', 'height'].forEach(key => expectField(item, key, 'number', path));
+            ['src', 'mimeType', 'prompt'].forEach(key => expectField(item, key, 'string', path));
+            if (!assetPaths.has(item.src as string)) {
+                throw new Error(`${path}.src refers to "${item.src}", which is not in the archive.`);
+            }
+            if (item.generation !== undefined) validateGeneration(item.generation, `${path}.generation`, assetPaths);
+            break;
+        case 'text':
+            ['x', 'y', 'width', 'height', 'fontSize'].forEach(key => expectField(item, key, 'number', path));
+            ['text', 'color'].forEach(key => expectField(item, key, 'string', path));
+            break;
+        case 'drawing':
+            expectField(item, 'color', 'string', path);
+            expectField(item, 'strokeWidth', 'number', path);
+            expectField(item, 'opacity', 'number', path);
+            if (!Array.isArray(item.points)) throw new Error(`${path}.points must be an array.`);
+            item.points.forEach((point, i) => validatePoint(point, `${path}.points[${i}]`));
+            break;
+        case 'frame':
+            ['x', 'y', 'width', 'height'].forEach(key => expectField(item, key, 'number', path));
+            ['name', 'aspectRatio'].forEach(key => expectField(item, key, 'string', path));
+            if (!Array.isArray(item.children)) throw new Error(`${path}.children must be an array.`);
+            item.children.forEach((child, i) => validateItem(child, `${path}.children[${i}]`, assetPaths));
+            break;
+        case 'group':
+            if (!Array.isArray(item.children)) throw new Error(`${path}.children must be an array.`);
+            item.children.forEach((child, i) => validateItem(child, `${path}.children[${i}]`, assetPaths));
+            break;
+        default:
+            throw new Error(`${path}.type "${item.type}" is not a known item type.`);
+    }
+};
+
+const validateManifest = (manifest: unknown, archivePaths: Set<string>): ProjectManifest => {
+    if (!isRecord(manifest)) throw new Error('manifest.json must contain an object.');
+    if (manifest.format !== FORMAT_NAME) throw new Error(`manifest.json is not a ${FORMAT_NAME} manifest.`);
+    if (!isRecord(manifest.board)) throw new Error('manifest.board must be an object.');
+    expectField(manifest.board, 'name', 'string', 'manifest.board');
+    if (!isRecord(manifest.settings)) throw new Error('manifest.settings must be an object.');
+    validateSettings(manifest.settings, 'manifest.settings');
+    if (!Array.isArray(manifest.assets)) throw new Error('manifest.assets must be an array.');
+    if (!Array.isArray(manifest.items)) throw new Error('manifest.items must be an array.');
+
+    const assetPaths = new Set<string>();
+    manifest.assets.forEach((asset, i) => {
+        const path = `manifest.assets[${i}]`;
+        if (!isRecord(asset)) throw new Error(`${path} must be an object.`);
+        expectField(asset, 'path', 'string', path);
+        expectField(asset, 'mimeType', 'string', path);
+        if (!archivePaths.has(asset.path as string)) {
+            throw new Error(`${path} lists "${asset.path}", which is missing from the archive.`);
+        }
+        assetPaths.add(asset.path as string);
+    });
+    manifest.items.forEach((item, i) => validateItem(item, `manifest.items[${i}]`, assetPaths));
+
+    return manifest as unknown as ProjectManifest;
+};
+
+/**
+ * Brings a manifest written by an older version of the app up to the current format.
+ */
+const migrateManifest = (manifest: Record<string, unknown>): Record<string, unknown> => {
+    const version = manifest.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error('manifest.json has no valid format version.');
+    }
+    if (version > PROJECT_FORMAT_VERSION) {
+        throw new Error(`This project was saved by a newer version of NanoCanvas (format ${version}; this app reads up to ${PROJECT_FORMAT_VERSION}).`);
+    }
+    let migrated = manifest;
+    for (let v = version; v < PROJECT_FORMAT_VERSION; v++) {
+        migrated = { ...MIGRATIONS[v](migrated), version: v + 1 };
+    }
+    return migrated;
+};
+
+/**
+ * Reads a .nanocanvas archive.
+ * @throws An Error with a user-presentable message if the file is malformed.
+ */
+export const importProject = async (file: Blob): Promise<ProjectData> => {
+    let entries: Record<string, Uint8Array>;
+    try {
+        entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    } catch (e) {
+        throw new Error('The file is not a valid .nanocanvas archive (it could not be unzipped).');
+    }
+
+    const manifestBytes = entries[MANIFEST_PATH];
+    if (!manifestBytes) {
+        throw new Error('The archive does not contain a manifest.json.');
+    }
+    let rawManifest: unknown;
+    try {
+        rawManifest = JSON.parse(strFromU8(manifestBytes));
+    } catch (e) {
+        throw new Error('manifest.json is not valid JSON.');
+    }
+    if (!isRecord(rawManifest)) throw new Error('manifest.json must contain an object.');
+
+    const manifest = validateManifest(migrateManifest(rawManifest), new Set(Object.keys(entries)));
+
+    const mimeTypes = new Map(manifest.assets.map(asset => [asset.path, asset.mimeType]));
+    const resolvedSrcs = new Map<string, Promise<string>>();
+    const resolveSrc = (path: string, itemType: 'image' | 'video') => {
+        if (!resolvedSrcs.has(path)) {
+            const blob = new Blob([entries[path]], { type: mimeTypes.get(path) });
+            resolvedSrcs.set(path, itemType === 'video' ? Promise.resolve(URL.createObjectURL(blob)) : blobToDataUrl(blob));
+        }
+        return resolvedSrcs.get(path)!;
+    };
+
+    const unpackItem = async (item: CanvasItem): Promise<CanvasItem> => {
+        if (item.type === 'group' || item.type === 'frame') return { ...item, children: await Promise.all(item.children.map(unpackItem)) };
+        if (!isMediaItem(item)) return item;
+        const src = await resolveSrc(item.src, item.type);
+        if (!item.generation?.snapshotSrc) return { ...item, src };
+        // Snapshots are images, whatever kind of item they belong to.
+        const generation: GenerationRecord = { ...item.generation, snapshotSrc: await resolveSrc(item.generation.snapshotSrc, 'image') };
+        return { ...item, src, generation };
+    };
+    const items = await Promise.all(manifest.items.map(unpackItem));
+
+    return { name: manifest.board.name, items, settings: manifest.settings };
+};
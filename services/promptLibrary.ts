@@ -0,0 +1,119 @@
+import { SavedPrompt } from '../types';
+import { loadState, saveState } from '../utils/storage';
+
+/**
+ * Keeps the prompts users save for reuse in localStorage, and moves them in and out of JSON files
+ * so that teams can share a library.
+ */
+
+const STORAGE_KEY = 'promptLibrary';
+const EXPORT_FORMAT = 'nanocanvas-prompts';
+const EXPORT_VERSION = 1;
+
+let prompts: SavedPrompt[] = loadState<SavedPrompt[]>(STORAGE_KEY, []);
+
+const listeners = new Set<() => void>();
+
+const update = (next: SavedPrompt[]) => {
+    prompts = next;
+    saveState(STORAGE_KEY, prompts);
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Calls `listener` whenever a prompt is saved, changed or removed.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToPromptLibrary = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getSavedPrompts = (): SavedPrompt[] => prompts;
+
+export const normalizeTags = (tags: string[]): string[] => Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const savePrompt = (prompt: Pick<SavedPrompt, 'title' | 'text' | 'tags'>): SavedPrompt => {
+    const saved: SavedPrompt = {
+        id: `prompt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        title: prompt.title.trim() || prompt.text.trim().slice(0, 40),
+        text: prompt.text.trim(),
+        tags: normalizeTags(prompt.tags),
+        isFavorite: false,
+        createdAt: Date.now(),
+    };
+    update([saved, ...prompts]);
+    return saved;
+};
+
+export const updateSavedPrompt = (id: string, changes: Partial<Omit<SavedPrompt, 'id' | 'createdAt'>>) => {
+    update(prompts.map(prompt => prompt.id === id ? { ...prompt, ...changes, ...(changes.tags ? { tags: normalizeTags(changes.tags) } : {}) } : prompt));
+};
+
+export const deleteSavedPrompt = (id: string) => {
+    update(prompts.filter(prompt => prompt.id !== id));
+};
+
+export const markPromptUsed = (id: string) => updateSavedPrompt(id, { lastUsedAt: Date.now() });
+
+/**
+ * Finds prompts whose title, text or tags contain every word of `query` and that carry all of
+ * `tags`. Favorites come first, then the most recently used or saved.
+ */
+export const searchSavedPrompts = (library: SavedPrompt[], query: string, tags: string[] = []): SavedPrompt[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return library
+        .filter(prompt => tags.every(tag => prompt.tags.includes(tag)))
+        .filter(prompt => {
+            const haystack = [prompt.title, prompt.text, ...prompt.tags].join('\n').toLowerCase();
+            return words.every(word => haystack.includes(word));
+        })
+        .sort((a, b) => Number(b.isFavorite) - Number(a.isFavorite) || (b.lastUsedAt ?? b.createdAt) - (a.lastUsedAt ?? a.createdAt));
+};
+
+export const exportPromptLibrary = (): Blob => {
+    const file = { format: EXPORT_FORMAT, version: EXPORT_VERSION, prompts };
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Adds the prompts from an exported library. Prompts whose text is already in the library are
+ * skipped, so importing the same file twice changes nothing.
+ * @returns How many prompts were added.
+ */
+export const importPromptLibrary = (json: string): number => {
+    let file: unknown;
+    try {
+        file = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isRecord(file) || file.format !== EXPORT_FORMAT) throw new Error('The file is not a NanoCanvas prompt library.');
+    if (typeof file.version !== 'number' || file.version > EXPORT_VERSION) {
+        throw new Error(`The library was saved by a newer version of NanoCanvas (version ${String(file.version)}).`);
+    }
+    if (!Array.isArray(file.prompts)) throw new Error('The library has no list of prompts.');
+
+    const knownTexts = new Set(prompts.map(prompt => prompt.text));
+    const imported: SavedPrompt[] = [];
+    file.prompts.forEach((entry, i) => {
+        if (!isRecord(entry) || typeof entry.text !== 'string' || !entry.text.trim()) {
+            throw new Error(`Prompt ${i + 1} has no text.`);
+        }
+        const text = entry.text.trim();
+        if (knownTexts.has(text)) return;
+        knownTexts.add(text);
+        imported.push({
+            id: `prompt_${Date.now()}_${i}`,
+            title: typeof entry.title === 'string' && entry.title.trim() ? entry.title.trim() : text.slice(0, 40),
+            text,
+            tags: Array.isArray(entry.tags) ? normalizeTags(entry.tags.filter((tag): tag is string => typeof tag === 'string')) : [],
+            isFavorite: entry.isFavorite === true,
+            createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+        });
+    });
+    update([...imported, ...prompts]);
+    return imported.length;
+};
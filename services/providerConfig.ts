@@ -0,0 +1,16 @@
+import { ProviderConfig } from '../types';
+import { loadState, saveState } from '../utils/storage';
+
+const configKey = (providerId: string) => `providerConfig:${providerId}`;
+
+/**
+ * Returns the values a user entered for a provider's `configFields`. Fields that were never
+ * set are missing, so providers should fall back to their own defaults.
+ */
+export const getProviderConfig = (providerId: string): ProviderConfig => {
+    return loadState<ProviderConfig>(configKey(providerId), {});
+};
+
+export const setProviderConfig = (providerId: string, config: ProviderConfig) => {
+    saveState(configKey(providerId), config);
+};
@@ -0,0 +1,95 @@
+import { CredentialStatus, GenerationProvider, ModelChoice, ModelSettings, ProviderCapability } from '../types';
+import { createGeminiProvider, GEMINI_PROVIDER_ID } from './geminiService';
+import { localSdProvider } from './localSdService';
+import { mockProvider } from './mockService';
+import { proxyProvider } from './proxyService';
+import { getCredential } from './credentialStore';
+
+export const PROVIDER_CAPABILITIES: ProviderCapability[] = ['textToImage', 'canvasToImage', 'inpaint', 'outpaint', 'video', 'interpretation'];
+
+const providers = new Map<string, GenerationProvider>();
+
+/**
+ * Makes a provider available in the model settings. Registering a provider with an existing id replaces it.
+ */
+export const registerProvider = (provider: GenerationProvider) => {
+    providers.set(provider.id, provider);
+};
+
+const geminiProvider = createGeminiProvider({
+    getApiKey: () => getCredential(GEMINI_PROVIDER_ID),
+    setupHint: 'Enter a Gemini API key in Model Settings.',
+});
+
+registerProvider(geminiProvider);
+registerProvider(proxyProvider);
+registerProvider(localSdProvider);
+registerProvider(mockProvider);
+
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+export const getProviders = (): GenerationProvider[] => Array.from(providers.values());
+
+export const getProvider = (providerId: string): GenerationProvider | undefined => providers.get(providerId);
+
+/**
+ * Lists every provider/model pair that can serve a capability.
+ */
+export const getModelChoices = (capability: ProviderCapability): ModelChoice[] => {
+    return getProviders().flatMap(provider => (provider.models[capability] ?? []).map(model => ({ provider: provider.id, model })));
+};
+
+/**
+ * A stable string form of a model choice, e.g. for `<option value>`.
+ */
+export const modelChoiceKey = (choice: ModelChoice) => `${choice.provider}/${choice.model}`;
+
+export const parseModelChoiceKey = (key: string): ModelChoice => {
+    const separator = key.indexOf('/');
+    return { provider: key.slice(0, separator), model: key.slice(separator + 1) };
+};
+
+/**
+ * A human-readable label, e.g. "Google Gemini · imagen-4.0-generate-001".
+ */
+export const describeModelChoice = (choice: ModelChoice) => {
+    return `${getProvider(choice.provider)?.name ?? choice.provider} · ${choice.model}`;
+};
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = PROVIDER_CAPABILITIES.reduce((settings, capability) => {
+    settings[capability] = { provider: DEFAULT_PROVIDER_ID, model: geminiProvider.models[capability]![0] };
+    return settings;
+}, {} as ModelSettings);
+
+/**
+ * Brings saved model settings up to the current shape. Settings saved before providers existed
+ * store a bare Gemini model name per capability; unknown providers and missing capabilities
+ * fall back to the defaults.
+ */
+export const normalizeModelSettings = (value: unknown): ModelSettings => {
+    const saved = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    return PROVIDER_CAPABILITIES.reduce((settings, capability) => {
+        const entry = saved[capability] as Partial<ModelChoice> | string | undefined;
+        if (typeof entry === 'string') {
+            settings[capability] = { provider: DEFAULT_PROVIDER_ID, model: entry };
+        } else if (entry && typeof entry.provider === 'string' && typeof entry.model === 'string' && providers.has(entry.provider)) {
+            settings[capability] = { provider: entry.provider, model: entry.model };
+        } else {
+            settings[capability] = DEFAULT_MODEL_SETTINGS[capability];
+        }
+        return settings;
+    }, {} as ModelSettings);
+};
+
+/**
+ * Returns the providers used by the given settings that cannot run yet, because they are
+ * missing configuration or their API key was rejected.
+ */
+export const getUnconfiguredProviders = (settings: ModelSettings, credentialStatuses: Record<string, CredentialStatus> = {}): GenerationProvider[] => {
+    const ids = new Set(PROVIDER_CAPABILITIES.map(capability => settings[capability].provider));
+    return Array.from(ids)
+        .map(id => providers.get(id))
+        .filter((provider): provider is GenerationProvider => (
+            !!provider && (!provider.isConfigured() || credentialStatuses[provider.id]?.state === 'invalid')
+        ));
+};
@@ -0,0 +1,163 @@
+import {
+    GenerationProvider, GeneratedImage, GeneratedVideo, TextToImageRequest, CanvasToImageRequest, InpaintRequest, OutpaintRequest,
+    VideoRequest, ResumeVideoRequest, CanvasInterpretationRequest, MagicFillInterpretationRequest
+} from '../types';
+import { getProviderConfig } from './providerConfig';
+import { getCredential } from './credentialStore';
+import { GEMINI_MODELS } from './geminiService';
+
+/**
+ * Adapter for the team proxy server in `server/` (`npm run proxy`). The server holds the Gemini
+ * key and exposes one narrow endpoint per task, so no provider key ever reaches the browser.
+ * An access token is only needed if the server was started with PROXY_TOKENS.
+ */
+
+const PROVIDER_ID = 'proxy';
+const DEFAULT_ENDPOINT = 'http://127.0.0.1:8787';
+const VIDEO_POLL_INTERVAL_MS = 10000;
+
+interface ImageReply {
+    image: GeneratedImage;
+    steps?: string[];
+}
+
+const getEndpoint = (): string => {
+    const endpoint = getProviderConfig(PROVIDER_ID).endpoint?.trim() || DEFAULT_ENDPOINT;
+    return endpoint.replace(/\/+$/, '');
+};
+
+const authHeaders = (token: string | null): Record<string, string> => token ? { Authorization: `Bearer ${token}` } : {};
+
+const request = async (path: string, init: RequestInit = {}, token = getCredential(PROVIDER_ID)): Promise<Response> => {
+    const endpoint = getEndpoint();
+    let response: Response;
+    try {
+        response = await fetch(`${endpoint}${path}`, { ...init, headers: { ...init.headers, ...authHeaders(token) } });
+    } catch (error) {
+        console.error(`Request to team server failed: ${path}`, error);
+        throw new Error(`Could not reach the team server at ${endpoint}. Make sure it is running and allows requests from this page.`);
+    }
+    if (response.ok) {
+        return response;
+    }
+
+    const detail = await response.json().then(body => body?.error as string | undefined).catch(() => undefined);
+    // The status goes with the error, so that the task queue can tell what is worth retrying.
+    const withStatus = (message: string) => Object.assign(new Error(message), { status: response.status });
+    if (response.status === 401) {
+        throw withStatus('The team server rejected your access token. Check it in Model Settings.');
+    }
+    if (response.status === 429) {
+        const retryAfter = response.headers.get('Retry-After');
+        throw withStatus(`You have reached the team server's rate limit.${retryAfter ? ` Try again in ${retryAfter} seconds.` : ''}`);
+    }
+    throw withStatus(`The team server returned ${response.status} for ${path}${detail ? `: ${detail}` : '.'}`);
+};
+
+const postJson = async <T,>(path: string, body: object): Promise<T> => {
+    const response = await request(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    return response.json();
+};
+
+const testCredential = async (token: string): Promise<boolean> => {
+    try {
+        await request('/api/health', {}, token);
+        return true;
+    } catch (error) {
+        if (error instanceof Error && /access token/.test(error.message)) {
+            return false;
+        }
+        throw error;
+    }
+};
+
+const generateImageFromText = async ({ prompt, model, parameters, onStepUpdate }: TextToImageRequest): Promise<GeneratedImage> => {
+    const { image, steps } = await postJson<ImageReply>('/api/generate-image', { prompt, model, parameters });
+    steps?.forEach(onStepUpdate);
+    return image;
+};
+
+const generateImageFromCanvas = async ({ prompt, images, snapshotDataUrl, parameters, onStepUpdate, model }: CanvasToImageRequest): Promise<GeneratedImage> => {
+    onStepUpdate("Sending context to the team server...");
+    const { image, steps } = await postJson<ImageReply>('/api/generate-image', { prompt, images, snapshotDataUrl, parameters, model });
+    steps?.forEach(onStepUpdate);
+    return image;
+};
+
+const editImageWithMask = async (inpaintRequest: InpaintRequest): Promise<GeneratedImage> => {
+    const { image } = await postJson<ImageReply>('/api/inpaint', inpaintRequest);
+    return image;
+};
+
+const generateOutpaintedImage = async (outpaintRequest: OutpaintRequest): Promise<GeneratedImage> => {
+    const { image } = await postJson<ImageReply>('/api/outpaint', outpaintRequest);
+    return image;
+};
+
+/**
+ * Polls the server until it streams the finished video back.
+ */
+const pollVideo = async (operation: string, onStepUpdate: (message: string) => void, signal?: AbortSignal): Promise<GeneratedVideo> => {
+    for (;;) {
+        signal?.throwIfAborted();
+        const response = await request(`/api/video?operation=${encodeURIComponent(operation)}`, { signal });
+        if (response.status !== 202) {
+            onStepUpdate("Video processed! Downloading video data...");
+            const videoBlob = await response.blob();
+            return { videoBlob, mimeType: videoBlob.type || 'video/mp4' };
+        }
+        await new Promise(resolve => setTimeout(resolve, VIDEO_POLL_INTERVAL_MS));
+    }
+};
+
+/**
+ * Starts the video on the server, then polls until it is finished.
+ */
+const generateVideo = async ({ prompt, snapshotDataUrl, onStepUpdate, model, signal, onOperationStarted }: VideoRequest): Promise<GeneratedVideo> => {
+    onStepUpdate("Starting video generation on the team server... This may take several minutes.");
+    const { operation } = await postJson<{ operation: string }>('/api/generate-video', { prompt, snapshotDataUrl, model });
+    onOperationStarted?.(operation);
+
+    onStepUpdate("Video request sent. Waiting for the team server to finish it...");
+    return pollVideo(operation, onStepUpdate, signal);
+};
+
+const resumeVideo = ({ operation, onStepUpdate, signal }: ResumeVideoRequest): Promise<GeneratedVideo> => {
+    onStepUpdate("Checking on the video started before the page was reloaded...");
+    return pollVideo(operation, onStepUpdate, signal);
+};
+
+const interpretCanvas = async ({ snapshotDataUrl, items, userPrompt, model }: CanvasInterpretationRequest): Promise<string> => {
+    const { text } = await postJson<{ text: string }>('/api/interpret', { mode: 'canvas', snapshotDataUrl, items, userPrompt, model });
+    return text;
+};
+
+const interpretMagicFill = async ({ snapshotDataUrl, sourceImage, userPrompt, model }: MagicFillInterpretationRequest): Promise<string> => {
+    const { text } = await postJson<{ text: string }>('/api/interpret', { mode: 'magicFill', snapshotDataUrl, sourceImage, userPrompt, model });
+    return text;
+};
+
+export const proxyProvider: GenerationProvider = {
+    id: PROVIDER_ID,
+    name: 'Team server',
+    models: GEMINI_MODELS,
+    isConfigured: () => !!getEndpoint(),
+    setupHint: 'Set the team server URL in Settings.',
+    configFields: [
+        { key: 'endpoint', label: 'Server URL', placeholder: DEFAULT_ENDPOINT, description: 'A NanoCanvas proxy started with `npm run proxy`.' },
+    ],
+    credentialLabel: 'Team server access token',
+    testCredential,
+    generateImageFromText,
+    generateImageFromCanvas,
+    editImageWithMask,
+    generateOutpaintedImage,
+    generateVideo,
+    resumeVideo,
+    interpretCanvas,
+    interpretMagicFill,
+};
@@ -0,0 +1,164 @@
+import { CacheSettings } from '../types';
+import { requestToPromise, transactionDone } from './storageService';
+
+/**
+ * A content-addressed cache of provider responses in IndexedDB. Requests are keyed on a hash of
+ * everything sent (snapshot, items, prompt, model and parameters), so a repeated request can be
+ * answered without calling the provider. The least recently used entries are evicted once the
+ * cache outgrows its size limit.
+ */
+
+const DB_NAME = 'nanocanvas-cache';
+const DB_VERSION = 1;
+const VALUE_STORE = 'responses';
+// Sizes and access times live apart from the values, so eviction does not read any images.
+const META_STORE = 'responseMeta';
+
+export type CacheKind = 'interpretation' | 'image';
+
+interface CacheMeta {
+    key: string;
+    kind: CacheKind;
+    size: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+interface CacheValue<T> {
+    key: string;
+    value: T;
+}
+
+export const CACHE_SIZE_LIMITS_MB = [25, 100, 250, 500];
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { bypass: false, reuseImages: false, maxSizeMb: 100 };
+
+let settings = DEFAULT_CACHE_SETTINGS;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const setCacheSettings = (newSettings: CacheSettings) => {
+    settings = newSettings;
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) {
+        return dbPromise;
+    }
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(VALUE_STORE)) {
+                db.createObjectStore(VALUE_STORE, { keyPath: 'key' });
+            }
+            if (!db.objectStoreNames.contains(META_STORE)) {
+                db.createObjectStore(META_STORE, { keyPath: 'key' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+const hashText = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const readEntry = async <T,>(key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    const transaction = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+    const entry = await requestToPromise<CacheValue<T> | undefined>(transaction.objectStore(VALUE_STORE).get(key));
+    const meta = await requestToPromise<CacheMeta | undefined>(transaction.objectStore(META_STORE).get(key));
+    if (entry && meta) {
+        transaction.objectStore(META_STORE).put({ ...meta, lastUsedAt: Date.now() });
+    }
+    await transactionDone(transaction);
+    return entry?.value;
+};
+
+/** Deletes the least recently used entries until the cache fits `maxSizeMb`. */
+const evict = async (db: IDBDatabase, maxSizeMb: number) => {
+    const metas = await requestToPromise<CacheMeta[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+    const limit = maxSizeMb * 1024 * 1024;
+    let total = metas.reduce((sum, meta) => sum + meta.size, 0);
+    if (total <= limit) return;
+
+    const transaction = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+    metas.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    for (const meta of metas) {
+        if (total <= limit) break;
+        transaction.objectStore(VALUE_STORE).delete(meta.key);
+        transaction.objectStore(META_STORE).delete(meta.key);
+        total -= meta.size;
+    }
+    await transactionDone(transaction);
+};
+
+const writeEntry = async <T,>(key: string, kind: CacheKind, value: T, size: number) => {
+    const db = await openDb();
+    const now = Date.now();
+    const transaction = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(VALUE_STORE).put({ key, value });
+    transaction.objectStore(META_STORE).put({ key, kind, size, createdAt: now, lastUsedAt: now });
+    await transactionDone(transaction);
+    await evict(db, settings.maxSizeMb);
+};
+
+export interface CacheOptions<T> {
+    sizeOf: (value: T) => number; // Roughly how many bytes a result takes.
+    onHit?: () => void; // Called when a stored result is returned.
+    bypass?: boolean; // Skips the lookup for this request only, e.g. to get a different answer.
+}
+
+/**
+ * Answers a request from the cache when allowed, otherwise calls `call` and stores its result.
+ * Cache failures are logged and never fail the request.
+ * @param keyParts Everything that was sent to the provider.
+ */
+export const withCache = async <T,>(kind: CacheKind, keyParts: unknown, call: () => Promise<T>, { sizeOf, onHit, bypass = false }: CacheOptions<T>): Promise<T> => {
+    let key: string | null = null;
+    try {
+        key = await hashText(JSON.stringify(keyParts));
+        if (!bypass && !settings.bypass && (kind === 'interpretation' || settings.reuseImages)) {
+            const cached = await readEntry<T>(key);
+            if (cached !== undefined) {
+                onHit?.();
+                return cached;
+            }
+        }
+    } catch (error) {
+        console.error('Failed to read the response cache', error);
+    }
+
+    const result = await call();
+    if (key) {
+        writeEntry(key, kind, result, sizeOf(result)).catch(error => console.error('Failed to write the response cache', error));
+    }
+    return result;
+};
+
+export const getCacheStats = async (): Promise<{ entries: number; bytes: number }> => {
+    const db = await openDb();
+    const metas = await requestToPromise<CacheMeta[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+    return { entries: metas.length, bytes: metas.reduce((sum, meta) => sum + meta.size, 0) };
+};
+
+export const clearCache = async () => {
+    const db = await openDb();
+    const transaction = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(VALUE_STORE).clear();
+    transaction.objectStore(META_STORE).clear();
+    await transactionDone(transaction);
+};
+
+/** Applies a new size limit right away rather than on the next write. */
+export const trimCache = async (maxSizeMb: number) => evict(await openDb(), maxSizeMb);
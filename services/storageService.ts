@@ -0,0 +1,284 @@
+import { CanvasItem } from '../types';
+import { flattenItems } from '../utils/groups';
+
+const DB_NAME = 'nanocanvas';
+const DB_VERSION = 1;
+const ASSET_STORE = 'assets';
+const BOARD_STORE = 'boards';
+const LEGACY_ITEMS_KEY = 'canvasItems';
+
+// Media items are persisted with `src` rewritten to `asset:<sha256>`, pointing at a blob in the asset store.
+const ASSET_REF_PREFIX = 'asset:';
+
+export const DEFAULT_BOARD_ID = 'default';
+
+interface AssetRecord {
+    id: string;
+    blob: Blob;
+    mimeType: string;
+    size: number;
+    createdAt: number;
+}
+
+interface BoardRecord {
+    id: string;
+    items: CanvasItem[];
+    archivedItems?: CanvasItem[]; // Ancestors of generated items that are no longer on the canvas.
+    updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Caches so that unchanged media is neither re-hashed on save nor re-read on load.
+const assetIdBySrc = new Map<string, string>();
+const srcByAssetId = new Map<string, Promise<string>>();
+
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted.'));
+    });
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) {
+        return dbPromise;
+    }
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(ASSET_STORE)) {
+                db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(BOARD_STORE)) {
+                db.createObjectStore(BOARD_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+const isMediaItem = (item: CanvasItem): item is Extract<CanvasItem, { src: string }> => {
+    return item.type === 'image' || item.type === 'video';
+};
+
+const srcToBlob = async (src: string): Promise<Blob> => {
+    const response = await fetch(src);
+    return response.blob();
+};
+
+/**
+ * Replaces the inline `src` of a media item with an asset reference, recording which `src`
+ * backs each asset. Identical media (same bytes) always maps to the same asset id.
+ */
+const toStoredItem = async (item: CanvasItem, assetSources: Map<string, string>): Promise<CanvasItem> => {
+    if (item.type === 'group' || item.type === 'frame') {
+        return { ...item, children: await Promise.all(item.children.map(child => toStoredItem(child, assetSources))) };
+    }
+    if (!isMediaItem(item) || item.src.startsWith(ASSET_REF_PREFIX)) {
+        return item;
+    }
+
+    let assetId = assetIdBySrc.get(item.src);
+    if (!assetId) {
+        assetId = await hashBlob(await srcToBlob(item.src));
+        assetIdBySrc.set(item.src, assetId);
+        srcByAssetId.set(assetId, Promise.resolve(item.src));
+    }
+    assetSources.set(assetId, item.src);
+    return { ...item, src: `${ASSET_REF_PREFIX}${assetId}` };
+};
+
+/**
+ * Resolves an asset reference to a usable `src`: a data URL for images (the generation
+ * pipeline reads their base64 payload) and an object URL for videos.
+ */
+const resolveAssetSrc = (db: IDBDatabase, assetId: string, itemType: 'image' | 'video'): Promise<string> => {
+    const cached = srcByAssetId.get(assetId);
+    if (cached) {
+        return cached;
+    }
+    const promise = (async () => {
+        const transaction = db.transaction(ASSET_STORE, 'readonly');
+        const record = await requestToPromise<AssetRecord | undefined>(transaction.objectStore(ASSET_STORE).get(assetId));
+        if (!record) {
+            throw new Error(`Asset ${assetId} is missing from the asset store.`);
+        }
+        const src = itemType === 'video' ? URL.createObjectURL(record.blob) : await blobToDataUrl(record.blob);
+        assetIdBySrc.set(src, assetId);
+        return src;
+    })();
+    srcByAssetId.set(assetId, promise);
+    promise.catch(() => srcByAssetId.delete(assetId));
+    return promise;
+};
+
+/**
+ * Deletes every asset that is no longer referenced by any board. The boards are read and the
+ * assets deleted in one transaction, so that a board saved in between cannot lose its assets.
+ */
+const pruneUnusedAssets = async (db: IDBDatabase): Promise<void> => {
+    const transaction = db.transaction([BOARD_STORE, ASSET_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const assetStore = transaction.objectStore(ASSET_STORE);
+    const [boards, assetIds] = await Promise.all([
+        requestToPromise<BoardRecord[]>(transaction.objectStore(BOARD_STORE).getAll()),
+        requestToPromise<IDBValidKey[]>(assetStore.getAllKeys()),
+    ]);
+
+    const referenced = new Set<string>();
+    boards.forEach(board => flattenItems([...board.items, ...(board.archivedItems ?? [])]).forEach(item => {
+        if (isMediaItem(item) && item.src.startsWith(ASSET_REF_PREFIX)) {
+            referenced.add(item.src.slice(ASSET_REF_PREFIX.length));
+        }
+    }));
+
+    // The deletes are queued before any other await, while the transaction is still active.
+    assetIds.filter(id => !referenced.has(String(id))).forEach(id => assetStore.delete(id));
+    await done;
+};
+
+/**
+ * Moves a board saved by older versions (whole items, inline base64, in localStorage)
+ * into IndexedDB. Videos were never persisted there, so nothing else needs recovering.
+ */
+export const migrateLegacyStorage = async (): Promise<void> => {
+    const legacyItems = localStorage.getItem(LEGACY_ITEMS_KEY);
+    if (!legacyItems) return;
+
+    const db = await openDb();
+    const existing = await requestToPromise(db.transaction(BOARD_STORE, 'readonly').objectStore(BOARD_STORE).getKey(DEFAULT_BOARD_ID));
+    if (existing === undefined) {
+        await saveBoardItems(DEFAULT_BOARD_ID, JSON.parse(legacyItems) as CanvasItem[]);
+    }
+    localStorage.removeItem(LEGACY_ITEMS_KEY);
+};
+
+const loadBoardRecord = async (db: IDBDatabase, boardId: string): Promise<BoardRecord | undefined> => {
+    return requestToPromise<BoardRecord | undefined>(db.transaction(BOARD_STORE, 'readonly').objectStore(BOARD_STORE).get(boardId));
+};
+
+const resolveStoredItems = async (db: IDBDatabase, storedItems: CanvasItem[]): Promise<CanvasItem[]> => {
+    const items = await Promise.all(storedItems.map(async (item): Promise<CanvasItem | null> => {
+        if (item.type === 'group' || item.type === 'frame') {
+            const children = await resolveStoredItems(db, item.children);
+            return children.length > 0 || item.type === 'frame' ? { ...item, children } : null;
+        }
+        if (!isMediaItem(item) || !item.src.startsWith(ASSET_REF_PREFIX)) {
+            return item;
+        }
+        try {
+            const src = await resolveAssetSrc(db, item.src.slice(ASSET_REF_PREFIX.length), item.type);
+            return { ...item, src };
+        } catch (e) {
+            console.error(`Failed to load media for item "${item.id}"`, e);
+            return null;
+        }
+    }));
+    return items.filter((item): item is CanvasItem => item !== null);
+};
+
+/**
+ * Loads a board's items, resolving each distinct asset once, on demand.
+ * @returns The items with usable `src` values, or an empty array if the board has never been saved.
+ */
+export const loadBoardItems = async (boardId: string): Promise<CanvasItem[]> => {
+    const db = await openDb();
+    const record = await loadBoardRecord(db, boardId);
+    return record ? resolveStoredItems(db, record.items) : [];
+};
+
+/**
+ * Loads the ancestors that were removed from a board's canvas, for the lineage graph.
+ */
+export const loadBoardArchive = async (boardId: string): Promise<CanvasItem[]> => {
+    const db = await openDb();
+    const record = await loadBoardRecord(db, boardId);
+    return record?.archivedItems ? resolveStoredItems(db, record.archivedItems) : [];
+};
+
+/**
+ * Saves a board's items, and optionally its archived ancestors. Media bytes go to the
+ * content-addressed asset store, so an image that appears several times (or on several boards)
+ * is stored once.
+ */
+export const saveBoardItems = async (boardId: string, items: CanvasItem[], archivedItems: CanvasItem[] = []): Promise<void> => {
+    const assetSources = new Map<string, string>();
+    const storedItems = await Promise.all(items.map(item => toStoredItem(item, assetSources)));
+    const storedArchive = await Promise.all(archivedItems.map(item => toStoredItem(item, assetSources)));
+
+    const db = await openDb();
+    const existingIds = new Set((await requestToPromise(db.transaction(ASSET_STORE, 'readonly').objectStore(ASSET_STORE).getAllKeys())).map(String));
+    const newAssets: AssetRecord[] = await Promise.all(
+        Array.from(assetSources).filter(([id]) => !existingIds.has(id)).map(async ([id, src]) => {
+            const blob = await srcToBlob(src);
+            return { id, blob, mimeType: blob.type, size: blob.size, createdAt: Date.now() };
+        })
+    );
+
+    const transaction = db.transaction([ASSET_STORE, BOARD_STORE], 'readwrite');
+    newAssets.forEach(asset => transaction.objectStore(ASSET_STORE).put(asset));
+    const board: BoardRecord = { id: boardId, items: storedItems, archivedItems: storedArchive, updatedAt: Date.now() };
+    transaction.objectStore(BOARD_STORE).put(board);
+    await transactionDone(transaction);
+
+    await pruneUnusedAssets(db);
+};
+
+/**
+ * Copies a board's items to another board id. Assets are shared, not duplicated.
+ */
+export const copyBoardItems = async (fromBoardId: string, toBoardId: string): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(BOARD_STORE, 'readwrite');
+    const store = transaction.objectStore(BOARD_STORE);
+    const record = await requestToPromise<BoardRecord | undefined>(store.get(fromBoardId));
+    if (record) {
+        const copy: BoardRecord = { ...record, id: toBoardId, updatedAt: Date.now() };
+        store.put(copy);
+    }
+    await transactionDone(transaction);
+};
+
+/**
+ * Deletes a board's items along with any assets only that board referenced.
+ */
+export const deleteBoardItems = async (boardId: string): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(BOARD_STORE, 'readwrite');
+    transaction.objectStore(BOARD_STORE).delete(boardId);
+    await transactionDone(transaction);
+    await pruneUnusedAssets(db);
+};
@@ -0,0 +1,150 @@
+/**
+ * Runs generation jobs with a concurrency limit per key (the model a job uses), cancellation,
+ * and automatic retry with exponential backoff when a provider reports a rate limit or a
+ * server error.
+ */
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 8;
+export const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+
+export type JobOutcome = 'completed' | 'error' | 'cancelled';
+
+export interface QueuedJob {
+    id: string;
+    concurrencyKey: string;
+    /** Does the work. Should stop early once `signal` is aborted; its result is ignored then. */
+    run: (signal: AbortSignal) => Promise<void>;
+    onStart?: () => void;
+    onRetry?: (nextAttempt: number, delayMs: number, error: unknown) => void;
+    onSettled: (outcome: JobOutcome, error?: unknown) => void;
+}
+
+/**
+ * The HTTP status an error was raised for, set as `status` on the error itself or on one it
+ * wraps as its `cause`. Null if there is none.
+ */
+export const getErrorStatus = (error: unknown): number | null => {
+    for (let current = error; typeof current === 'object' && current !== null; current = (current as { cause?: unknown }).cause) {
+        const status = (current as { status?: unknown }).status;
+        if (typeof status === 'number') return status;
+    }
+    return null;
+};
+
+/**
+ * Whether an error is worth retrying: HTTP 429 and 5xx responses. Errors without a status, such
+ * as refusals, are not retried, since every attempt may be billed.
+ */
+export const isTransientError = (error: unknown): boolean => {
+    const status = getErrorStatus(error);
+    return status !== null && (status === 429 || status >= 500);
+};
+
+const abortError = () => new DOMException('The task was cancelled.', 'AbortError');
+
+const wait = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Settles as soon as `signal` is aborted, even if `promise` is still running, so that a
+ * cancelled job frees its slot right away.
+ */
+const untilAborted = <T,>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+    promise.catch(() => {}); // A late failure after cancellation is not worth reporting.
+    return Promise.race([
+        promise,
+        new Promise<never>((_, reject) => {
+            if (signal.aborted) reject(abortError());
+            signal.addEventListener('abort', () => reject(abortError()), { once: true });
+        }),
+    ]);
+};
+
+export const createTaskQueue = (getConcurrency: (concurrencyKey: string) => number) => {
+    const pending: QueuedJob[] = [];
+    const running = new Map<string, string>(); // job id -> concurrency key
+    const controllers = new Map<string, AbortController>();
+
+    const runningCount = (concurrencyKey: string) => Array.from(running.values()).filter(key => key === concurrencyKey).length;
+
+    const execute = async (job: QueuedJob) => {
+        const { signal } = controllers.get(job.id)!;
+        running.set(job.id, job.concurrencyKey);
+        job.onStart?.();
+
+        let outcome: JobOutcome = 'completed';
+        let failure: unknown;
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await untilAborted(job.run(signal), signal);
+                break;
+            } catch (error) {
+                if (signal.aborted) {
+                    outcome = 'cancelled';
+                    break;
+                }
+                if (attempt >= MAX_ATTEMPTS || !isTransientError(error)) {
+                    outcome = 'error';
+                    failure = error;
+                    break;
+                }
+                const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+                job.onRetry?.(attempt + 1, delayMs, error);
+                try {
+                    await wait(delayMs, signal);
+                } catch {
+                    outcome = 'cancelled';
+                    break;
+                }
+            }
+        }
+
+        running.delete(job.id);
+        controllers.delete(job.id);
+        job.onSettled(outcome, failure);
+        pump();
+    };
+
+    /** Starts every pending job whose key has a free slot, oldest first. */
+    const pump = () => {
+        [...pending].forEach(job => {
+            if (runningCount(job.concurrencyKey) >= Math.max(1, getConcurrency(job.concurrencyKey))) return;
+            pending.splice(pending.indexOf(job), 1);
+            execute(job);
+        });
+    };
+
+    return {
+        enqueue: (job: QueuedJob) => {
+            controllers.set(job.id, new AbortController());
+            pending.push(job);
+            pump();
+        },
+        /** Drops a pending job, or aborts a running one. */
+        cancel: (jobId: string) => {
+            const index = pending.findIndex(job => job.id === jobId);
+            if (index >= 0) {
+                const [job] = pending.splice(index, 1);
+                controllers.delete(jobId);
+                job.onSettled('cancelled');
+                return;
+            }
+            controllers.get(jobId)?.abort();
+        },
+        /** Call after the concurrency limits change. */
+        refresh: pump,
+    };
+};
+
+export type TaskQueue = ReturnType<typeof createTaskQueue>;
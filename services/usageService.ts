@@ -0,0 +1,106 @@
+import { ModelChoice, ProviderMethod, UsageRecord, UsageSettings } from '../types';
+import { modelChoiceKey } from './providers';
+import { loadState, saveState } from '../utils/storage';
+
+/**
+ * Records every provider call with its model, inputs, outputs and duration, and estimates what
+ * the calls cost from the unit prices entered in the usage dashboard.
+ */
+
+const USAGE_KEY = 'usageRecords';
+const MAX_USAGE_RECORDS = 5000; // Older calls are dropped first.
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: {}, dailyBudget: null };
+
+export interface UsageTotals {
+    calls: number;
+    failures: number;
+    outputs: number;
+    durationMs: number;
+    cost: number;
+}
+
+let currentBoardId: string | null = null;
+
+/** Calls are attributed to this board until it changes. */
+export const setUsageBoard = (boardId: string) => {
+    currentBoardId = boardId;
+};
+
+export const loadUsage = (): UsageRecord[] => loadState<UsageRecord[]>(USAGE_KEY, []);
+
+export const clearUsage = () => saveState(USAGE_KEY, []);
+
+const recordUsage = (record: Omit<UsageRecord, 'time'>) => {
+    const records = loadUsage();
+    records.push({ ...record, time: Date.now() });
+    saveState(USAGE_KEY, records.slice(-MAX_USAGE_RECORDS));
+};
+
+/**
+ * Runs a provider call that returns one output and records it, whether it succeeds or not. The
+ * call is charged to the board that was open when it started.
+ */
+export const trackUsage = async <T,>(model: ModelChoice, method: ProviderMethod, inputImages: number, call: () => Promise<T>): Promise<T> => {
+    const startedAt = Date.now();
+    const boardId = currentBoardId;
+    try {
+        const result = await call();
+        recordUsage({ model, method, inputImages, outputs: 1, durationMs: Date.now() - startedAt, success: true, boardId });
+        return result;
+    } catch (error) {
+        recordUsage({ model, method, inputImages, outputs: 0, durationMs: Date.now() - startedAt, success: false, boardId });
+        throw error;
+    }
+};
+
+export const getUnitPrice = (settings: UsageSettings, model: ModelChoice): number => settings.prices[modelChoiceKey(model)] ?? 0;
+
+/** Failed calls are assumed to be free. */
+export const getUsageCost = (record: UsageRecord, settings: UsageSettings): number => record.outputs * getUnitPrice(settings, record.model);
+
+/** The local calendar day of a time, as YYYY-MM-DD. */
+export const getDayKey = (time: number): string => {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Adds the records up per group, e.g. per model, board or day.
+ */
+export const summarizeUsage = (records: UsageRecord[], settings: UsageSettings, groupBy: (record: UsageRecord) => string): Map<string, UsageTotals> => {
+    const totals = new Map<string, UsageTotals>();
+    records.forEach(record => {
+        const key = groupBy(record);
+        const total = totals.get(key) ?? { calls: 0, failures: 0, outputs: 0, durationMs: 0, cost: 0 };
+        total.calls++;
+        if (!record.success) total.failures++;
+        total.outputs += record.outputs;
+        total.durationMs += record.durationMs;
+        total.cost += getUsageCost(record, settings);
+        totals.set(key, total);
+    });
+    return totals;
+};
+
+export const getSpentToday = (settings: UsageSettings): number => {
+    const today = getDayKey(Date.now());
+    return loadUsage()
+        .filter(record => getDayKey(record.time) === today)
+        .reduce((sum, record) => sum + getUsageCost(record, settings), 0);
+};
+
+export const formatCost = (cost: number): string => `$${cost.toFixed(cost > 0 && cost < 1 ? 3 : 2)}`;
+
+/**
+ * Returns a warning if a call to `model` would take today's estimated spending over the daily
+ * budget, or null if there is no budget or it is not reached.
+ */
+export const getBudgetWarning = (settings: UsageSettings, model: ModelChoice): string | null => {
+    if (settings.dailyBudget === null) return null;
+    const spent = getSpentToday(settings);
+    const estimate = getUnitPrice(settings, model);
+    if (spent + estimate <= settings.dailyBudget) return null;
+    return `Today's estimated spending is ${formatCost(spent)} of your ${formatCost(settings.dailyBudget)} daily budget`
+        + (estimate > 0 ? `, and this request adds about ${formatCost(estimate)}.` : '.');
+};
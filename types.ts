@@ -4,7 +4,15 @@ export interface Point {
   y: number;
 }
 
-export interface BaseItem {
+// Set from the layers panel. Hidden items are not drawn, exported or sent to models; locked items
+// cannot be picked or changed on the canvas.
+export interface LayerProps {
+  name?: string; // Shown in the layers panel instead of a description of the item.
+  isHidden?: boolean;
+  isLocked?: boolean;
+}
+
+export interface BaseItem extends LayerProps {
   id: string;
   x: number;
   y: number;
@@ -19,6 +27,7 @@ export interface ImageItem extends BaseItem {
   thumbnailSrc?: string; // smaller base64 data URL for localStorage
   mimeType: string;
   prompt: string; // The original prompt or filename
+  generation?: GenerationRecord; // Set on generated images.
 }
 
 export interface VideoItem extends BaseItem {
@@ -28,6 +37,7 @@ export interface VideoItem extends BaseItem {
     src: string; // blob URL
     mimeType: string;
     prompt: string;
+    generation?: GenerationRecord; // Set on generated videos.
 }
 
 export interface TextItem extends BaseItem {
@@ -39,7 +49,7 @@ export interface TextItem extends BaseItem {
   fontSize: number;
 }
 
-export interface DrawingItem {
+export interface DrawingItem extends LayerProps {
     id: string;
     type: 'drawing';
     points: Point[];
@@ -49,7 +59,31 @@ export interface DrawingItem {
     rotation: number;
 }
 
-export type CanvasItem = ImageItem | TextItem | DrawingItem | VideoItem;
+// Keeps its children together. Its box is the box around them, and moving, scaling or rotating
+// the group transforms each child, so a group itself is never rotated.
+export interface GroupItem extends LayerProps {
+    id: string;
+    type: 'group';
+    children: CanvasItem[]; // Bottom to top; may contain other groups.
+    rotation: number;
+}
+
+export type FrameAspectRatio = '1:1' | '16:9' | '9:16' | '4:5' | 'custom';
+
+// A named area that holds the items inside it and clips them to its edges. Selecting a frame
+// makes it the generation target: results are cropped to fill it exactly. Frames are never rotated.
+export interface FrameItem extends BaseItem {
+    type: 'frame';
+    name: string;
+    width: number;
+    height: number;
+    aspectRatio: FrameAspectRatio; // Kept while resizing, except for 'custom'.
+    children: CanvasItem[]; // Bottom to top, in canvas coordinates.
+    prompt?: string; // The prompt last generated into the frame, offered again to regenerate.
+    outputItemId?: string; // The child last generated into the frame, replaced by the next result.
+}
+
+export type CanvasItem = ImageItem | TextItem | DrawingItem | VideoItem | GroupItem | FrameItem;
 
 export interface SelectionRect {
   x: number;
@@ -59,7 +93,21 @@ export interface SelectionRect {
 }
 
 // FIX: Add 'expanding' to InteractionMode to support image expansion interactions. This resolves type errors where 'expanding' was being compared to InteractionMode.
-export type InteractionMode = 'none' | 'moving' | 'selecting' | 'drawing' | 'resizing' | 'rotating' | 'panning' | 'magicFill' | 'expanding';
+// The *Group modes transform every item of a marquee selection together.
+export type InteractionMode = 'none' | 'moving' | 'selecting' | 'drawing' | 'resizing' | 'rotating' | 'panning' | 'magicFill' | 'expanding' | 'movingGroup' | 'resizingGroup' | 'rotatingGroup';
+
+// A line shown while dragging, where an edge or center of the dragged box lines up with another
+// item's. 'x' guides are vertical lines at x = position; 'y' guides are horizontal.
+export interface AlignmentGuide {
+  axis: 'x' | 'y';
+  position: number;
+  start: number; // Extent along the line, covering both boxes.
+  end: number;
+  gap?: { start: number; end: number }; // The space between the boxes along the line, labelled with its length.
+}
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
 
 export interface DrawingOptions {
   color: string;
@@ -78,18 +126,68 @@ export interface GridOptions {
   color: string;
 }
 
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'svg' | 'pdf';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  scope: 'board' | 'selection' | 'frames'; // 'frames' exports one page or file per frame.
+  scale: number;
+  background: string | null; // null for transparent
+}
+
+export interface BoardMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface GenerationTask {
   id: string;
   type: 'standard' | 'magic-fill' | 'video';
-  status: 'interpreting' | 'generating' | 'completed' | 'error';
+  status: 'queued' | 'interpreting' | 'generating' | 'completed' | 'error' | 'cancelled';
   log: { type: 'status' | 'prompt' | 'result'; message: string }[];
   selectionRect: SelectionRect;
   error?: string;
+  createdAt?: number;
+  model?: ModelChoice; // The model that makes the result.
+  prompt?: string; // The prompt sent to the model, once it is known.
+  boardId?: string; // The board the task was started on, where its result goes. Missing on tasks saved before boards were tracked.
+  videoJob?: VideoJobRecord; // Set once a video provider has accepted the job.
+}
+
+/**
+ * What is needed to pick a video job up again after the page is reloaded: the provider's
+ * operation and how the finished video is placed.
+ */
+export interface VideoJobRecord {
+  model: ModelChoice;
+  operation: string; // The provider's name for the long-running job.
+  prompt: string;
+  generation: Omit<GenerationRecord, 'completedAt' | 'snapshotSrc'>;
+  isUsageRecorded?: boolean; // Set once the call that started the job has been recorded, so that resuming it does not record it again.
 }
 
+/**
+ * An interpreted prompt or a model's plan, held for the user to edit and confirm before the
+ * expensive generation call.
+ */
+export interface PromptReview {
+  id: string;
+  taskId: string;
+  kind: 'prompt' | 'plan';
+  text: string;
+  label?: string; // Tells variations apart.
+}
+
+export type PromptReviewDecision = { action: 'confirm'; text: string } | { action: 'regenerate' };
+
 export interface ImagePreview {
-    newImage: ImageItem;
+    candidates: ImageItem[]; // One per variation, all placed over the selection.
+    activeIndex: number; // The candidate shown on the canvas.
     itemsToReplace: CanvasItem[];
+    frameId?: string; // Set when the accepted candidate goes into a frame.
+    boardId: string; // The board the preview was made on. It waits there while another board is open.
 }
 
 export interface MagicFillState {
@@ -99,16 +197,241 @@ export interface MagicFillState {
   maskDrawing: DrawingItem | null;
 }
 
-export const AVAILABLE_MODELS = {
-  textToImage: ['imagen-4.0-generate-001', 'gemini-2.5-flash-image-preview'],
-  canvasToImage: ['gemini-2.5-flash-image-preview'],
-  video: ['veo-2.0-generate-001'],
-  interpretation: ['gemini-2.5-flash'],
-};
+export type ProviderCapability = 'textToImage' | 'canvasToImage' | 'inpaint' | 'outpaint' | 'video' | 'interpretation';
+
+export interface ModelChoice {
+  provider: string; // GenerationProvider.id
+  model: string;
+}
+
+export type ModelSettings = Record<ProviderCapability, ModelChoice>;
+
+export type ProviderMethod = 'generateImageFromText' | 'generateImageFromCanvas' | 'editImageWithMask' | 'generateOutpaintedImage'
+  | 'generateVideo' | 'resumeVideo' | 'interpretCanvas' | 'interpretMagicFill';
+
+/**
+ * One call to a provider, recorded for the usage dashboard.
+ */
+export interface UsageRecord {
+  time: number; // When the call settled.
+  boardId: string | null; // The board that was open when the call started.
+  model: ModelChoice;
+  method: ProviderMethod;
+  inputImages: number; // Images sent, counting snapshots and masks.
+  outputs: number; // Images, videos or texts returned; 0 when the call failed.
+  durationMs: number;
+  success: boolean;
+}
+
+export interface SavedPrompt {
+  id: string;
+  title: string;
+  text: string; // May contain `{variables}`, which are filled in when the prompt is inserted.
+  tags: string[];
+  isFavorite: boolean;
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+export interface CacheSettings {
+  bypass: boolean; // Always call the provider; fresh results are still stored.
+  reuseImages: boolean; // Return a stored image for an identical request. Interpretations are always reused.
+  maxSizeMb: number;
+}
+
+export interface UsageSettings {
+  prices: Record<string, number>; // Estimated price per output, keyed by modelChoiceKey().
+  dailyBudget: number | null; // A soft limit; starting a video over it asks first.
+}
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+/**
+ * The image settings chosen in the prompt modal or the selection bar.
+ */
+export interface GenerationParameters {
+  aspectRatio: AspectRatio | 'selection'; // 'selection' uses the supported ratio closest to the selection's shape.
+  seed: number | null; // null picks a random seed for every image.
+  negativePrompt: string;
+  guidanceScale: number | null; // null uses the model's default.
+  count: number; // Variations requested at once.
+  outputSize: number; // Longest side in pixels.
+}
 
-export interface ModelSettings {
-  textToImage: string;
-  canvasToImage: string;
-  video: string;
-  interpretation: string;
-}
\ No newline at end of file
+/**
+ * The settings for one image, as sent to a provider: the aspect ratio is resolved and the seed
+ * is concrete. Providers ignore what their models do not support.
+ */
+export interface ImageParameters {
+  aspectRatio: AspectRatio;
+  seed: number;
+  negativePrompt?: string;
+  guidanceScale?: number;
+  outputSize: number;
+  isSeedRandom?: boolean; // Set when the seed was picked at random rather than by the user.
+}
+
+/**
+ * The settings a generated image was made with. The seed is left out when the model ignored it.
+ */
+export type RecordedImageParameters = Omit<ImageParameters, 'seed' | 'isSeedRandom'> & { seed?: number };
+
+export type GenerationKind = 'image' | 'magic-fill' | 'expand' | 'video';
+
+/**
+ * The provenance of a generated item: what the user asked for, what was sent and to which
+ * model. Shown in the item's Info panel and used to regenerate it.
+ */
+export interface GenerationRecord {
+  taskId: string;
+  kind: GenerationKind;
+  userPrompt: string; // As typed; empty when the canvas alone was interpreted.
+  interpretedPrompt: string | null; // Written by the interpretation model, or null if the user's prompt was used as-is.
+  model: ModelChoice;
+  interpretationModel?: ModelChoice; // Set when interpretedPrompt is.
+  parameters?: RecordedImageParameters; // Set for 'image' generations.
+  snapshotSrc?: string; // Data URL of the canvas snapshot sent with the request.
+  sourceItemIds: string[]; // The canvas items the request was made from.
+  regeneratedFrom?: string; // Id of the item this one was regenerated from.
+  startedAt: number; // Epoch milliseconds; 0 if unknown.
+  completedAt: number;
+}
+
+export interface LineageNode {
+  id: string;
+  item: CanvasItem | null; // null if the item is neither on the canvas nor archived.
+  isOnCanvas: boolean;
+  depth: number; // Longest chain of generations leading to this item.
+}
+
+export interface LineageEdge {
+  from: string; // Source item id.
+  to: string; // Generated item id.
+  kind: GenerationKind | 'regenerate';
+}
+
+export interface LineageGraph {
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+}
+
+export interface GeneratedImage {
+  base64: string;
+  mimeType: string;
+  textResponse?: string;
+  ignoredSeed?: boolean; // Set when the model does not take a seed, so that none is recorded.
+  randomSeed?: number; // The random seed the image was made with, so that a reused image records its own.
+}
+
+export interface GeneratedVideo {
+  videoBlob: Blob;
+  mimeType: string;
+}
+
+export interface TextToImageRequest {
+  model: string;
+  prompt: string;
+  parameters: ImageParameters;
+  onStepUpdate: (message: string) => void;
+}
+
+export interface CanvasToImageRequest {
+  model: string;
+  prompt: string;
+  images: ImageItem[];
+  snapshotDataUrl: string;
+  parameters: ImageParameters;
+  onStepUpdate: (message: string) => void;
+  /**
+   * Set when the user reviews prompts. Providers that describe a plan before generating pass it
+   * here and continue with the confirmed text, or ask the model for a new plan.
+   */
+  reviewPlan?: (plan: string) => Promise<PromptReviewDecision>;
+}
+
+export interface InpaintRequest {
+  model: string;
+  prompt: string;
+  image: ImageItem;
+  maskDataUrl: string; // white = area to change
+  referenceImage: ImageItem | null;
+}
+
+export interface OutpaintRequest {
+  model: string;
+  prompt: string;
+  imageDataUrl: string; // the original image placed on the enlarged canvas
+  maskDataUrl: string; // white = area to fill
+}
+
+export interface VideoRequest {
+  model: string;
+  prompt: string;
+  snapshotDataUrl: string;
+  onStepUpdate: (message: string) => void;
+  signal?: AbortSignal; // Aborted when the user cancels; providers stop polling.
+  onOperationStarted?: (operation: string) => void; // Called with the job's name once the provider accepts it.
+}
+
+export interface ResumeVideoRequest {
+  model: string;
+  operation: string; // As reported to VideoRequest.onOperationStarted.
+  onStepUpdate: (message: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface CanvasInterpretationRequest {
+  model: string;
+  snapshotDataUrl: string;
+  items: CanvasItem[];
+  userPrompt: string | null;
+}
+
+export interface MagicFillInterpretationRequest {
+  model: string;
+  snapshotDataUrl: string;
+  sourceImage: ImageItem | null;
+  userPrompt: string;
+}
+
+export interface ProviderConfigField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  description?: string;
+}
+
+export type ProviderConfig = Record<string, string>;
+
+export interface CredentialStatus {
+  state: 'missing' | 'locked' | 'checking' | 'valid' | 'invalid' | 'unverified';
+  message?: string;
+}
+
+/**
+ * A backend that can run some or all of the generation capabilities. A provider supports a
+ * capability when it lists models for it and implements the matching method(s);
+ * 'interpretation' covers both interpretCanvas and interpretMagicFill.
+ */
+export interface GenerationProvider {
+  id: string;
+  name: string;
+  models: Partial<Record<ProviderCapability, string[]>>;
+  isConfigured: () => boolean;
+  setupHint: string; // Shown when isConfigured() is false.
+  configFields?: ProviderConfigField[]; // Edited in Settings, read with getProviderConfig().
+  credentialLabel?: string; // Set when the provider needs an API key, read with getCredential().
+  /**
+   * Checks an API key with the backend. Resolves to false if the key is rejected and throws if
+   * the check itself could not be completed (e.g. the network is down).
+   */
+  testCredential?: (apiKey: string) => Promise<boolean>;
+  generateImageFromText?: (request: TextToImageRequest) => Promise<GeneratedImage>;
+  generateImageFromCanvas?: (request: CanvasToImageRequest) => Promise<GeneratedImage>;
+  editImageWithMask?: (request: InpaintRequest) => Promise<GeneratedImage>;
+  generateOutpaintedImage?: (request: OutpaintRequest) => Promise<GeneratedImage>;
+  generateVideo?: (request: VideoRequest) => Promise<GeneratedVideo>;
+  resumeVideo?: (request: ResumeVideoRequest) => Promise<GeneratedVideo>; // Polls a job started before a reload.
+  interpretCanvas?: (request: CanvasInterpretationRequest) => Promise<string>;
+  interpretMagicFill?: (request: MagicFillInterpretationRequest) => Promise<string>;
+}
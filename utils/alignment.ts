@@ -0,0 +1,135 @@
+import { AlignMode, AlignmentGuide, CanvasItem, DistributeAxis, Point, SelectionRect } from '../types';
+import { getRotatedBoundingBox } from './geometry';
+
+/**
+ * Smart guides snap a dragged box to the edges and centers of the items around it, and the
+ * align and distribute commands line up the items of a selection.
+ */
+
+// How close, in screen pixels, an edge or center has to come to another's to snap to it.
+export const SNAP_DISTANCE = 6;
+
+// Lines closer than this, in canvas units, count as aligned when drawing guides.
+const ALIGNED_EPSILON = 0.5;
+
+// The left edge, center and right edge of a box for 'x'; the top, middle and bottom for 'y'.
+const getLines = (box: SelectionRect, axis: 'x' | 'y'): number[] => {
+    return axis === 'x' ? [box.x, box.x + box.width / 2, box.x + box.width] : [box.y, box.y + box.height / 2, box.y + box.height];
+};
+
+// The range a box covers along the other axis, i.e. along a guide for `axis`.
+const getCrossRange = (box: SelectionRect, axis: 'x' | 'y'): [number, number] => {
+    return axis === 'x' ? [box.y, box.y + box.height] : [box.x, box.x + box.width];
+};
+
+const getBoundsOfRects = (boxes: SelectionRect[]): SelectionRect => {
+    const minX = Math.min(...boxes.map(b => b.x));
+    const minY = Math.min(...boxes.map(b => b.y));
+    const maxX = Math.max(...boxes.map(b => b.x + b.width));
+    const maxY = Math.max(...boxes.map(b => b.y + b.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Returns the boxes of the visible items of a scope to snap to, leaving out the dragged ones. A
+ * frame being edited is included, so that its children snap to its edges.
+ */
+export const getSnapTargets = (scopeItems: CanvasItem[], excludedIds: string[], container?: CanvasItem): SelectionRect[] => {
+    const targets = scopeItems.filter(item => !item.isHidden && !excludedIds.includes(item.id)).map(item => getRotatedBoundingBox(item));
+    return container?.type === 'frame' ? [...targets, getRotatedBoundingBox(container)] : targets;
+};
+
+// The smallest shift along `axis` that lines one of the box's lines up with a target's, if any is within `threshold`.
+const findSnapOffset = (box: SelectionRect, targets: SelectionRect[], axis: 'x' | 'y', threshold: number): number => {
+    const lines = getLines(box, axis);
+    let offset: number | null = null;
+    for (const target of targets) {
+        for (const targetLine of getLines(target, axis)) {
+            for (const line of lines) {
+                const distance = targetLine - line;
+                if (Math.abs(distance) <= threshold && (offset === null || Math.abs(distance) < Math.abs(offset))) offset = distance;
+            }
+        }
+    }
+    return offset ?? 0;
+};
+
+// One guide per line of the box that lines up with targets, spanning all of them. The nearest
+// target that does not overlap the box along the guide gives the gap. Only the first guide with
+// a gap keeps it, so that boxes of the same size do not get the same label three times.
+const getGuides = (box: SelectionRect, targets: SelectionRect[], axis: 'x' | 'y'): AlignmentGuide[] => {
+    const guides: AlignmentGuide[] = [];
+    const [boxStart, boxEnd] = getCrossRange(box, axis);
+    for (const line of getLines(box, axis)) {
+        let guide: AlignmentGuide | null = null;
+        for (const target of targets) {
+            if (!getLines(target, axis).some(targetLine => Math.abs(targetLine - line) < ALIGNED_EPSILON)) continue;
+            const [targetStart, targetEnd] = getCrossRange(target, axis);
+            if (!guide) guide = { axis, position: line, start: boxStart, end: boxEnd };
+            guide.start = Math.min(guide.start, targetStart);
+            guide.end = Math.max(guide.end, targetEnd);
+            const gap = targetEnd <= boxStart ? { start: targetEnd, end: boxStart }
+                : targetStart >= boxEnd ? { start: boxEnd, end: targetStart }
+                : undefined;
+            if (gap && (!guide.gap || gap.end - gap.start < guide.gap.end - guide.gap.start)) guide.gap = gap;
+        }
+        if (guide) guides.push(guide);
+    }
+    const labelled = guides.find(guide => guide.gap);
+    return guides.map(guide => guide === labelled ? guide : { ...guide, gap: undefined });
+};
+
+/**
+ * Snaps a dragged box to the edges and centers of `targets`, on each axis separately.
+ * @param threshold The snapping distance in canvas units.
+ * @returns The shift to add to the drag, and the guides to show for the snapped box.
+ */
+export const snapToItems = (box: SelectionRect, targets: SelectionRect[], threshold: number): { dx: number; dy: number; guides: AlignmentGuide[] } => {
+    const dx = findSnapOffset(box, targets, 'x', threshold);
+    const dy = findSnapOffset(box, targets, 'y', threshold);
+    const snapped = { ...box, x: box.x + dx, y: box.y + dy };
+    return { dx, dy, guides: [...getGuides(snapped, targets, 'x'), ...getGuides(snapped, targets, 'y')] };
+};
+
+/**
+ * Returns how far to move each box to line it up with the edge or center of the box around all of them.
+ */
+export const getAlignmentOffsets = (boxes: SelectionRect[], mode: AlignMode): Point[] => {
+    const bounds = getBoundsOfRects(boxes);
+    return boxes.map(box => {
+        switch (mode) {
+            case 'left': return { x: bounds.x - box.x, y: 0 };
+            case 'center': return { x: bounds.x + bounds.width / 2 - (box.x + box.width / 2), y: 0 };
+            case 'right': return { x: bounds.x + bounds.width - (box.x + box.width), y: 0 };
+            case 'top': return { x: 0, y: bounds.y - box.y };
+            case 'middle': return { x: 0, y: bounds.y + bounds.height / 2 - (box.y + box.height / 2) };
+            case 'bottom': return { x: 0, y: bounds.y + bounds.height - (box.y + box.height) };
+        }
+    });
+};
+
+/**
+ * Returns how far to move each box so that the spaces between them are equal. The first and last
+ * boxes along the axis, by center, stay where they are. Needs at least three boxes.
+ */
+export const getDistributionOffsets = (boxes: SelectionRect[], axis: DistributeAxis): Point[] => {
+    if (boxes.length < 3) return boxes.map(() => ({ x: 0, y: 0 }));
+    const isHorizontal = axis === 'horizontal';
+    const getStart = (box: SelectionRect) => isHorizontal ? box.x : box.y;
+    const getSize = (box: SelectionRect) => isHorizontal ? box.width : box.height;
+
+    const order = boxes.map((_, i) => i).sort((a, b) => (getStart(boxes[a]) + getSize(boxes[a]) / 2) - (getStart(boxes[b]) + getSize(boxes[b]) / 2));
+    const first = boxes[order[0]];
+    const last = boxes[order[order.length - 1]];
+    const totalSize = boxes.reduce((sum, box) => sum + getSize(box), 0);
+    const gap = (getStart(last) + getSize(last) - getStart(first) - totalSize) / (boxes.length - 1);
+
+    const offsets: Point[] = boxes.map(() => ({ x: 0, y: 0 }));
+    let position = getStart(first);
+    for (const i of order) {
+        const distance = position - getStart(boxes[i]);
+        offsets[i] = isHorizontal ? { x: distance, y: 0 } : { x: 0, y: distance };
+        position += getSize(boxes[i]) + gap;
+    }
+    return offsets;
+};
@@ -2,6 +2,7 @@
 import { DrawingItem, ImageItem, CanvasItem, SelectionRect } from '../types';
 // FIX: Import `rotatePoint` for use in mask generation.
 import { getBoundingBox, getCenter, isItemInSelection, rotatePoint } from './geometry';
+import { getClippedItems } from './frames';
 
 export const convertDrawingToImageItem = (drawing: DrawingItem): Promise<ImageItem | null> => {
     return new Promise((resolve) => {
@@ -59,29 +60,44 @@ export const convertDrawingToImageItem = (drawing: DrawingItem): Promise<ImageIt
 
 // FIX: Implement and export missing canvas utility functions to resolve compilation errors.
 
+export interface SnapshotOptions {
+    /** Output pixels per canvas unit. Defaults to 1. */
+    scale?: number;
+    /** Fill color behind the items, or null for a transparent background. Defaults to the canvas color. */
+    background?: string | null;
+    /** Defaults to 'image/png'. */
+    mimeType?: string;
+    /** Encoder quality for lossy formats, from 0 to 1. */
+    quality?: number;
+}
+
 /**
  * Renders a snapshot of the specified canvas area and items to a data URL.
  */
-export const createCanvasSnapshot = (items: CanvasItem[], selectionRect: SelectionRect): Promise<string> => {
+export const createCanvasSnapshot = (items: CanvasItem[], selectionRect: SelectionRect, options: SnapshotOptions = {}): Promise<string> => {
+    const { scale = 1, background = '#111827', mimeType = 'image/png', quality } = options;
     return new Promise(async (resolve, reject) => {
         const canvas = document.createElement('canvas');
-        canvas.width = selectionRect.width;
-        canvas.height = selectionRect.height;
-        const ctx = canvas.getContext('2d', { alpha: false });
+        canvas.width = Math.round(selectionRect.width * scale);
+        canvas.height = Math.round(selectionRect.height * scale);
+        const ctx = canvas.getContext('2d', { alpha: background === null });
 
         if (!ctx) {
             return reject(new Error("Could not get canvas context for snapshot."));
         }
         
-        ctx.fillStyle = '#111827';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        if (background !== null) {
+            ctx.fillStyle = background;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
 
-        const itemsToRender = items.filter(item => isItemInSelection(item, selectionRect));
+        // Items in frames are clipped to their frame.
+        const itemsToRender = getClippedItems(items).filter(({ item, clip }) => isItemInSelection(item, selectionRect) && (!clip || (clip.width > 0 && clip.height > 0)));
         
         const mediaElements = new Map<string, HTMLImageElement | HTMLVideoElement>();
         const mediaLoadPromises: Promise<void>[] = [];
 
-        itemsToRender.forEach(item => {
+        itemsToRender.forEach(({ item }) => {
             if ((item.type === 'image' || item.type === 'video') && item.src && !mediaElements.has(item.id)) {
                 const promise = new Promise<void>((resolveLoad) => {
                     const el = item.type === 'image' ? new Image() : document.createElement('video');
@@ -109,10 +125,16 @@ export const createCanvasSnapshot = (items: CanvasItem[], selectionRect: Selecti
         });
 
         await Promise.all(mediaLoadPromises);
+        ctx.scale(scale, scale);
         ctx.translate(-selectionRect.x, -selectionRect.y);
 
-        for (const item of itemsToRender) {
+        for (const { item, clip } of itemsToRender) {
             ctx.save();
+            if (clip) {
+                ctx.beginPath();
+                ctx.rect(clip.x, clip.y, clip.width, clip.height);
+                ctx.clip();
+            }
             const box = getBoundingBox(item);
             const center = getCenter(box);
             ctx.translate(center.x, center.y);
@@ -137,7 +159,7 @@ export const createCanvasSnapshot = (items: CanvasItem[], selectionRect: Selecti
                     break;
                 }
                 case 'drawing': {
-                    if (item.points.length < 2) continue;
+                    if (item.points.length < 2) break;
                     ctx.strokeStyle = item.color;
                     ctx.lineWidth = item.strokeWidth;
                     ctx.globalAlpha = item.opacity;
@@ -154,7 +176,29 @@ export const createCanvasSnapshot = (items: CanvasItem[], selectionRect: Selecti
             }
             ctx.restore();
         }
-        resolve(canvas.toDataURL('image/png'));
+        resolve(canvas.toDataURL(mimeType, quality));
+    });
+};
+
+/**
+ * Crops an image to the given aspect ratio (width / height), keeping its middle.
+ */
+export const cropImageToAspectRatio = (src: string, mimeType: string, ratio: number): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const width = Math.min(img.naturalWidth, img.naturalHeight * ratio);
+            const height = width / ratio;
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(width);
+            canvas.height = Math.round(height);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error("Could not get canvas context for cropping."));
+            ctx.drawImage(img, (img.naturalWidth - width) / 2, (img.naturalHeight - height) / 2, width, height, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL(mimeType));
+        };
+        img.onerror = () => reject(new Error('Failed to load the image to crop.'));
+        img.src = src;
     });
 };
 
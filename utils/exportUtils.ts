@@ -0,0 +1,247 @@
+import { CanvasItem, ExportFormat, ExportOptions, SelectionRect } from '../types';
+import { createCanvasSnapshot } from './canvasUtils';
+import { getBoundingBox, getCenter, isItemInSelection } from './geometry';
+import { getClippedItems } from './frames';
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+    png: 'png',
+    jpeg: 'jpg',
+    webp: 'webp',
+    svg: 'svg',
+    pdf: 'pdf',
+};
+
+const RASTER_MIME_TYPES: Partial<Record<ExportFormat, string>> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+// Browsers refuse to allocate canvases much larger than this on either side.
+const MAX_CANVAS_DIMENSION = 16384;
+// CSS pixels are defined at 96 per inch; PDF units are points, at 72 per inch.
+const POINTS_PER_PIXEL = 72 / 96;
+// Matches the `p-2` padding and default line height of text items on the canvas.
+const TEXT_PADDING = 8;
+const TEXT_LINE_HEIGHT = 1.5;
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const assertCanvasSize = (rect: SelectionRect, scale: number) => {
+    if (rect.width * scale > MAX_CANVAS_DIMENSION || rect.height * scale > MAX_CANVAS_DIMENSION) {
+        throw new Error(`The export would be larger than ${MAX_CANVAS_DIMENSION}px on one side. Choose a smaller scale or area.`);
+    }
+    if (rect.width <= 0 || rect.height <= 0) {
+        throw new Error('There is nothing to export in this area.');
+    }
+};
+
+// --- SVG ---
+
+const escapeXml = (text: string): string => {
+    return text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+};
+
+const rotationAttribute = (item: CanvasItem): string => {
+    if (!item.rotation) return '';
+    const center = getCenter(getBoundingBox(item));
+    return ` transform="rotate(${item.rotation} ${center.x} ${center.y})"`;
+};
+
+/**
+ * Breaks text into the lines the canvas would show for the given width.
+ */
+const wrapText = (text: string, fontSize: number, maxWidth: number): string[] => {
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) return text.split('\n');
+    ctx.font = `${fontSize}px sans-serif`;
+
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(' ').forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        });
+        lines.push(line);
+    });
+    return lines;
+};
+
+const itemToSvg = async (item: CanvasItem): Promise<string> => {
+    const transform = rotationAttribute(item);
+    switch (item.type) {
+        case 'image':
+            return `<image href="${escapeXml(item.src)}" x="${item.x}" y="${item.y}" width="${item.width}" height="${item.height}" preserveAspectRatio="xMidYMid meet"${transform}/>`;
+        case 'video': {
+            // SVG cannot hold video, so embed the first frame.
+            const box = getBoundingBox(item);
+            const frame = await createCanvasSnapshot([{ ...item, rotation: 0 }], box, { background: null });
+            return `<image href="${frame}" x="${item.x}" y="${item.y}" width="${item.width}" height="${item.height}"${transform}/>`;
+        }
+        case 'text': {
+            const lines = wrapText(item.text, item.fontSize, item.width - TEXT_PADDING * 2);
+            const lineHeight = item.fontSize * TEXT_LINE_HEIGHT;
+            const firstLineTop = item.y + TEXT_PADDING + (lineHeight - item.fontSize) / 2;
+            const tspans = lines.map((line, i) => (
+                `<tspan x="${item.x + TEXT_PADDING}" y="${firstLineTop + i * lineHeight}">${escapeXml(line)}</tspan>`
+            )).join('');
+            return `<text font-family="sans-serif" font-size="${item.fontSize}" fill="${escapeXml(item.color)}" dominant-baseline="text-before-edge" xml:space="preserve"${transform}>${tspans}</text>`;
+        }
+        case 'drawing': {
+            if (item.points.length < 2) return '';
+            const pathData = item.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x} ${p.y}`).join(' ');
+            return `<path d="${pathData}" fill="none" stroke="${escapeXml(item.color)}" stroke-width="${item.strokeWidth}" stroke-opacity="${item.opacity}" stroke-linecap="round" stroke-linejoin="round"${transform}/>`;
+        }
+        default:
+            return '';
+    }
+};
+
+/**
+ * Renders the items in an area as an SVG document. Text and drawings stay vectors;
+ * images are embedded as data URLs. Items in frames are clipped to their frame.
+ */
+export const createSvgExport = async (items: CanvasItem[], rect: SelectionRect, scale: number, background: string | null): Promise<string> => {
+    const itemsToRender = getClippedItems(items).filter(({ item }) => isItemInSelection(item, rect));
+    const clipPaths: string[] = [];
+    const elements = await Promise.all(itemsToRender.map(async ({ item, clip }) => {
+        const element = await itemToSvg(item);
+        if (!clip || !element) return element;
+        const id = `frame-clip-${clipPaths.length}`;
+        clipPaths.push(`<clipPath id="${id}"><rect x="${clip.x}" y="${clip.y}" width="${clip.width}" height="${clip.height}"/></clipPath>`);
+        return `<g clip-path="url(#${id})">${element}</g>`;
+    }));
+    const backgroundRect = background !== null
+        ? `<rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" fill="${escapeXml(background)}"/>`
+        : '';
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${rect.width * scale}" height="${rect.height * scale}" viewBox="${rect.x} ${rect.y} ${rect.width} ${rect.height}">`,
+        `<defs><clipPath id="export-area"><rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}"/></clipPath>${clipPaths.join('')}</defs>`,
+        `<g clip-path="url(#export-area)">`,
+        backgroundRect,
+        ...elements.filter(Boolean),
+        `</g>`,
+        `</svg>`,
+    ].join('\n');
+};
+
+// --- PDF ---
+
+interface PdfPage {
+    width: number;  // in points
+    height: number; // in points
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+}
+
+/**
+ * Writes a minimal PDF with one full-bleed JPEG image per page.
+ */
+const buildPdf = (pages: PdfPage[]): Blob => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const startObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Object layout: 1 = catalog, 2 = page tree, then a page, an image and a content stream per page.
+    const pageObjectId = (index: number) => 3 + index * 3;
+    const objectCount = 3 + pages.length * 3;
+
+    write('%PDF-1.4\n');
+    startObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    startObject(2);
+    write(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    pages.forEach((page, i) => {
+        const pageId = pageObjectId(i);
+        const width = page.width.toFixed(2);
+        const height = page.height.toFixed(2);
+
+        startObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${pageId + 1} 0 R >> >> /Contents ${pageId + 2} 0 R >>\nendobj\n`);
+
+        startObject(pageId + 1);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+
+        const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+        startObject(pageId + 2);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    });
+
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+};
+
+/**
+ * Renders each area as a page of a PDF. Pages keep the on-canvas size (1 canvas pixel = 1 CSS pixel);
+ * `scale` only raises the resolution of the embedded image.
+ */
+export const createPdfExport = async (items: CanvasItem[], pages: SelectionRect[], scale: number, background: string): Promise<Blob> => {
+    const pdfPages = await Promise.all(pages.map(async (rect): Promise<PdfPage> => {
+        const jpegDataUrl = await createCanvasSnapshot(items, rect, { scale, background, mimeType: 'image/jpeg', quality: 0.92 });
+        const jpeg = new Uint8Array(await (await dataUrlToBlob(jpegDataUrl)).arrayBuffer());
+        return {
+            width: rect.width * POINTS_PER_PIXEL,
+            height: rect.height * POINTS_PER_PIXEL,
+            jpeg,
+            pixelWidth: Math.round(rect.width * scale),
+            pixelHeight: Math.round(rect.height * scale),
+        };
+    }));
+    return buildPdf(pdfPages);
+};
+
+/**
+ * Exports items in the requested format. Image and SVG formats render the first page only;
+ * PDF renders one page per area.
+ */
+export const exportCanvas = async (items: CanvasItem[], pages: SelectionRect[], options: ExportOptions): Promise<Blob> => {
+    if (pages.length === 0) {
+        throw new Error('There is nothing to export.');
+    }
+    pages.forEach(page => assertCanvasSize(page, options.scale));
+    const [firstPage] = pages;
+
+    switch (options.format) {
+        case 'svg': {
+            const svg = await createSvgExport(items, firstPage, options.scale, options.background);
+            return new Blob([svg], { type: 'image/svg+xml' });
+        }
+        case 'pdf':
+            // JPEG pages cannot be transparent.
+            return createPdfExport(items, pages, options.scale, options.background ?? '#ffffff');
+        default: {
+            const mimeType = RASTER_MIME_TYPES[options.format]!;
+            const background = options.format === 'jpeg' ? (options.background ?? '#ffffff') : options.background;
+            const dataUrl = await createCanvasSnapshot(items, firstPage, { scale: options.scale, background, mimeType, quality: 0.92 });
+            return dataUrlToBlob(dataUrl);
+        }
+    }
+};
@@ -0,0 +1,22 @@
+/**
+ * Triggers a browser download of the given blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Give the browser a moment to start the download before releasing the blob.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Turns free text (a prompt, a board name) into a short, filesystem-safe file name stem.
+ */
+export const toFileNameStem = (text: string, fallback: string): string => {
+    const sanitized = text.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    return sanitized.substring(0, 30) || fallback;
+};
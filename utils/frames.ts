@@ -0,0 +1,135 @@
+import { CanvasItem, FrameAspectRatio, FrameItem, ImageItem, Point, SelectionRect } from '../types';
+import { getBoundingBox, getCenter, intersectRects, isPointInBox } from './geometry';
+import { findItemById, getScopeItems, isContainer, updateItemById, updateScopeItems } from './groups';
+
+/**
+ * Frames are named areas with a fixed shape. They hold the items inside them, and serve as
+ * generation targets and export pages.
+ */
+
+export const FRAME_ASPECT_RATIOS: FrameAspectRatio[] = ['1:1', '16:9', '9:16', '4:5', 'custom'];
+
+// The longest side of a new empty frame.
+const DEFAULT_FRAME_SIZE = 512;
+
+/**
+ * Returns width / height for a preset, or null for 'custom'.
+ */
+export const frameAspectRatioToNumber = (aspectRatio: FrameAspectRatio): number | null => {
+    if (aspectRatio === 'custom') return null;
+    const [width, height] = aspectRatio.split(':').map(Number);
+    return width / height;
+};
+
+/**
+ * Returns the smallest box with the preset's aspect ratio around `rect`, centered on it. A custom
+ * frame takes `rect` as it is.
+ */
+export const getFrameRectAround = (aspectRatio: FrameAspectRatio, rect: SelectionRect): SelectionRect => {
+    const ratio = frameAspectRatioToNumber(aspectRatio);
+    if (ratio === null) return rect;
+    const width = Math.max(rect.width, rect.height * ratio);
+    const height = width / ratio;
+    return { x: rect.x + (rect.width - width) / 2, y: rect.y + (rect.height - height) / 2, width, height };
+};
+
+/**
+ * Returns the box of a new empty frame centered on `center`. Custom frames start out square.
+ */
+export const getDefaultFrameRect = (aspectRatio: FrameAspectRatio, center: Point): SelectionRect => {
+    const ratio = frameAspectRatioToNumber(aspectRatio) ?? 1;
+    const width = ratio >= 1 ? DEFAULT_FRAME_SIZE : DEFAULT_FRAME_SIZE * ratio;
+    const height = width / ratio;
+    return { x: center.x - width / 2, y: center.y - height / 2, width, height };
+};
+
+/**
+ * Returns every frame, including frames inside groups and other frames, bottom to top.
+ */
+export const getFrames = (items: CanvasItem[]): FrameItem[] => {
+    return items.flatMap(item => {
+        if (!isContainer(item)) return [];
+        const nested = getFrames(item.children);
+        return item.type === 'frame' ? [item, ...nested] : nested;
+    });
+};
+
+export const getNextFrameName = (items: CanvasItem[]): string => `Frame ${getFrames(items).length + 1}`;
+
+/**
+ * Returns the frame that directly holds the item with the given id.
+ */
+export const findParentFrame = (items: CanvasItem[], id: string): FrameItem | undefined => {
+    for (const item of items) {
+        if (!isContainer(item)) continue;
+        if (item.type === 'frame' && item.children.some(child => child.id === id)) return item;
+        const found = findParentFrame(item.children, id);
+        if (found) return found;
+    }
+    return undefined;
+};
+
+/**
+ * Puts a generated image on top of a frame's children and remembers it, with the prompt the user
+ * typed, as the frame's output. If the frame is gone, the image goes on the canvas itself.
+ */
+export const addFrameOutput = (items: CanvasItem[], frameId: string, image: ImageItem): CanvasItem[] => {
+    if (findItemById(items, frameId)?.type !== 'frame') return [...items, image];
+    return updateItemById(items, frameId, frame => frame.type === 'frame' ? {
+        ...frame,
+        children: [...frame.children, image],
+        outputItemId: image.id,
+        prompt: image.generation?.userPrompt || frame.prompt,
+    } : frame);
+};
+
+/**
+ * After the item `itemId` in the scope `groupPath` was moved: takes it out of the frame it is in
+ * if its center has left the frame, or puts it into the topmost frame of its scope that its
+ * center is over.
+ * @returns The new items and the path of the scope the item ends up in.
+ */
+export const settleItemInFrames = (items: CanvasItem[], groupPath: string[], itemId: string): { items: CanvasItem[]; groupPath: string[] } => {
+    const scope = getScopeItems(items, groupPath);
+    const item = scope?.find(i => i.id === itemId);
+    if (!scope || !item || item.type === 'frame') return { items, groupPath };
+    const center = getCenter(getBoundingBox(item));
+    const withoutItem = updateScopeItems(items, groupPath, scopeItems => scopeItems.filter(i => i.id !== itemId));
+
+    const parentId = groupPath[groupPath.length - 1];
+    const parent = parentId ? findItemById(items, parentId) : undefined;
+    if (parent?.type === 'frame' && !isPointInBox(center, getBoundingBox(parent))) {
+        const parentPath = groupPath.slice(0, -1);
+        return {
+            items: updateScopeItems(withoutItem, parentPath, scopeItems => scopeItems.flatMap(i => i.id === parent.id ? [i, item] : [i])),
+            groupPath: parentPath,
+        };
+    }
+
+    const frame = [...scope].reverse().find(i => i.type === 'frame' && isPointInBox(center, getBoundingBox(i)));
+    if (!frame) return { items, groupPath };
+    const framePath = [...groupPath, frame.id];
+    return { items: updateScopeItems(withoutItem, framePath, children => [...children, item]), groupPath: framePath };
+};
+
+/**
+ * Returns the items to draw, bottom to top, each with the box it is clipped to by the frames it
+ * is in, or null if it is not in a frame. Hidden items, and everything in them, are left out.
+ */
+export const getClippedItems = (items: CanvasItem[], clip: SelectionRect | null = null): { item: CanvasItem; clip: SelectionRect | null }[] => {
+    return items.flatMap(item => {
+        if (item.isHidden) return [];
+        if (item.type === 'group') return getClippedItems(item.children, clip);
+        if (item.type === 'frame') {
+            const box = getBoundingBox(item);
+            return getClippedItems(item.children, clip ? intersectRects(clip, box) : box);
+        }
+        return [{ item, clip }];
+    });
+};
+
+/**
+ * Returns the children a frame generates from: all visible ones but the result of its last
+ * generation, which the next one replaces.
+ */
+export const getFrameInputs = (frame: FrameItem): CanvasItem[] => frame.children.filter(child => child.id !== frame.outputItemId && !child.isHidden);
@@ -1,4 +1,4 @@
-import { Point, DrawingItem, CanvasItem, ImageItem, TextItem, SelectionRect } from '../types';
+import { Point, DrawingItem, CanvasItem, ImageItem, TextItem, SelectionRect, AspectRatio } from '../types';
 
 export const rotatePoint = (point: Point, center: Point, angleDegrees: number): Point => {
     const angleRadians = (angleDegrees * Math.PI) / 180;
@@ -29,7 +29,13 @@ export const getBoundingBox = (item: CanvasItem): { x: number, y: number, width:
 
         return { x: minX, y: minY, width, height };
     }
-    // Handles 'image', 'video', and 'text' items
+    if (item.type === 'group') {
+        // Hidden children do not count, unless the whole group is hidden.
+        const visibleChildren = item.children.filter(child => !child.isHidden);
+        const children = visibleChildren.length > 0 ? visibleChildren : item.children;
+        return children.length > 0 ? getCombinedBoundingBox(children) : { x: 0, y: 0, width: 0, height: 0 };
+    }
+    // Handles 'image', 'video', 'text' and 'frame' items
     return { x: item.x, y: item.y, width: item.width, height: item.height };
 };
 
@@ -73,6 +79,8 @@ export const getCenter = (box: { x: number, y: number, width: number, height: nu
 
 
 export function isItemInSelection(item: CanvasItem, rect: SelectionRect): boolean {
+    // A group is only selected through its visible children, so empty space inside its box does not count.
+    if (item.type === 'group') return item.children.some(child => !child.isHidden && isItemInSelection(child, rect));
     const itemBox = getRotatedBoundingBox(item);
      return (
         itemBox.x < rect.x + rect.width &&
@@ -82,9 +90,142 @@ export function isItemInSelection(item: CanvasItem, rect: SelectionRect): boolea
     );
 }
 
+/**
+ * Whether `point` is on the item, taking its rotation into account. A group is hit where one of its visible children is.
+ */
+export function isPointInItem(point: Point, item: CanvasItem): boolean {
+    if (item.type === 'group') return item.children.some(child => !child.isHidden && isPointInItem(point, child));
+    const box = getBoundingBox(item);
+    return isPointInBox(rotatePoint(point, getCenter(box), -item.rotation), box);
+}
+
 export function getCenterOfSelection(rect: SelectionRect): Point {
     return {
         x: rect.x + rect.width / 2,
         y: rect.y + rect.height / 2,
     };
-}
\ No newline at end of file
+}
+/**
+ * Returns the axis-aligned box enclosing all the given items, accounting for rotation.
+ */
+export function getCombinedBoundingBox(items: CanvasItem[]): SelectionRect {
+    const boxes = items.map(getRotatedBoundingBox);
+    const minX = Math.min(...boxes.map(b => b.x));
+    const minY = Math.min(...boxes.map(b => b.y));
+    const maxX = Math.max(...boxes.map(b => b.x + b.width));
+    const maxY = Math.max(...boxes.map(b => b.y + b.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Returns the area covered by both boxes. If they do not overlap, its width or height is 0.
+ */
+export function intersectRects(a: SelectionRect, b: SelectionRect): SelectionRect {
+    const x = Math.max(a.x, b.x);
+    const y = Math.max(a.y, b.y);
+    const width = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x);
+    const height = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y);
+    return { x, y, width, height };
+}
+
+/**
+ * Lays out `count` cells the size of `rect` in a roughly square grid to the right of it.
+ * @returns The top-left corner of each cell, row by row.
+ */
+export function getGridPlacementsBeside(rect: SelectionRect, count: number, gap: number): Point[] {
+    const columns = Math.ceil(Math.sqrt(count));
+    return Array.from({ length: count }, (_, i) => ({
+        x: rect.x + rect.width + gap + (i % columns) * (rect.width + gap),
+        y: rect.y + Math.floor(i / columns) * (rect.height + gap),
+    }));
+}
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export function aspectRatioToNumber(aspectRatio: AspectRatio): number {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    return width / height;
+}
+
+/**
+ * Returns the supported aspect ratio closest to a box's shape.
+ */
+export function getClosestAspectRatio(box: { width: number, height: number }): AspectRatio {
+    const target = Math.log(Math.max(box.width, 1) / Math.max(box.height, 1));
+    return ASPECT_RATIOS.reduce((best, ratio) => (
+        Math.abs(Math.log(aspectRatioToNumber(ratio)) - target) < Math.abs(Math.log(aspectRatioToNumber(best)) - target) ? ratio : best
+    ));
+}
+
+/**
+ * Returns the size of an image with the given aspect ratio whose longest side is `longestSide`.
+ */
+export function getSizeForAspectRatio(aspectRatio: AspectRatio, longestSide: number): { width: number, height: number } {
+    const ratio = aspectRatioToNumber(aspectRatio);
+    return ratio >= 1
+        ? { width: longestSide, height: Math.round(longestSide / ratio) }
+        : { width: Math.round(longestSide * ratio), height: longestSide };
+}
+
+/**
+ * Returns the largest box with the given aspect ratio that fits inside `rect`, centered in it.
+ */
+export function fitAspectRatioInRect(ratio: number, rect: SelectionRect): SelectionRect {
+    const width = Math.min(rect.width, rect.height * ratio);
+    const height = width / ratio;
+    return { x: rect.x + (rect.width - width) / 2, y: rect.y + (rect.height - height) / 2, width, height };
+}
+
+/**
+ * Returns the item moved by (dx, dy).
+ */
+export function translateItem<T extends CanvasItem>(item: T, dx: number, dy: number): T {
+    if (item.type === 'drawing') {
+        return { ...item, points: item.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+    }
+    if (item.type === 'group') {
+        return { ...item, children: item.children.map(child => translateItem(child, dx, dy)) };
+    }
+    if (item.type === 'frame') {
+        return { ...item, x: item.x + dx, y: item.y + dy, children: item.children.map(child => translateItem(child, dx, dy)) };
+    }
+    return { ...item, x: item.x + dx, y: item.y + dy };
+}
+
+/**
+ * Returns the item scaled by `scale` about `origin`, keeping its rotation. Text grows with its box.
+ */
+export function scaleItemAbout<T extends CanvasItem>(item: T, origin: Point, scale: number): T {
+    if (item.type === 'group') {
+        return { ...item, children: item.children.map(child => scaleItemAbout(child, origin, scale)) };
+    }
+    if (item.type === 'frame') {
+        const children = item.children.map(child => scaleItemAbout(child, origin, scale));
+        return { ...item, x: origin.x + (item.x - origin.x) * scale, y: origin.y + (item.y - origin.y) * scale, width: item.width * scale, height: item.height * scale, children };
+    }
+    const center = getCenter(getBoundingBox(item));
+    const newCenter = { x: origin.x + (center.x - origin.x) * scale, y: origin.y + (center.y - origin.y) * scale };
+    if (item.type === 'drawing') {
+        return { ...item, points: item.points.map(p => ({ x: newCenter.x + (p.x - center.x) * scale, y: newCenter.y + (p.y - center.y) * scale })) };
+    }
+    const width = item.width * scale;
+    const height = item.height * scale;
+    const scaled = { ...item, x: newCenter.x - width / 2, y: newCenter.y - height / 2, width, height };
+    return item.type === 'text' ? { ...scaled, fontSize: (item as TextItem).fontSize * scale } : scaled;
+}
+
+/**
+ * Returns the item turned by `angleDegrees` about `origin`. Frames are not turned; they move with
+ * their children so that their center follows the turn.
+ */
+export function rotateItemAbout<T extends CanvasItem>(item: T, origin: Point, angleDegrees: number): T {
+    if (item.type === 'group') {
+        return { ...item, children: item.children.map(child => rotateItemAbout(child, origin, angleDegrees)) };
+    }
+    const center = getCenter(getBoundingBox(item));
+    const newCenter = rotatePoint(center, origin, angleDegrees);
+    if (item.type === 'frame') {
+        return translateItem(item, newCenter.x - center.x, newCenter.y - center.y);
+    }
+    return { ...translateItem(item, newCenter.x - center.x, newCenter.y - center.y), rotation: item.rotation + angleDegrees };
+}
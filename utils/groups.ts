@@ -0,0 +1,174 @@
+import { CanvasItem, FrameItem, GroupItem } from '../types';
+
+/**
+ * Canvas items form a tree: groups and frames hold their children, which may be groups or frames
+ * again. These helpers find and change items wherever they are in that tree.
+ */
+
+export type ContainerItem = GroupItem | FrameItem;
+
+export const isContainer = (item: CanvasItem): item is ContainerItem => item.type === 'group' || item.type === 'frame';
+
+// Hidden and locked items cannot be clicked, marquee-selected or selected all on the canvas.
+export const isItemPickable = (item: CanvasItem): boolean => !item.isHidden && !item.isLocked;
+
+/**
+ * Returns every item that is not a group or frame, bottom to top, with the children of a group or
+ * frame in its place.
+ */
+export const flattenItems = (items: CanvasItem[]): CanvasItem[] => {
+    return items.flatMap(item => isContainer(item) ? flattenItems(item.children) : [item]);
+};
+
+/**
+ * Returns the items without the hidden ones. Hidden children of groups and frames are left out too.
+ */
+export const withoutHiddenItems = (items: CanvasItem[]): CanvasItem[] => {
+    return items.flatMap((item): CanvasItem[] => {
+        if (item.isHidden) return [];
+        return isContainer(item) ? [{ ...item, children: withoutHiddenItems(item.children) }] : [item];
+    });
+};
+
+export const findItemById = (items: CanvasItem[], id: string): CanvasItem | undefined => {
+    for (const item of items) {
+        if (item.id === id) return item;
+        if (isContainer(item)) {
+            const found = findItemById(item.children, id);
+            if (found) return found;
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Returns the items with the item `id` replaced by `updater(item)`.
+ */
+export const updateItemById = (items: CanvasItem[], id: string, updater: (item: CanvasItem) => CanvasItem): CanvasItem[] => {
+    return items.map(item => {
+        if (item.id === id) return updater(item);
+        if (isContainer(item)) return { ...item, children: updateItemById(item.children, id, updater) };
+        return item;
+    });
+};
+
+/**
+ * Removes the items with the given ids. Groups left without children are removed too; empty
+ * frames stay.
+ */
+export const removeItemsById = (items: CanvasItem[], ids: Set<string>): CanvasItem[] => {
+    return items.flatMap((item): CanvasItem[] => {
+        if (ids.has(item.id)) return [];
+        if (!isContainer(item)) return [item];
+        const children = removeItemsById(item.children, ids);
+        return children.length > 0 || item.type === 'frame' ? [{ ...item, children }] : [];
+    });
+};
+
+/**
+ * Moves an item to the top or bottom of the group (or canvas) it is in.
+ */
+export const reorderItem = (items: CanvasItem[], id: string, position: 'front' | 'back'): CanvasItem[] => {
+    const item = items.find(i => i.id === id);
+    if (item) {
+        const others = items.filter(i => i.id !== id);
+        return position === 'front' ? [...others, item] : [item, ...others];
+    }
+    return items.map(i => isContainer(i) ? { ...i, children: reorderItem(i.children, id, position) } : i);
+};
+
+/**
+ * Moves the item `id` directly above or below the item `targetId`, into the group or frame the
+ * target is in. Nothing changes if the target is the item itself or inside it.
+ */
+export const moveItemNextTo = (items: CanvasItem[], id: string, targetId: string, place: 'above' | 'below'): CanvasItem[] => {
+    const item = findItemById(items, id);
+    if (!item || id === targetId || (isContainer(item) && findItemById(item.children, targetId))) return items;
+    const insert = (list: CanvasItem[]): CanvasItem[] => list.flatMap(i => {
+        if (i.id === targetId) return place === 'above' ? [i, item] : [item, i];
+        return isContainer(i) ? [{ ...i, children: insert(i.children) }] : [i];
+    });
+    const remaining = removeItemsById(items, new Set([id]));
+    // The target is gone if it was a group that held only the moved item.
+    return findItemById(remaining, targetId) ? insert(remaining) : items;
+};
+
+/**
+ * Returns the ids of the groups and frames around the item `id`, outermost first, for use as a
+ * `groupPath`. Returns null if there is no such item.
+ */
+export const findItemPath = (items: CanvasItem[], id: string): string[] | null => {
+    for (const item of items) {
+        if (item.id === id) return [];
+        if (isContainer(item)) {
+            const path = findItemPath(item.children, id);
+            if (path) return [item.id, ...path];
+        }
+    }
+    return null;
+};
+
+/**
+ * Returns the children of the innermost group or frame of `groupPath`, a list of their ids from
+ * the outermost in. Returns null if the path no longer exists.
+ */
+export const getScopeItems = (items: CanvasItem[], groupPath: string[]): CanvasItem[] | null => {
+    let scope = items;
+    for (const id of groupPath) {
+        const group = scope.find(item => item.id === id);
+        if (!group || !isContainer(group)) return null;
+        scope = group.children;
+    }
+    return scope;
+};
+
+/**
+ * Returns the items with the children of the innermost group or frame of `groupPath` replaced by `updater(children)`.
+ */
+export const updateScopeItems = (items: CanvasItem[], groupPath: string[], updater: (scope: CanvasItem[]) => CanvasItem[]): CanvasItem[] => {
+    if (groupPath.length === 0) return updater(items);
+    const [id, ...rest] = groupPath;
+    return items.map(item => item.id === id && isContainer(item) ? { ...item, children: updateScopeItems(item.children, rest, updater) } : item);
+};
+
+/**
+ * Puts the items with the given ids into the group or frame made by `wrap`, where the topmost of
+ * them was. The items must all be in the same group or frame (or all on the canvas itself);
+ * otherwise nothing changes.
+ */
+export const wrapItemsById = (items: CanvasItem[], ids: Set<string>, wrap: (members: CanvasItem[]) => ContainerItem): CanvasItem[] => {
+    const members = items.filter(item => ids.has(item.id));
+    if (members.length === ids.size) {
+        const topIndex = items.findIndex(item => item.id === members[members.length - 1].id);
+        return items.flatMap((item, i) => i === topIndex ? [wrap(members)] : ids.has(item.id) ? [] : [item]);
+    }
+    if (members.length > 0) return items;
+    return items.map(item => isContainer(item) ? { ...item, children: wrapItemsById(item.children, ids, wrap) } : item);
+};
+
+/**
+ * Replaces the groups with the given ids by their children, in place.
+ */
+export const ungroupItemsById = (items: CanvasItem[], ids: Set<string>): CanvasItem[] => {
+    return items.flatMap(item => {
+        if (!isContainer(item)) return [item];
+        const children = ungroupItemsById(item.children, ids);
+        return ids.has(item.id) && item.type === 'group' ? children : [{ ...item, children }];
+    });
+};
+
+/**
+ * Returns a copy of the item with new ids for it and everything in it.
+ */
+export const cloneWithNewIds = <T extends CanvasItem>(item: T): T => {
+    const id = `${item.type}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+    if (item.type === 'group') {
+        return { ...item, id, children: item.children.map(child => cloneWithNewIds(child)) };
+    }
+    if (item.type === 'frame') {
+        const children = item.children.map(child => cloneWithNewIds(child));
+        const outputIndex = item.children.findIndex(child => child.id === item.outputItemId);
+        return { ...item, id, children, outputItemId: outputIndex >= 0 ? children[outputIndex].id : undefined };
+    }
+    return { ...item, id };
+};
@@ -0,0 +1,95 @@
+import { CanvasItem, LineageEdge, LineageGraph, LineageNode } from '../types';
+
+const getGeneration = (item: CanvasItem) => item.type === 'image' || item.type === 'video' ? item.generation : undefined;
+
+/**
+ * Returns the edges into `item`: one per source it was generated from, plus one from the item it
+ * was regenerated from.
+ */
+export const getLineageEdges = (item: CanvasItem): LineageEdge[] => {
+    const generation = getGeneration(item);
+    if (!generation) return [];
+    const edges: LineageEdge[] = (generation.sourceItemIds ?? []).map(from => ({ from, to: item.id, kind: generation.kind }));
+    if (generation.regeneratedFrom) {
+        edges.push({ from: generation.regeneratedFrom, to: item.id, kind: 'regenerate' });
+    }
+    return edges;
+};
+
+/**
+ * Updates the archive of removed ancestors after the canvas changed from `previousItems` to
+ * `currentItems`. Removed items are archived if anything on the canvas or in the archive was
+ * generated from them; archived items that are back on the canvas leave the archive.
+ */
+export const updateLineageArchive = (archive: CanvasItem[], previousItems: CanvasItem[], currentItems: CanvasItem[]): CanvasItem[] => {
+    const onCanvas = new Set(currentItems.map(item => item.id));
+    const kept = archive.filter(item => !onCanvas.has(item.id));
+    const removed = previousItems.filter(item => !onCanvas.has(item.id));
+    if (removed.length === 0 && kept.length === archive.length) return archive;
+
+    // Walk up from everything that stays, so that chains removed all at once are kept whole.
+    const referenced = new Set([...currentItems, ...kept].flatMap(getLineageEdges).map(edge => edge.from));
+    const newlyArchived: CanvasItem[] = [];
+    let pending = removed;
+    for (let found = true; found;) {
+        found = false;
+        pending = pending.filter(item => {
+            if (!referenced.has(item.id)) return true;
+            newlyArchived.push(item);
+            getLineageEdges(item).forEach(edge => referenced.add(edge.from));
+            found = true;
+            return false;
+        });
+    }
+    return [...kept, ...newlyArchived];
+};
+
+/**
+ * Builds the graph of how items were derived from each other. Only items that take part in at
+ * least one generation are included. With `focusId`, only that item's ancestors and descendants are.
+ */
+export const buildLineageGraph = (items: CanvasItem[], archive: CanvasItem[], focusId?: string): LineageGraph => {
+    const onCanvas = new Map(items.map(item => [item.id, item]));
+    const known = new Map([...archive.map(item => [item.id, item] as const), ...onCanvas]);
+    let edges = Array.from(known.values()).flatMap(getLineageEdges);
+
+    if (focusId) {
+        const collect = (start: string, next: (id: string) => string[]) => {
+            const seen = new Set([start]);
+            const queue = [start];
+            while (queue.length > 0) {
+                next(queue.shift()!).forEach(id => {
+                    if (!seen.has(id)) {
+                        seen.add(id);
+                        queue.push(id);
+                    }
+                });
+            }
+            return seen;
+        };
+        const ancestors = collect(focusId, id => edges.filter(edge => edge.to === id).map(edge => edge.from));
+        const descendants = collect(focusId, id => edges.filter(edge => edge.from === id).map(edge => edge.to));
+        edges = edges.filter(edge => (ancestors.has(edge.from) && ancestors.has(edge.to)) || (descendants.has(edge.from) && descendants.has(edge.to)));
+    }
+
+    const ids = Array.from(new Set(edges.flatMap(edge => [edge.from, edge.to])));
+    const depths = new Map<string, number>();
+    const getDepth = (id: string, visiting: Set<string>): number => {
+        if (depths.has(id)) return depths.get(id)!;
+        if (visiting.has(id)) return 0; // Guards against cycles in hand-edited files.
+        visiting.add(id);
+        const parents = edges.filter(edge => edge.to === id).map(edge => edge.from);
+        const depth = parents.length === 0 ? 0 : 1 + Math.max(...parents.map(parent => getDepth(parent, visiting)));
+        visiting.delete(id);
+        depths.set(id, depth);
+        return depth;
+    };
+
+    const nodes: LineageNode[] = ids.map(id => ({
+        id,
+        item: known.get(id) ?? null,
+        isOnCanvas: onCanvas.has(id),
+        depth: getDepth(id, new Set()),
+    }));
+    return { nodes, edges };
+};
@@ -0,0 +1,19 @@
+/**
+ * Prompt templates mark the parts to fill in with `{variable}`, e.g. "A {subject} in the style of {artist}".
+ */
+
+const VARIABLE_PATTERN = /\{([^{}\n]+)\}/g;
+
+/**
+ * Returns the names of the variables in a template, each once, in order of appearance.
+ */
+export const getTemplateVariables = (text: string): string[] => {
+    return Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1].trim())));
+};
+
+/**
+ * Replaces every variable that has a value. Variables without one are left as they are.
+ */
+export const fillTemplate = (text: string, values: Record<string, string>): string => {
+    return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name.trim()]?.trim() || placeholder);
+};
@@ -0,0 +1,91 @@
+/**
+ * Loads state from localStorage.
+ * @param key The key to load from.
+ * @param defaultValue The default value if the key is not found or parsing fails.
+ * @returns The parsed state or the default value.
+ */
+export const loadState = <T,>(key: string, defaultValue: T): T => {
+    try {
+        const savedState = localStorage.getItem(key);
+        if (savedState) {
+            return JSON.parse(savedState);
+        }
+    } catch (e) {
+        console.error(`Failed to load state for key "${key}" from localStorage`, e);
+    }
+    return defaultValue;
+};
+
+/**
+ * Saves state to localStorage.
+ * @param key The key to save to.
+ * @param state The state to save.
+ */
+export const saveState = <T,>(key: string, state: T) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(state));
+    } catch (e) {
+        console.error(`Failed to save state for key "${key}" to localStorage`, e);
+    }
+};
+
+// Settings that used to be global and now belong to a board.
+const LEGACY_BOARD_KEYS = ['zoom', 'pan', 'gridOptions', 'modelSettings'];
+
+const boardKeyPrefix = (boardId: string) => `board:${boardId}:`;
+
+/**
+ * Returns the localStorage key of a per-board setting, e.g. `board:<id>:zoom`.
+ */
+export const boardStateKey = (boardId: string, key: string) => `${boardKeyPrefix(boardId)}${key}`;
+
+export const loadBoardState = <T,>(boardId: string, key: string, defaultValue: T): T => {
+    return loadState(boardStateKey(boardId, key), defaultValue);
+};
+
+export const saveBoardState = <T,>(boardId: string, key: string, state: T) => {
+    saveState(boardStateKey(boardId, key), state);
+};
+
+const getBoardKeys = (boardId: string): string[] => {
+    const prefix = boardKeyPrefix(boardId);
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+};
+
+/**
+ * Copies every per-board setting of one board to another.
+ */
+export const copyBoardState = (fromBoardId: string, toBoardId: string) => {
+    const fromPrefix = boardKeyPrefix(fromBoardId);
+    getBoardKeys(fromBoardId).forEach(key => {
+        const value = localStorage.getItem(key);
+        if (value !== null) {
+            localStorage.setItem(boardStateKey(toBoardId, key.slice(fromPrefix.length)), value);
+        }
+    });
+};
+
+/**
+ * Removes every per-board setting of a board.
+ */
+export const removeBoardState = (boardId: string) => {
+    getBoardKeys(boardId).forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Moves the settings saved by versions without boards into the namespace of the given board.
+ */
+export const migrateLegacyBoardState = (boardId: string) => {
+    LEGACY_BOARD_KEYS.forEach(key => {
+        const value = localStorage.getItem(key);
+        if (value !== null) {
+            localStorage.setItem(boardStateKey(boardId, key), value);
+            localStorage.removeItem(key);
+        }
+    });
+};
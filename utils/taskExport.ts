@@ -0,0 +1,53 @@
+import { GenerationTask } from '../types';
+
+/**
+ * Turns the progress panel's tasks into files for auditing which prompts were sent to which model.
+ */
+
+export type TaskExportFormat = 'json' | 'csv';
+
+export const TASK_EXPORT_MIME_TYPES: Record<TaskExportFormat, string> = {
+    json: 'application/json',
+    csv: 'text/csv',
+};
+
+const CSV_COLUMNS = ['id', 'type', 'status', 'createdAt', 'provider', 'model', 'prompt', 'error', 'log'];
+
+const formatTime = (time: number | undefined) => time ? new Date(time).toISOString() : '';
+
+// Prompts and errors are free text. A leading ' keeps spreadsheets from reading one as a formula.
+const escapeCsvField = (value: string) => {
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (tasks: GenerationTask[]): string => {
+    const rows = tasks.map(task => [
+        task.id,
+        task.type,
+        task.status,
+        formatTime(task.createdAt),
+        task.model?.provider ?? '',
+        task.model?.model ?? '',
+        task.prompt ?? '',
+        task.error ?? '',
+        task.log.map(entry => entry.message).join('\n'),
+    ]);
+    return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+const toJson = (tasks: GenerationTask[]): string => JSON.stringify(tasks.map(task => ({
+    id: task.id,
+    type: task.type,
+    status: task.status,
+    createdAt: formatTime(task.createdAt) || null,
+    model: task.model ?? null,
+    prompt: task.prompt ?? null,
+    error: task.error ?? null,
+    log: task.log,
+})), null, 2);
+
+export const exportTasks = (tasks: GenerationTask[], format: TaskExportFormat): Blob => {
+    const text = format === 'csv' ? toCsv(tasks) : toJson(tasks);
+    return new Blob([text], { type: TASK_EXPORT_MIME_TYPES[format] });
+};